@@ -0,0 +1,75 @@
+/**
+ * Carrier adapter contract - Normalized shipment tracking across carriers
+ * Each adapter maps its carrier's raw scan codes onto TrackingStatus.
+ */
+
+export type TrackingStatus = 'label_created' | 'in_transit' | 'out_for_delivery' | 'exception' | 'delivered';
+
+export interface TrackingEvent {
+  status: TrackingStatus;
+  /** Raw carrier scan code, kept for support staff */
+  code: string;
+  description: string;
+  location?: string;
+  occurredAt: Date;
+}
+
+export interface CarrierTrackingResult {
+  carrier: string;
+  trackingNumber: string;
+  /** Newest event first */
+  events: TrackingEvent[];
+  /** Carrier's own delivery estimate, when it provides one */
+  estimatedDelivery?: Date;
+}
+
+export interface CarrierAdapter {
+  readonly name: string;
+  track(trackingNumber: string): Promise<CarrierTrackingResult | null>;
+}
+
+/** UPS-style single-letter activity codes */
+export const UPS_STATUS_CODES: Record<string, TrackingStatus> = {
+  M: 'label_created',
+  P: 'in_transit',
+  I: 'in_transit',
+  O: 'out_for_delivery',
+  X: 'exception',
+  D: 'delivered',
+};
+
+/** FedEx-style two-letter scan event codes */
+export const FEDEX_STATUS_CODES: Record<string, TrackingStatus> = {
+  OC: 'label_created',
+  PU: 'in_transit',
+  IT: 'in_transit',
+  AR: 'in_transit',
+  DP: 'in_transit',
+  OD: 'out_for_delivery',
+  DE: 'exception',
+  SE: 'exception',
+  DL: 'delivered',
+};
+
+/** USPS-style numeric event codes */
+export const USPS_STATUS_CODES: Record<string, TrackingStatus> = {
+  GX: 'label_created',
+  '03': 'in_transit',
+  '10': 'in_transit',
+  '07': 'in_transit',
+  OF: 'out_for_delivery',
+  '53': 'exception',
+  '55': 'exception',
+  '01': 'delivered',
+};
+
+export const CARRIER_STATUS_CODES: Record<string, Record<string, TrackingStatus>> = {
+  UPS: UPS_STATUS_CODES,
+  FedEx: FEDEX_STATUS_CODES,
+  USPS: USPS_STATUS_CODES,
+};
+
+/** Maps a raw carrier code onto the normalized status; unknown codes count as in transit */
+export function normalizeStatus(carrier: string, code: string): TrackingStatus {
+  return CARRIER_STATUS_CODES[carrier]?.[code] ?? 'in_transit';
+}
@@ -4,24 +4,83 @@
  */
 
 import { Agent, Tool } from '@hazeljs/agent';
-import { OrderService } from '../services/order.service';
+import { OrderService, type Order } from '../services/order.service';
+import { CustomerService } from '../services/customer.service';
 import { InventoryService } from '../services/inventory.service';
 import { RefundService } from '../services/refund.service';
 import { TicketService } from '../services/ticket.service';
-import type { QueueService } from '@hazeljs/queue';
+import { RefundEligibilityService, type RefundEligibility } from '../services/refund-eligibility.service';
+import { VerificationService } from '../services/verification.service';
+import { AddressService } from '../services/address.service';
+import { ShipmentTrackingService } from '../services/shipment-tracking.service';
+import {
+  ReturnService,
+  RETURN_REASONS,
+  type ReturnInitiation,
+  type ReturnReason,
+  type ReturnRejection,
+} from '../services/return.service';
+import type { CitationService } from '../services/citation.service';
+import type { KnowledgeBaseService } from '../services/knowledge-base.service';
+import type { JobQueueService } from '../workers/job-queue.service';
+import type { InventoryWorker } from '../workers/inventory.worker';
+import { TICKETS_QUEUE } from '../workers/ticket.worker';
+import { currentToolContext, type ToolContext } from './tool-context';
 
 export interface CSRDependencies {
   orderService: OrderService;
+  customerService: CustomerService;
   inventoryService: InventoryService;
   refundService: RefundService;
+  refundEligibilityService: RefundEligibilityService;
   ticketService: TicketService;
+  verificationService: VerificationService;
+  addressService: AddressService;
+  returnService: ReturnService;
+  shipmentTrackingService: ShipmentTrackingService;
+  inventoryWorker: InventoryWorker;
+  citationService: CitationService;
+  knowledgeBaseService: KnowledgeBaseService;
 }
 
+/** Tools that wait for approval; `precheck` runs their checks before anyone is asked */
+const GATED_TOOLS = ['processRefund', 'initiateReturn', 'updateShippingAddress'];
+
 const CSR_SYSTEM_PROMPT = `You are a helpful customer support agent for an e-commerce platform.
-You can look up orders, check inventory, process refunds, create support tickets, and search the knowledge base.
+You can look up orders, check inventory, cancel orders that have not shipped, start returns, process refunds and check their status,
+create and follow up on support tickets, and search the knowledge base.
+When a customer asks for an update on a ticket (TKT-...), call getTicketStatus before answering.
 Always be polite and professional. If you need to process a refund, explain why and what the customer can expect.
-When searching the knowledge base, use the results to provide accurate, cited answers.
-If you don't know something, say so and offer to create a support ticket for escalation.`;
+If a refund is rejected, explain the returned reasons to the customer in plain language.
+Refunds, returns and address changes wait for a supervisor's approval. Call checkAction with the same arguments first
+and only request the action when it reports allowed; otherwise explain the returned reasons.
+When searching the knowledge base, use the results to provide accurate answers and cite each document you rely on
+inline with its citation number, e.g. "Refunds are issued within 5 business days [1]".
+Policies change over time: when the question concerns a specific order, pass its orderId to searchKnowledgeBase so the
+policy in force on the purchase date is used.
+If you don't know something, say so and offer to create a support ticket for escalation.
+Never share order details, change an address or refund an order for a caller who is not verified. When a tool reports
+verificationRequired, ask for the email address and billing ZIP/postal code on the account and call verifyCustomer.
+If the customer has no order ID, use findCustomerOrders and confirm which order they mean before acting on it.
+When an item is out of stock, offer the suggested alternatives or a back-in-stock notification (subscribeBackInStock).
+When trackShipment reports a late, lost or exception shipment, apologize and offer a reshipment (createTicket) or a refund (processRefund).`;
+
+/** Tool-use hints the HCEL chain puts in front of the customer's message */
+export const CSR_TOOL_HINTS = [
+  'You are operating as csr-agent with tool access.',
+  'If an order ID like ORD-12345 is present, call lookupOrder before asking follow-up questions.',
+  'If the customer asks where a package is, call trackShipment.',
+  'If the customer asks about stock, call checkInventory.',
+  'If customer requests refund/address changes, use appropriate tools and approval workflow.',
+  'Cancel orders that have not shipped with cancelOrder; for shipped or delivered items use initiateReturn.',
+  'Only ask for email/phone/order id if the needed identifier is missing.',
+  'Without an order ID, call findCustomerOrders and let the customer pick from the list.',
+  'If a tool returns verificationRequired, ask for the account email and billing ZIP code and call verifyCustomer.',
+].join(' ');
+
+export function withToolHints(message: string): string {
+  return `${CSR_TOOL_HINTS}\n\nCustomer request: ${message}`;
+}
 
 @Agent({
   name: 'csr-agent',
@@ -36,8 +95,7 @@ If you don't know something, say so and offer to create a support ticket for esc
 export class CSRAgent {
   constructor(
     private deps: CSRDependencies,
-    private ragService: any, // RAGService is now handled through the platform facade
-    private queueService?: QueueService
+    private queueService?: JobQueueService
   ) {}
 
   @Tool({
@@ -52,6 +110,7 @@ export class CSRAgent {
     ],
   })
   async lookupOrder(input: { orderId: string }) {
+    const context = currentToolContext();
     const order = await this.deps.orderService.findById(input.orderId);
 
     if (!order) {
@@ -61,6 +120,18 @@ export class CSRAgent {
       };
     }
 
+    if (!(await this.deps.verificationService.isAuthorizedForOrder(order.id, context))) {
+      return {
+        found: true,
+        verificationRequired: true,
+        orderId: order.id,
+        status: order.status,
+        itemCount: order.items.reduce((count, item) => count + item.quantity, 0),
+        estimatedDelivery: order.estimatedDelivery,
+        message: 'Verify the customer to see items, shipping address and tracking details',
+      };
+    }
+
     return {
       found: true,
       orderId: order.id,
@@ -74,20 +145,219 @@ export class CSRAgent {
   }
 
   @Tool({
-    description: 'Check product inventory and availability',
+    description:
+      'Find a customer\'s orders when they do not have an order ID: by the signed-in account, email or phone, optionally within a date range or status',
+    parameters: [
+      {
+        name: 'email',
+        type: 'string',
+        description: 'Email address on the account',
+        required: false,
+      },
+      {
+        name: 'phone',
+        type: 'string',
+        description: 'Phone number on the account',
+        required: false,
+      },
+      {
+        name: 'fromDate',
+        type: 'string',
+        description: 'Only orders placed on or after this date (YYYY-MM-DD)',
+        required: false,
+      },
+      {
+        name: 'toDate',
+        type: 'string',
+        description: 'Only orders placed on or before this date (YYYY-MM-DD)',
+        required: false,
+      },
+      {
+        name: 'status',
+        type: 'string',
+        description: 'Only orders in this status, e.g. shipped or delivered',
+        required: false,
+      },
+      {
+        name: 'page',
+        type: 'number',
+        description: 'Page number, starting at 1 (default: 1)',
+        required: false,
+      },
+    ],
+  })
+  async findCustomerOrders(
+    input: { email?: string; phone?: string; fromDate?: string; toDate?: string; status?: string; page?: number }
+  ) {
+    const context = currentToolContext();
+    const customer = input.email
+      ? await this.deps.customerService.findByEmail(input.email)
+      : input.phone
+        ? await this.deps.customerService.findByPhone(input.phone)
+        : context.userId
+          ? await this.deps.customerService.findById(context.userId)
+          : null;
+
+    // The same answer whether or not an account matches, so the tool can't be used to find out which do
+    if (!customer || !this.deps.verificationService.isAuthorizedForCustomer(customer.id, context)) {
+      return {
+        found: false,
+        verificationRequired: true,
+        message:
+          'Verify the customer with their account email and billing ZIP code before listing orders, then look them up by that email or their full phone number',
+      };
+    }
+
+    const toDate = input.toDate ? new Date(input.toDate) : undefined;
+    toDate?.setHours(23, 59, 59, 999);
+    const result = await this.deps.orderService.search(
+      {
+        customerId: customer.id,
+        status: input.status,
+        from: input.fromDate ? new Date(input.fromDate) : undefined,
+        to: toDate,
+      },
+      input.page || 1,
+      5
+    );
+
+    return {
+      found: result.total > 0,
+      total: result.total,
+      page: result.page,
+      hasMore: result.hasMore,
+      orders: result.orders.map((order) => this.summarizeOrder(order)),
+    };
+  }
+
+  @Tool({
+    description: 'Verify the caller owns an order using the account email and billing ZIP/postal code',
+    parameters: [
+      {
+        name: 'orderId',
+        type: 'string',
+        description: 'The order ID the customer is asking about (omit when the customer has no order ID)',
+        required: false,
+      },
+      {
+        name: 'email',
+        type: 'string',
+        description: 'Email address on the account',
+        required: true,
+      },
+      {
+        name: 'postalCode',
+        type: 'string',
+        description: 'Billing ZIP/postal code on the account',
+        required: true,
+      },
+    ],
+  })
+  async verifyCustomer(input: { orderId?: string; email: string; postalCode: string }) {
+    const context = currentToolContext();
+    const result = await this.deps.verificationService.verifyChallenge(context, input);
+    return {
+      verified: result.verified,
+      attemptsRemaining: result.attemptsRemaining,
+      message: result.message,
+    };
+  }
+
+  @Tool({
+    description: 'Track the shipment of an order: carrier scans, current status, and whether it is late or lost',
+    parameters: [
+      {
+        name: 'orderId',
+        type: 'string',
+        description: 'The order ID to track',
+        required: true,
+      },
+    ],
+  })
+  async trackShipment(input: { orderId: string }) {
+    const context = currentToolContext();
+    if (!(await this.deps.verificationService.isAuthorizedForOrder(input.orderId, context))) {
+      return { found: false, ...this.verificationRequired(input.orderId) };
+    }
+
+    const order = await this.deps.orderService.findById(input.orderId);
+    if (!order?.trackingNumber) {
+      return { found: false, message: `Order ${input.orderId} has not shipped yet` };
+    }
+
+    const tracking = await this.deps.shipmentTrackingService.track(order);
+    if (!tracking) {
+      return { found: false, message: `No carrier has tracking data for ${order.trackingNumber} yet` };
+    }
+
+    return {
+      found: true,
+      orderId: order.id,
+      carrier: tracking.carrier,
+      trackingNumber: tracking.trackingNumber,
+      status: tracking.status,
+      lastUpdate: tracking.lastEvent,
+      estimatedDelivery: tracking.estimatedDelivery,
+      recentEvents: tracking.events.slice(0, 5),
+      issue: tracking.issue,
+      ...(tracking.issue
+        ? {
+            suggestedActions: [
+              {
+                action: 'reship',
+                tool: 'createTicket',
+                hint: `High-priority ticket to reship order ${order.id} (${tracking.issue} shipment)`,
+              },
+              { action: 'refund', tool: 'processRefund', amount: order.total },
+            ],
+          }
+        : {}),
+    };
+  }
+
+  @Tool({
+    description:
+      'Check product availability by variant (e.g. size) and warehouse, nearest warehouses first, with in-stock alternatives when it is sold out',
     parameters: [
       {
         name: 'productId',
         type: 'string',
-        description: 'The product ID to check',
+        description: 'The product ID or variant SKU to check (e.g. PROD-001 or PROD-001-M)',
         required: true,
       },
+      {
+        name: 'size',
+        type: 'string',
+        description: 'Variant size, e.g. S, M or L',
+        required: false,
+      },
+      {
+        name: 'color',
+        type: 'string',
+        description: 'Variant color',
+        required: false,
+      },
+      {
+        name: 'region',
+        type: 'string',
+        description: 'Customer state/region code, to list nearby warehouses first (e.g. IL)',
+        required: false,
+      },
     ],
   })
-  async checkInventory(input: { productId: string }) {
-    const inventory = await this.deps.inventoryService.check(input.productId);
+  async checkInventory(input: { productId: string; size?: string; color?: string; region?: string }) {
+    const product = await this.deps.inventoryService.findProduct(input.productId);
+    const isVariantSku = product?.variants.some((variant) => variant.sku === input.productId && variant.sku !== product.id);
+    const variants = product
+      ? await this.deps.inventoryService.availability(product.id, {
+          attributes: isVariantSku
+            ? product.variants.find((variant) => variant.sku === input.productId)!.attributes
+            : { size: input.size, color: input.color },
+          near: { region: input.region },
+        })
+      : null;
 
-    if (!inventory) {
+    if (!product || !variants) {
       return {
         productId: input.productId,
         inStock: false,
@@ -95,14 +365,115 @@ export class CSRAgent {
       };
     }
 
+    const quantity = variants.reduce((sum, variant) => sum + variant.available, 0);
+    const nextRestock = variants
+      .map((variant) => variant.nextRestock)
+      .filter(Boolean)
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+
+    return {
+      productId: product.id,
+      name: product.name,
+      inStock: quantity > 0,
+      quantity,
+      availableDate: nextRestock,
+      variants: variants.map((variant) => ({
+        sku: variant.sku,
+        ...variant.attributes,
+        available: variant.available,
+        nextRestock: variant.nextRestock,
+        warehouses: variant.warehouses
+          .filter((warehouse) => warehouse.available > 0)
+          .map((warehouse) => ({ name: warehouse.warehouseName, region: warehouse.region, available: warehouse.available })),
+      })),
+      ...(quantity === 0
+        ? { alternatives: await this.deps.inventoryService.suggestAlternatives(product.id) }
+        : {}),
+    };
+  }
+
+  @Tool({
+    description: 'Notify the customer when a sold-out product or variant is back in stock',
+    parameters: [
+      {
+        name: 'sku',
+        type: 'string',
+        description: 'The variant SKU (e.g. PROD-001-M) or product ID for single-variant products',
+        required: true,
+      },
+      {
+        name: 'contact',
+        type: 'string',
+        description: 'Email address or phone number to notify (defaults to the signed-in customer email)',
+        required: false,
+      },
+      {
+        name: 'channel',
+        type: 'string',
+        description: 'email or sms (default: email)',
+        required: false,
+      },
+    ],
+  })
+  async subscribeBackInStock(input: { sku: string; contact?: string; channel?: string }) {
+    const context = currentToolContext();
+    const product = await this.deps.inventoryService.findProduct(input.sku);
+    if (!product || !product.variants.some((variant) => variant.sku === input.sku)) {
+      return { success: false, message: `Unknown SKU ${input.sku}; use a variant SKU from checkInventory` };
+    }
+
+    const customer = context.userId ? await this.deps.customerService.findById(context.userId) : null;
+    const channel = input.channel === 'sms' ? 'sms' : 'email';
+    const contact = input.contact || (channel === 'sms' ? customer?.phone : customer?.email);
+    if (!contact) {
+      return { success: false, message: 'Ask the customer for an email address or phone number to notify' };
+    }
+
+    const subscription = await this.deps.inventoryService.subscribeBackInStock({
+      sku: input.sku,
+      contact,
+      channel,
+      customerId: customer?.id,
+    });
+    await this.deps.inventoryWorker.schedule(subscription.id, subscription.sku);
+
     return {
-      productId: input.productId,
-      inStock: inventory.quantity > 0,
-      quantity: inventory.quantity,
-      availableDate: inventory.nextRestock,
+      success: true,
+      subscriptionId: subscription.id,
+      sku: subscription.sku,
+      channel: subscription.channel,
+      expectedRestock: await this.deps.inventoryService.nextRestock(subscription.sku),
+      message: `We'll send a ${subscription.channel} to ${contact} as soon as ${product.name} is back in stock`,
     };
   }
 
+  @Tool({
+    description: 'Check whether processRefund, initiateReturn or updateShippingAddress would go ahead, before it is sent for approval',
+    parameters: [
+      {
+        name: 'action',
+        type: 'string',
+        description: 'The tool to check: processRefund, initiateReturn or updateShippingAddress',
+        required: true,
+      },
+      {
+        name: 'arguments',
+        type: 'object',
+        description: 'The arguments you would call the tool with',
+        required: true,
+      },
+    ],
+  })
+  async checkAction(input: { action: string; arguments?: Record<string, unknown> }) {
+    if (!GATED_TOOLS.includes(input.action)) {
+      return { allowed: false, message: `${input.action} is not one of ${GATED_TOOLS.join(', ')}` };
+    }
+
+    const blocked = await this.precheck(input.action, input.arguments || {});
+    if (blocked) return { allowed: false, ...blocked };
+    return { allowed: true, message: `${input.action} can be requested; it runs once approved` };
+  }
+
   @Tool({
     description: 'Process a refund for an order',
     requiresApproval: true,
@@ -129,23 +500,96 @@ export class CSRAgent {
     ],
   })
   async processRefund(input: { orderId: string; amount: number; reason: string }) {
-    const refund = await this.deps.refundService.process({
-      orderId: input.orderId,
-      amount: input.amount,
-      reason: input.reason,
+    const context = currentToolContext();
+    if (!(await this.deps.verificationService.isAuthorizedForOrder(input.orderId, context))) {
+      return this.verificationRequired(input.orderId);
+    }
+
+    // Checked and issued in one step per order, so two identical requests can't both pass the check
+    return this.deps.refundEligibilityService.serialize(input.orderId, async () => {
+      const eligibility = await this.deps.refundEligibilityService.check(input, { scope: context.sessionId });
+      const blocked = this.refundBlocked(input.orderId, eligibility);
+      if (blocked) return blocked;
+
+      const refund = await this.deps.refundService.process({
+        orderId: input.orderId,
+        amount: input.amount,
+        reason: input.reason,
+        idempotencyKey: eligibility.idempotencyKey,
+      });
+
+      return {
+        success: true,
+        refundId: refund.id,
+        amount: refund.amount,
+        status: refund.status,
+        remainingRefundableAmount: Math.max(0, eligibility.remainingAmount - refund.amount),
+        estimatedProcessingDays: this.deps.refundService.estimateProcessingDays(refund),
+      };
     });
+  }
+
+  @Tool({
+    description: 'Get the status of a refund by refund ID, or all refunds for an order',
+    parameters: [
+      {
+        name: 'refundId',
+        type: 'string',
+        description: 'The refund ID (format: REF-...)',
+        required: false,
+      },
+      {
+        name: 'orderId',
+        type: 'string',
+        description: 'The order ID whose refunds to list',
+        required: false,
+      },
+    ],
+  })
+  async getRefundStatus(input: { refundId?: string; orderId?: string }) {
+    const context = currentToolContext();
+    if (!input.refundId && !input.orderId) {
+      return { found: false, message: 'Provide a refundId or an orderId' };
+    }
+
+    const refunds = input.refundId
+      ? [await this.deps.refundService.findById(input.refundId)].filter((refund) => refund !== null)
+      : await this.deps.refundService.findByOrder(input.orderId!);
+
+    if (refunds.length === 0 && !input.orderId) {
+      return { found: false, message: `Refund ${input.refundId} not found` };
+    }
+
+    const orderId = refunds[0]?.orderId ?? input.orderId;
+    if (!(await this.deps.verificationService.isAuthorizedForOrder(orderId, context))) {
+      return { found: false, ...this.verificationRequired(orderId) };
+    }
+
+    if (refunds.length === 0) {
+      return {
+        found: false,
+        message: input.refundId
+          ? `Refund ${input.refundId} not found`
+          : `No refunds found for order ${input.orderId}`,
+      };
+    }
 
     return {
-      success: true,
-      refundId: refund.id,
-      amount: refund.amount,
-      status: refund.status,
-      estimatedProcessingDays: 5,
+      found: true,
+      refunds: refunds.map((refund) => ({
+        refundId: refund.id,
+        orderId: refund.orderId,
+        amount: refund.amount,
+        status: refund.status,
+        requestedAt: refund.createdAt,
+        lastUpdated: refund.updatedAt,
+        estimatedProcessingDays: this.deps.refundService.estimateProcessingDays(refund),
+      })),
     };
   }
 
   @Tool({
-    description: 'Update shipping address for an order',
+    description: 'Update the shipping address of an order that has not shipped yet',
     requiresApproval: true,
     parameters: [
       {
@@ -155,24 +599,178 @@ export class CSRAgent {
         required: true,
       },
       {
-        name: 'newAddress',
-        type: 'object',
-        description: 'New shipping address',
+        name: 'line1',
+        type: 'string',
+        description: 'Street address, e.g. "221 Baker St"',
+        required: true,
+      },
+      {
+        name: 'line2',
+        type: 'string',
+        description: 'Apartment, suite or unit (optional)',
+        required: false,
+      },
+      {
+        name: 'city',
+        type: 'string',
+        description: 'City or town',
+        required: true,
+      },
+      {
+        name: 'region',
+        type: 'string',
+        description: 'State/province code, e.g. "CA" (required for US, CA, AU, IN, JP)',
+        required: false,
+      },
+      {
+        name: 'postalCode',
+        type: 'string',
+        description: 'ZIP or postal code in the country format, e.g. "94105" or "SW1A 1AA"',
+        required: true,
+      },
+      {
+        name: 'country',
+        type: 'string',
+        description: 'Two-letter ISO country code, e.g. "US"',
         required: true,
       },
     ],
   })
-  async updateShippingAddress(input: { orderId: string; newAddress: Record<string, unknown> }) {
-    const updated = await this.deps.orderService.updateAddress(input.orderId, input.newAddress);
+  async updateShippingAddress(
+    input: {
+      orderId: string;
+      line1: string;
+      line2?: string;
+      city: string;
+      region?: string;
+      postalCode: string;
+      country: string;
+    }
+  ) {
+    const context = currentToolContext();
+    const blocked = await this.addressChangeBlocked(input, context);
+    if (blocked) return blocked;
 
-    if (!updated) {
-      return { success: false, message: `Order ${input.orderId} not found` };
+    const validation = this.deps.addressService.validate(input);
+    if (validation.valid === false) {
+      return { success: false, orderId: input.orderId, errors: validation.errors };
     }
 
+    const updated = await this.deps.orderService.updateAddress(input.orderId, validation.address, context.userId);
+
     return {
       success: true,
-      orderId: input.orderId,
+      orderId: updated.id,
       newAddress: updated.shippingAddress,
+      formattedAddress: this.deps.addressService.format(updated.shippingAddress),
+    };
+  }
+
+  @Tool({
+    description: 'Cancel an order that has not shipped yet',
+    parameters: [
+      {
+        name: 'orderId',
+        type: 'string',
+        description: 'The order ID to cancel',
+        required: true,
+      },
+      {
+        name: 'reason',
+        type: 'string',
+        description: 'Why the customer wants to cancel',
+        required: true,
+      },
+    ],
+  })
+  async cancelOrder(input: { orderId: string; reason: string }) {
+    const context = currentToolContext();
+    if (!(await this.deps.verificationService.isAuthorizedForOrder(input.orderId, context))) {
+      return this.verificationRequired(input.orderId);
+    }
+
+    const order = await this.deps.orderService.findById(input.orderId);
+    if (!order) {
+      return { success: false, message: `Order ${input.orderId} not found` };
+    }
+    if (!this.deps.orderService.canCancel(order)) {
+      return {
+        success: false,
+        orderId: order.id,
+        status: order.status,
+        message: `Order ${order.id} is already ${order.status} and cannot be cancelled; offer a return instead`,
+      };
+    }
+
+    const cancelled = await this.deps.orderService.cancel(order.id, input.reason);
+    await this.deps.inventoryService.releaseOrder(cancelled.id);
+    return {
+      success: true,
+      orderId: cancelled.id,
+      status: cancelled.status,
+      cancelledAt: cancelled.cancelledAt,
+      message: `Order ${cancelled.id} was cancelled; the payment authorization of $${cancelled.total.toFixed(2)} will be released`,
+    };
+  }
+
+  @Tool({
+    description: 'Start a return (RMA) for some or all items of a delivered order and issue a return label',
+    requiresApproval: true,
+    parameters: [
+      {
+        name: 'orderId',
+        type: 'string',
+        description: 'The order ID',
+        required: true,
+      },
+      {
+        name: 'reason',
+        type: 'string',
+        description: `Return reason, one of: ${RETURN_REASONS.join(', ')}`,
+        required: true,
+      },
+      {
+        name: 'items',
+        type: 'array',
+        description: 'Items to return as [{ "sku": "PROD-001", "quantity": 1 }]; omit to return the whole order',
+        required: false,
+      },
+      {
+        name: 'notes',
+        type: 'string',
+        description: 'Details from the customer, e.g. what is damaged',
+        required: false,
+      },
+    ],
+  })
+  async initiateReturn(
+    input: {
+      orderId: string;
+      reason: string;
+      items?: Array<{ sku: string; quantity?: number }>;
+      notes?: string;
+    }
+  ) {
+    const context = currentToolContext();
+    if (!(await this.deps.verificationService.isAuthorizedForOrder(input.orderId, context))) {
+      return this.verificationRequired(input.orderId);
+    }
+
+    const result = await this.deps.returnService.initiate(this.returnInitiation(input));
+
+    if (result.success === false) {
+      return this.returnRejected(input.orderId, result.rejections);
+    }
+
+    const { returnRequest } = result;
+    return {
+      success: true,
+      rmaNumber: returnRequest.rmaNumber,
+      items: returnRequest.items,
+      refundAmount: returnRequest.refundAmount,
+      autoRefund: returnRequest.autoRefund,
+      returnLabel: returnRequest.label,
+      message: `Return ${returnRequest.rmaNumber} created. Ship the items with the prepaid ${returnRequest.label.carrier} label; the refund is issued when they arrive.`,
     };
   }
 
@@ -199,21 +797,26 @@ export class CSRAgent {
       },
     ],
   })
-  async createTicket(input: {
-    subject: string;
-    description: string;
-    priority?: string;
-  }) {
+  async createTicket(
+    input: {
+      subject: string;
+      description: string;
+      priority?: string;
+    }
+  ) {
+    const context = currentToolContext();
     const ticket = await this.deps.ticketService.create({
       subject: input.subject,
       description: input.description,
       priority: input.priority,
+      sessionId: context.sessionId,
+      userId: context.userId,
     });
 
     // Optionally enqueue for async processing (e.g., send notification)
     if (this.queueService) {
       try {
-        await this.queueService.add('tickets', 'created', {
+        await this.queueService.add(TICKETS_QUEUE, 'created', {
           ticketId: ticket.id,
           subject: ticket.subject,
         });
@@ -226,12 +829,209 @@ export class CSRAgent {
       success: true,
       ticketId: ticket.id,
       status: ticket.status,
-      message: `Ticket ${ticket.id} created. Our team will follow up within 24 hours.`,
+      priority: ticket.priority,
+      slaDueAt: ticket.slaDueAt,
+      message: `Ticket ${ticket.id} created. Our team will follow up by ${ticket.slaDueAt.toUTCString()}.`,
+    };
+  }
+
+  @Tool({
+    description: 'Get the current status, assignee and public updates of a support ticket',
+    parameters: [
+      {
+        name: 'ticketId',
+        type: 'string',
+        description: 'The ticket ID (format: TKT-...)',
+        required: true,
+      },
+    ],
+  })
+  async getTicketStatus(input: { ticketId: string }) {
+    const context = currentToolContext();
+    const ticket = await this.deps.ticketService.getById(input.ticketId);
+
+    if (!ticket || !this.canAccessTicket(ticket.userId, context)) {
+      return { found: false, message: `Ticket ${input.ticketId} not found` };
+    }
+
+    return {
+      found: true,
+      ticketId: ticket.id,
+      subject: ticket.subject,
+      status: ticket.status,
+      priority: ticket.priority,
+      assignee: ticket.assignee,
+      slaDueAt: ticket.slaDueAt,
+      overdue: this.deps.ticketService.isOverdue(ticket),
+      lastUpdated: ticket.updatedAt,
+      updates: ticket.comments
+        .filter((comment) => !comment.internal)
+        .map((comment) => ({ author: comment.author, body: comment.body, at: comment.createdAt })),
+    };
+  }
+
+  @Tool({
+    description: 'Add a customer update or additional information to an existing support ticket',
+    parameters: [
+      {
+        name: 'ticketId',
+        type: 'string',
+        description: 'The ticket ID (format: TKT-...)',
+        required: true,
+      },
+      {
+        name: 'comment',
+        type: 'string',
+        description: 'The information to add to the ticket',
+        required: true,
+      },
+    ],
+  })
+  async addTicketComment(input: { ticketId: string; comment: string }) {
+    const context = currentToolContext();
+    const existing = await this.deps.ticketService.getById(input.ticketId);
+
+    if (!existing || !this.canAccessTicket(existing.userId, context)) {
+      return { success: false, message: `Ticket ${input.ticketId} not found` };
+    }
+
+    const ticket = await this.deps.ticketService.addComment(input.ticketId, {
+      author: context.userId || 'customer',
+      body: input.comment,
+    });
+
+    return {
+      success: true,
+      ticketId: ticket.id,
+      status: ticket.status,
+      comments: ticket.comments.filter((comment) => !comment.internal).length,
+    };
+  }
+
+  private summarizeOrder(order: Order) {
+    return {
+      orderId: order.id,
+      placedAt: order.createdAt.toISOString().slice(0, 10),
+      status: order.status,
+      items: order.items.map((item) => `${item.quantity}× ${item.name}`).join(', '),
+      total: order.total,
     };
   }
 
+  /**
+   * The answer a gated tool would give without acting: a failed verification,
+   * eligibility or order-state check, or a refund that was already issued.
+   * Null when the call would go ahead, so only those reach an approver.
+   */
+  async precheck(toolName: string, input: Record<string, any>): Promise<Record<string, unknown> | null> {
+    const context = currentToolContext();
+    if (!GATED_TOOLS.includes(toolName)) return null;
+    if (typeof input.orderId !== 'string') {
+      return { success: false, message: 'orderId is required' };
+    }
+
+    if (toolName === 'updateShippingAddress') {
+      const blocked = await this.addressChangeBlocked(input as { orderId: string }, context);
+      if (blocked) return blocked;
+      const validation = this.deps.addressService.validate(input as any);
+      return validation.valid === false ? { success: false, orderId: input.orderId, errors: validation.errors } : null;
+    }
+
+    if (!(await this.deps.verificationService.isAuthorizedForOrder(input.orderId, context))) {
+      return this.verificationRequired(input.orderId);
+    }
+    if (toolName === 'processRefund') {
+      const eligibility = await this.deps.refundEligibilityService.check(
+        { orderId: input.orderId, amount: Number(input.amount), reason: String(input.reason ?? '') },
+        { scope: context.sessionId }
+      );
+      return this.refundBlocked(input.orderId, eligibility);
+    }
+    const rejections = await this.deps.returnService.check(this.returnInitiation(input as any));
+    return rejections.length ? this.returnRejected(input.orderId, rejections) : null;
+  }
+
+  private refundBlocked(orderId: string, eligibility: RefundEligibility) {
+    if (eligibility.duplicateOf) {
+      return {
+        success: true,
+        duplicate: true,
+        refundId: eligibility.duplicateOf.id,
+        amount: eligibility.duplicateOf.amount,
+        status: eligibility.duplicateOf.status,
+        message: `This refund was already requested as ${eligibility.duplicateOf.id}`,
+      };
+    }
+
+    if (!eligibility.eligible) {
+      return {
+        success: false,
+        orderId,
+        refundableAmount: eligibility.remainingAmount,
+        rejections: eligibility.rejections,
+        message: eligibility.rejections.map((rejection) => rejection.message).join('. '),
+      };
+    }
+    return null;
+  }
+
+  private async addressChangeBlocked(input: { orderId: string }, context: ToolContext) {
+    if (!(await this.deps.verificationService.isAuthorizedForOrder(input.orderId, context))) {
+      return this.verificationRequired(input.orderId);
+    }
+
+    const order = await this.deps.orderService.findById(input.orderId);
+    if (!order) {
+      return { success: false, message: `Order ${input.orderId} not found` };
+    }
+    if (!this.deps.orderService.canChangeAddress(order)) {
+      return {
+        success: false,
+        orderId: order.id,
+        status: order.status,
+        message: `Order ${order.id} is already ${order.status}, so its address can no longer be changed`,
+      };
+    }
+    return null;
+  }
+
+  private returnInitiation(input: {
+    orderId: string;
+    reason: string;
+    items?: Array<{ sku: string; quantity?: number }>;
+    notes?: string;
+  }): ReturnInitiation {
+    const reason = (RETURN_REASONS.includes(input.reason as ReturnReason) ? input.reason : 'other') as ReturnReason;
+    return { orderId: input.orderId, items: input.items, reason, notes: input.notes };
+  }
+
+  private returnRejected(orderId: string, rejections: ReturnRejection[]) {
+    return {
+      success: false,
+      orderId,
+      rejections,
+      message: rejections.map((rejection) => rejection.message).join('. '),
+    };
+  }
+
+  private verificationRequired(orderId: string) {
+    return {
+      success: false,
+      verificationRequired: true,
+      orderId,
+      message: `The caller must be verified as the owner of order ${orderId} first`,
+    };
+  }
+
+  /** Owned tickets are open to their user, or to a session verified as that customer; anonymous callers are refused */
+  private canAccessTicket(ownerId: string | undefined, context: ToolContext): boolean {
+    return !ownerId || this.deps.verificationService.isAuthorizedForCustomer(ownerId, context);
+  }
+
   @Tool({
-    description: 'Search the knowledge base for FAQs, policies, and documentation',
+    description:
+      'Search the knowledge base for FAQs, policies, and documentation. Use the filters when the question is about a ' +
+      'specific product line, region/locale, customer audience or date, e.g. the refund policy for EU customers.',
     parameters: [
       {
         name: 'query',
@@ -245,26 +1045,88 @@ export class CSRAgent {
         description: 'Number of documents to retrieve (default: 5)',
         required: false,
       },
+      {
+        name: 'productLine',
+        type: 'string',
+        description: 'Only documents for this product line, e.g. "apparel" or "electronics"',
+        required: false,
+      },
+      {
+        name: 'locale',
+        type: 'string',
+        description: 'Only documents for this locale or region, e.g. "en-GB", "de" or "EU"',
+        required: false,
+      },
+      {
+        name: 'audience',
+        type: 'string',
+        description: 'Only documents for this audience, e.g. "customer" or "business"',
+        required: false,
+      },
+      {
+        name: 'effectiveDate',
+        type: 'string',
+        description: 'Use the policy versions in force on this ISO date (YYYY-MM-DD) instead of today',
+        required: false,
+      },
+      {
+        name: 'orderId',
+        type: 'string',
+        description: 'Order the question is about; the policy versions in force on its purchase date are used',
+        required: false,
+      },
     ],
   })
-  async searchKnowledgeBase(input: { query: string; topK?: number }) {
+  async searchKnowledgeBase(
+    input: {
+      query: string;
+      topK?: number;
+      productLine?: string;
+      locale?: string;
+      audience?: string;
+      effectiveDate?: string;
+      orderId?: string;
+    }
+  ) {
+    const context = currentToolContext();
     const topK = input.topK || 5;
 
     try {
-      const results = await this.ragService.search(input.query, {
-        topK,
-        includeMetadata: true,
-        minScore: 0.5,
-      });
+      let effectiveDate = input.effectiveDate;
+      if (!effectiveDate && input.orderId) {
+        // The purchase date is order detail, so it only steers retrieval for a verified caller
+        const order = await this.deps.orderService.findById(input.orderId);
+        if (order && (await this.deps.verificationService.isAuthorizedForOrder(order.id, context))) {
+          effectiveDate = order.createdAt.toISOString();
+        }
+      }
+      const filters = {
+        productLine: input.productLine,
+        locale: input.locale,
+        audience: input.audience,
+        effectiveDate,
+      };
+      const results = await this.deps.knowledgeBaseService.search(input.query, { topK, filters });
+      const sources = this.deps.citationService.record(
+        context.sessionId,
+        results.map((result) => ({
+          id: result.id,
+          content: result.content,
+          score: result.score,
+          metadata: result.metadata,
+        }))
+      );
 
       return {
         success: true,
         query: input.query,
-        documents: results.map((result) => ({
-          id: result.id,
-          content: result.content,
-          score: result.score,
-          metadata: result.metadata || {},
+        filters: Object.fromEntries(Object.entries(filters).filter(([, value]) => value)),
+        documents: sources.map((source) => ({
+          id: source.id,
+          citation: source.citation,
+          content: source.content,
+          score: source.score,
+          metadata: source.metadata || {},
         })),
         totalResults: results.length,
       };
@@ -6,24 +6,61 @@ import {
   Controller,
   Post,
   Get,
+  Put,
+  Patch,
+  Delete,
   Body,
+  Param,
+  Query,
   UsePipes,
   ValidationPipe,
+  Req,
   Res,
+  FileUploadInterceptor,
+  BadRequestError,
+  HttpError,
+  NotFoundError,
 } from '@hazeljs/core';
 import { Swagger, ApiOperation } from '@hazeljs/swagger';
+import { MemoryCategory } from '@hazeljs/memory';
 import { CSRService } from './csr.service';
 import {
   ChatResponseDto,
 } from './csr.types';
+import type { ApprovalRecord, ApprovalStatus } from '../services/approval.service';
+import type { RefundResult, RefundStatus } from '../services/refund.service';
+import type { OrderSearchPage } from '../services/order.service';
+import type { ReturnRequest, ReturnStatus } from '../services/return.service';
+import type { DeadLetter } from '../workers/ticket.worker';
+import type { ConversationSession, TranscriptEntry } from '../services/conversation.service';
+import type { CustomerMemoryItem } from '../services/customer-memory.service';
+import type { ErasureReport } from '../services/customer-erasure.service';
+import type { IngestAction, KnowledgeDocument, KnowledgeDocumentSummary } from '../services/knowledge-base.service';
+import type { CitationAuditEntry } from '../services/citation-audit.service';
+import type { ImportReport } from '../services/knowledge-import.service';
+import {
+  TICKET_PRIORITIES,
+  TICKET_STATUSES,
+  type Ticket,
+  type TicketPriority,
+  type TicketStatus,
+} from '../services/ticket.service';
 import {
   IsString,
   IsOptional,
   IsBoolean,
   IsObject,
   IsIn,
+  IsEnum,
+  IsNumber,
+  IsDateString,
+  Min,
+  Max,
 } from 'class-validator';
 
+const KB_IMPORT_MAX_FILE_BYTES = parseInt(process.env.KB_IMPORT_MAX_FILE_MB || '10', 10) * 1024 * 1024;
+const KB_IMPORT_MAX_FILES = parseInt(process.env.KB_IMPORT_MAX_FILES || '100', 10);
+
 class ChatRequest {
   @IsString()
   message!: string;
@@ -35,9 +72,37 @@ class ChatRequest {
   @IsOptional()
   @IsString()
   userId?: string;
+
+  @IsOptional()
+  @IsString()
+  model?: string;
 }
 
 class IngestRequest {
+  @IsOptional()
+  @IsString()
+  key?: string;
+
+  @IsString()
+  title!: string;
+
+  @IsString()
+  content!: string;
+
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, unknown>;
+
+  @IsOptional()
+  @IsDateString()
+  effectiveFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  effectiveTo?: string;
+}
+
+class DocumentReplaceRequest {
   @IsString()
   title!: string;
 
@@ -47,6 +112,14 @@ class IngestRequest {
   @IsOptional()
   @IsObject()
   metadata?: Record<string, unknown>;
+
+  @IsOptional()
+  @IsDateString()
+  effectiveFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  effectiveTo?: string;
 }
 
 class ApprovalRequest {
@@ -60,6 +133,56 @@ class ApprovalRequest {
   approvedBy!: string;
 }
 
+class RefundTransitionRequest {
+  @IsString()
+  @IsIn(['approved', 'issued', 'failed', 'reversed'])
+  status!: RefundStatus;
+
+  @IsOptional()
+  @IsString()
+  by?: string;
+
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+class ReturnReceiptRequest {
+  @IsBoolean()
+  accepted!: boolean;
+}
+
+class TicketUpdateRequest {
+  @IsOptional()
+  @IsString()
+  @IsIn(TICKET_STATUSES)
+  status?: TicketStatus;
+
+  @IsOptional()
+  @IsString()
+  @IsIn(TICKET_PRIORITIES)
+  priority?: TicketPriority;
+
+  @IsOptional()
+  @IsString()
+  assignee?: string;
+
+  @IsString()
+  updatedBy!: string;
+}
+
+class TicketCommentRequest {
+  @IsString()
+  author!: string;
+
+  @IsString()
+  body!: string;
+
+  @IsOptional()
+  @IsBoolean()
+  internal?: boolean;
+}
+
 class HcelChatRequest {
   @IsString()
   message!: string;
@@ -76,6 +199,10 @@ class HcelChatRequest {
   @IsString()
   @IsIn(['memory', 'pipeline'])
   variant?: 'memory' | 'pipeline';
+
+  @IsOptional()
+  @IsString()
+  model?: string;
 }
 
 class MemorySeedRequest {
@@ -94,6 +221,22 @@ class MemorySeedRequest {
   sessionId?: string;
 }
 
+class MemoryItemUpdateRequest {
+  @IsOptional()
+  @IsString()
+  value?: string;
+
+  @IsOptional()
+  @IsEnum(MemoryCategory)
+  category?: MemoryCategory;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  confidence?: number;
+}
+
 @Swagger({
   title: 'CSR Agent API',
   description: 'AI-powered Customer Service Representative with RAG and Memory',
@@ -108,10 +251,16 @@ export class CSRController {
     res.write(`data: ${JSON.stringify(payload)}\n\n`);
   }
 
+  /** An unknown or non-string `model` is the caller's mistake: 400 with the configured ones instead of a failed turn */
+  private assertKnownModel(model?: unknown): void {
+    const problem = this.csrService.checkModel(model);
+    if (problem) throw new BadRequestError(problem);
+  }
+
   @Post('/chat')
   @ApiOperation({
     summary: 'Send a message to the CSR agent',
-    description: 'Returns AI response with optional RAG sources',
+    description: 'Returns AI response with optional RAG sources and the provider/model that answered (`llm`)',
     tags: ['csr'],
     requestBody: {
       required: true,
@@ -124,6 +273,11 @@ export class CSRController {
               message: { type: 'string', example: 'What is the status of my order ORD-12345?' },
               sessionId: { type: 'string', example: 'user-session-123' },
               userId: { type: 'string', example: 'user-456' },
+              model: {
+                type: 'string',
+                example: 'anthropic',
+                description: 'Configured provider or provider:model to use first; default routes by LLM_PROVIDERS',
+              },
             },
           },
         },
@@ -131,12 +285,13 @@ export class CSRController {
     },
     responses: {
       '200': { description: 'Agent response' },
-      '400': { description: 'Invalid request' },
+      '400': { description: 'Invalid request or unknown model' },
     },
   })
   @UsePipes(ValidationPipe)
   async chat(@Body() dto: ChatRequest): Promise<ChatResponseDto> {
-    return this.csrService.chat(dto.message, dto.sessionId, dto.userId);
+    this.assertKnownModel(dto.model);
+    return this.csrService.chat(dto.message, dto.sessionId, dto.userId, dto.model);
   }
 
   @Post('/chat/hcel')
@@ -157,6 +312,7 @@ export class CSRController {
               sessionId: { type: 'string' },
               userId: { type: 'string' },
               variant: { type: 'string', example: 'memory' },
+              model: { type: 'string', example: 'openai:gpt-4o' },
             },
           },
         },
@@ -164,15 +320,18 @@ export class CSRController {
     },
     responses: {
       '200': { description: 'Agent response; mode field indicates HCEL path used' },
+      '400': { description: 'Invalid request or unknown model' },
     },
   })
   @UsePipes(ValidationPipe)
   async chatHcel(@Body() dto: HcelChatRequest): Promise<ChatResponseDto> {
+    this.assertKnownModel(dto.model);
     return this.csrService.chatHcel(
       dto.message,
       dto.variant ?? 'memory',
       dto.sessionId,
-      dto.userId
+      dto.userId,
+      dto.model
     );
   }
 
@@ -193,6 +352,80 @@ export class CSRController {
     });
   }
 
+  @Get('/memory/:userId')
+  @ApiOperation({
+    summary: "List a customer's memory",
+    description: 'Preferences and episodic facts held for the user, with confidence, source and evidence message IDs',
+    tags: ['csr'],
+  })
+  async listMemory(@Param('userId') userId: string): Promise<{ userId: string; items: CustomerMemoryItem[] }> {
+    return { userId, items: await this.csrService.listMemory(userId) };
+  }
+
+  @Patch('/memory/:userId/items/:itemId')
+  @ApiOperation({
+    summary: 'Correct a memory item',
+    description: 'Change the value, category or confidence; a new value is treated as stated by the customer',
+    tags: ['csr'],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              value: { type: 'string', example: 'prefers email contact' },
+              category: { type: 'string', example: 'preference' },
+              confidence: { type: 'number', example: 1 },
+            },
+          },
+        },
+      },
+    },
+  })
+  @UsePipes(ValidationPipe)
+  async updateMemoryItem(
+    @Param('userId') userId: string,
+    @Param('itemId') itemId: string,
+    @Body() dto: MemoryItemUpdateRequest
+  ): Promise<{ success: true; item: CustomerMemoryItem } | { found: false; message: string }> {
+    const item = await this.csrService.updateMemoryItem(userId, itemId, {
+      value: dto.value,
+      category: dto.category,
+      confidence: dto.confidence,
+    });
+    if (!item) {
+      return { found: false, message: `Memory item ${itemId} not found for ${userId}` };
+    }
+    return { success: true, item };
+  }
+
+  @Delete('/memory/:userId/items/:itemId')
+  @ApiOperation({
+    summary: 'Delete a memory item',
+    tags: ['csr'],
+  })
+  async deleteMemoryItem(
+    @Param('userId') userId: string,
+    @Param('itemId') itemId: string
+  ): Promise<{ success: true } | { found: false; message: string }> {
+    if (!(await this.csrService.deleteMemoryItem(userId, itemId))) {
+      return { found: false, message: `Memory item ${itemId} not found for ${userId}` };
+    }
+    return { success: true };
+  }
+
+  @Post('/memory/:userId/forget')
+  @ApiOperation({
+    summary: 'Forget a customer (right to erasure)',
+    description:
+      'Deletes memory items, session transcripts, back-in-stock subscriptions and knowledge base documents tagged with the user, withdraws their session verification, drops previous addresses from their orders, redacts their tickets and approval records and returns an erasure report listing every store touched. Safe to repeat.',
+    tags: ['csr'],
+  })
+  async forgetCustomer(@Param('userId') userId: string): Promise<ErasureReport> {
+    return this.csrService.forgetCustomer(userId);
+  }
+
   @Post('/chat/stream')
   @ApiOperation({
     summary: 'Stream chat response (SSE)',
@@ -200,6 +433,7 @@ export class CSRController {
     tags: ['csr'],
     responses: {
       '200': { description: 'SSE stream' },
+      '400': { description: 'Invalid request or unknown model' },
     },
   })
   @UsePipes(ValidationPipe)
@@ -207,12 +441,13 @@ export class CSRController {
     @Body() dto: ChatRequest,
     @Res() res: any
   ): Promise<void> {
+    this.assertKnownModel(dto.model);
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
 
     try {
-      const stream = this.csrService.chatStream(dto.message, dto.sessionId, dto.userId);
+      const stream = this.csrService.chatStream(dto.message, dto.sessionId, dto.userId, dto.model);
       for await (const event of stream) {
         const payload = event.type === 'chunk'
           ? { type: 'chunk', text: event.text }
@@ -229,7 +464,8 @@ export class CSRController {
   @Post('/ingest')
   @ApiOperation({
     summary: 'Ingest document into knowledge base',
-    description: 'Add FAQ or policy document for RAG retrieval',
+    description:
+      'Add FAQ or policy document for RAG retrieval. The document is registered under `key` (default: derived from the title). A new `effectiveFrom` adds a version in force from that date; the same one replaces that version, or is skipped when the content is unchanged.',
     tags: ['csr'],
     requestBody: {
       required: true,
@@ -239,9 +475,12 @@ export class CSRController {
             type: 'object',
             required: ['title', 'content'],
             properties: {
+              key: { type: 'string', example: 'refund-policy' },
               title: { type: 'string' },
               content: { type: 'string' },
               metadata: { type: 'object' },
+              effectiveFrom: { type: 'string', format: 'date-time', example: '2025-11-15T00:00:00Z' },
+              effectiveTo: { type: 'string', format: 'date-time', example: '2026-01-15T00:00:00Z' },
             },
           },
         },
@@ -252,13 +491,160 @@ export class CSRController {
     },
   })
   @UsePipes(ValidationPipe)
-  async ingest(@Body() dto: IngestRequest): Promise<{ ids: string[] }> {
-    const ids = await this.csrService.ingestDocument(
-      dto.title,
-      dto.content,
-      dto.metadata
-    );
-    return { ids };
+  async ingest(
+    @Body() dto: IngestRequest
+  ): Promise<{ ids: string[]; documentId: string; version: number; action: IngestAction }> {
+    const { document, version, action } = await this.csrService.ingestDocument({
+      key: dto.key,
+      title: dto.title,
+      content: dto.content,
+      metadata: dto.metadata,
+      effectiveFrom: dto.effectiveFrom,
+      effectiveTo: dto.effectiveTo,
+    });
+    return { ids: version.chunkIds, documentId: document.id, version: version.version, action };
+  }
+
+  @Post('/kb/import')
+  @ApiOperation({
+    summary: 'Bulk import knowledge base files',
+    description:
+      'multipart/form-data upload of Markdown (split by headings), HTML (boilerplate stripped), text PDFs and CSV Q&A files. Optional `metadata` field (JSON) is added to every section. Returns a per-file result; unchanged sections are not re-embedded.',
+    tags: ['csr'],
+    requestBody: {
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: {
+            type: 'object',
+            properties: {
+              files: { type: 'array', items: { type: 'string', format: 'binary' } },
+              metadata: { type: 'string', example: '{"audience":"customer"}' },
+            },
+          },
+        },
+      },
+    },
+  })
+  async importDocuments(@Req() req: any): Promise<ImportReport | { success: false; message: string }> {
+    let metadata: Record<string, unknown> | undefined;
+    let sources: Array<{ name: string; buffer: Buffer; mimetype: string }>;
+    try {
+      const upload = await new FileUploadInterceptor({
+        storage: 'memory',
+        limits: { fileSize: KB_IMPORT_MAX_FILE_BYTES, files: KB_IMPORT_MAX_FILES },
+      }).parseMultipart(req);
+      if (upload.files.length > KB_IMPORT_MAX_FILES) {
+        return { success: false, message: `At most ${KB_IMPORT_MAX_FILES} files per import` };
+      }
+      metadata = upload.fields.metadata ? JSON.parse(upload.fields.metadata) : undefined;
+      sources = upload.files.map((file) => ({
+        name: file.originalname,
+        buffer: file.buffer ?? Buffer.alloc(0),
+        mimetype: file.mimetype,
+      }));
+    } catch (error) {
+      return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+    if (sources.length === 0) {
+      return { success: false, message: 'No files uploaded' };
+    }
+    return this.csrService.importDocuments(sources, metadata);
+  }
+
+  @Get('/kb/documents')
+  @ApiOperation({
+    summary: 'List knowledge base documents',
+    description: 'Registered documents with the chunk IDs, content hash and effective period of each version',
+    tags: ['csr'],
+  })
+  async listDocuments(): Promise<{ documents: KnowledgeDocumentSummary[] }> {
+    return { documents: await this.csrService.listDocuments() };
+  }
+
+  @Get('/kb/documents/:key')
+  @ApiOperation({
+    summary: 'Get a knowledge base document',
+    tags: ['csr'],
+  })
+  async getDocument(@Param('key') key: string): Promise<KnowledgeDocument | { found: false; message: string }> {
+    const document = await this.csrService.getDocument(key);
+    if (!document) {
+      return { found: false, message: `Document ${key} not found` };
+    }
+    return document;
+  }
+
+  @Put('/kb/documents/:key')
+  @ApiOperation({
+    summary: 'Replace a knowledge base document',
+    description:
+      'Ingests the new content as a version of the document: it replaces the version with the same effectiveFrom (deleting its chunks) or adds one for a new period; nothing is re-embedded when the content hash is unchanged',
+    tags: ['csr'],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['title', 'content'],
+            properties: {
+              title: { type: 'string', example: 'Refund Policy' },
+              content: { type: 'string' },
+              metadata: { type: 'object' },
+              effectiveFrom: { type: 'string', format: 'date-time' },
+              effectiveTo: { type: 'string', format: 'date-time' },
+            },
+          },
+        },
+      },
+    },
+  })
+  @UsePipes(ValidationPipe)
+  async replaceDocument(
+    @Param('key') key: string,
+    @Body() dto: DocumentReplaceRequest
+  ): Promise<{ success: true; action: IngestAction; version: number; document: KnowledgeDocument }> {
+    const { document, version, action } = await this.csrService.ingestDocument({
+      key,
+      title: dto.title,
+      content: dto.content,
+      metadata: dto.metadata,
+      effectiveFrom: dto.effectiveFrom,
+      effectiveTo: dto.effectiveTo,
+    });
+    return { success: true, action, version: version.version, document };
+  }
+
+  @Delete('/kb/documents/:key')
+  @ApiOperation({
+    summary: 'Delete a knowledge base document',
+    description: 'Removes the chunks of every version from the vector store and the registry entry',
+    tags: ['csr'],
+  })
+  async deleteDocument(
+    @Param('key') key: string
+  ): Promise<{ success: true; deletedChunks: number } | { found: false; message: string }> {
+    const document = await this.csrService.deleteDocument(key);
+    if (!document) {
+      return { found: false, message: `Document ${key} not found` };
+    }
+    return {
+      success: true,
+      deletedChunks: document.versions.reduce((count, version) => count + version.chunkIds.length, 0),
+    };
+  }
+
+  @Get('/kb/documents/:key/citations')
+  @ApiOperation({
+    summary: 'Citation audit for a knowledge base document',
+    description: 'Every reply that returned the document, with the version and effective period used and whether it was cited inline',
+    tags: ['csr'],
+  })
+  async getDocumentCitations(
+    @Param('key') key: string
+  ): Promise<{ documentKey: string; citations: CitationAuditEntry[] }> {
+    return { documentKey: key, citations: await this.csrService.listDocumentCitations(key) };
   }
 
   @Post('/approve')
@@ -266,6 +652,11 @@ export class CSRController {
     summary: 'Approve or reject tool execution',
     description: 'For tools requiring human approval (e.g. processRefund)',
     tags: ['csr'],
+    responses: {
+      '200': { description: 'Vote recorded; `approval.status` shows whether it decided the request' },
+      '404': { description: 'Unknown approval request' },
+      '410': { description: 'The agent is no longer waiting on the request (timed out or server restarted)' },
+    },
     requestBody: {
       required: true,
       content: {
@@ -284,9 +675,425 @@ export class CSRController {
     },
   })
   @UsePipes(ValidationPipe)
-  async approve(@Body() dto: ApprovalRequest): Promise<{ success: boolean }> {
-    this.csrService.approveTool(dto.requestId, dto.approved, dto.approvedBy);
-    return { success: true };
+  async approve(@Body() dto: ApprovalRequest): Promise<{ success: boolean; approval: ApprovalRecord | null }> {
+    const approval = await this.csrService.approveTool(dto.requestId, dto.approved, dto.approvedBy);
+    if (!approval) throw new NotFoundError(`Approval request ${dto.requestId} not found`);
+    if (approval.status === 'expired') {
+      throw new HttpError(410, `Approval request ${dto.requestId} has expired; the agent is no longer waiting on it`);
+    }
+    return { success: true, approval };
+  }
+
+  @Get('/approvals')
+  @ApiOperation({
+    summary: 'List pending tool approvals',
+    description: 'Approval inbox for supervisors: tool calls (e.g. processRefund) waiting for a decision',
+    tags: ['csr'],
+  })
+  async listApprovals(
+    @Query('toolName') toolName?: string,
+    @Query('sessionId') sessionId?: string,
+    @Query('userId') userId?: string
+  ): Promise<{ approvals: ApprovalRecord[] }> {
+    const approvals = await this.csrService.listApprovals({
+      status: 'pending',
+      toolName,
+      sessionId,
+      userId,
+    });
+    return { approvals };
+  }
+
+  @Get('/approvals/history')
+  @ApiOperation({
+    summary: 'Approval history',
+    description:
+      'All recorded approval requests with the policy rule behind each outcome, optionally filtered by status (pending, approved, rejected, escalated, expired)',
+    tags: ['csr'],
+  })
+  async approvalHistory(
+    @Query('status') status?: ApprovalStatus,
+    @Query('toolName') toolName?: string,
+    @Query('sessionId') sessionId?: string,
+    @Query('userId') userId?: string
+  ): Promise<{ approvals: ApprovalRecord[] }> {
+    const approvals = await this.csrService.listApprovals({ status, toolName, sessionId, userId });
+    return { approvals };
+  }
+
+  @Get('/approvals/:id')
+  @ApiOperation({
+    summary: 'Inspect an approval request',
+    description: 'Tool name, input arguments, session/user and decision for one approval request',
+    tags: ['csr'],
+  })
+  async getApproval(@Param('id') id: string): Promise<ApprovalRecord | { found: false; message: string }> {
+    const approval = await this.csrService.getApproval(id);
+    if (!approval) {
+      return { found: false, message: `Approval request ${id} not found` };
+    }
+    return approval;
+  }
+
+  @Get('/refunds')
+  @ApiOperation({
+    summary: 'List refunds',
+    description: 'Refund ledger, optionally filtered by orderId and status',
+    tags: ['csr'],
+  })
+  async listRefunds(
+    @Query('orderId') orderId?: string,
+    @Query('status') status?: RefundStatus
+  ): Promise<{ refunds: RefundResult[] }> {
+    const refunds = await this.csrService.listRefunds({ orderId, status });
+    return { refunds };
+  }
+
+  @Get('/refunds/:id')
+  @ApiOperation({
+    summary: 'Get a refund',
+    description: 'Refund with its full status history',
+    tags: ['csr'],
+  })
+  async getRefund(@Param('id') id: string): Promise<RefundResult | { found: false; message: string }> {
+    const refund = await this.csrService.getRefund(id);
+    if (!refund) {
+      return { found: false, message: `Refund ${id} not found` };
+    }
+    return refund;
+  }
+
+  @Post('/refunds/:id/transition')
+  @ApiOperation({
+    summary: 'Advance a refund',
+    description: 'Move a refund pending → approved → issued, or to failed/reversed',
+    tags: ['csr'],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['status'],
+            properties: {
+              status: { type: 'string', example: 'approved' },
+              by: { type: 'string', example: 'finance-1' },
+              note: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+  })
+  @UsePipes(ValidationPipe)
+  async transitionRefund(
+    @Param('id') id: string,
+    @Body() dto: RefundTransitionRequest
+  ): Promise<{ success: boolean; refund?: RefundResult; message?: string }> {
+    try {
+      const refund = await this.csrService.transitionRefund(id, dto.status, { by: dto.by, note: dto.note });
+      if (!refund) {
+        return { success: false, message: `Refund ${id} not found` };
+      }
+      return { success: true, refund };
+    } catch (error) {
+      return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  @Get('/orders')
+  @ApiOperation({
+    summary: 'Search orders',
+    description:
+      'Find orders by customerId, email or phone, date range (from/to, ISO dates) and status; paginated with page/pageSize',
+    tags: ['csr'],
+  })
+  async searchOrders(
+    @Query('customerId') customerId?: string,
+    @Query('email') email?: string,
+    @Query('phone') phone?: string,
+    @Query('status') status?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('page') page?: string,
+    @Query('pageSize') pageSize?: string
+  ): Promise<OrderSearchPage> {
+    return this.csrService.searchOrders(
+      {
+        customerId,
+        email,
+        phone,
+        status,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+      },
+      page ? parseInt(page, 10) : undefined,
+      pageSize ? parseInt(pageSize, 10) : undefined
+    );
+  }
+
+  @Get('/returns')
+  @ApiOperation({
+    summary: 'List returns (RMAs)',
+    description: 'Returns, optionally filtered by orderId and status',
+    tags: ['csr'],
+  })
+  async listReturns(
+    @Query('orderId') orderId?: string,
+    @Query('status') status?: ReturnStatus
+  ): Promise<{ returns: ReturnRequest[] }> {
+    const returns = await this.csrService.listReturns({ orderId, status });
+    return { returns };
+  }
+
+  @Get('/returns/:rma')
+  @ApiOperation({
+    summary: 'Get a return (RMA)',
+    description: 'Returned items, label and refund status of one RMA',
+    tags: ['csr'],
+  })
+  async getReturn(@Param('rma') rma: string): Promise<ReturnRequest | { found: false; message: string }> {
+    const returnRequest = await this.csrService.getReturn(rma);
+    if (!returnRequest) {
+      return { found: false, message: `Return ${rma} not found` };
+    }
+    return returnRequest;
+  }
+
+  @Post('/returns/:rma/receive')
+  @ApiOperation({
+    summary: 'Record a returned parcel at the warehouse',
+    description: 'accepted=true refunds the returned items automatically (autoRefund); accepted=false rejects the return',
+    tags: ['csr'],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['accepted'],
+            properties: {
+              accepted: { type: 'boolean', example: true },
+            },
+          },
+        },
+      },
+    },
+  })
+  @UsePipes(ValidationPipe)
+  async receiveReturn(
+    @Param('rma') rma: string,
+    @Body() dto: ReturnReceiptRequest
+  ): Promise<{ success: boolean; returnRequest?: ReturnRequest; message?: string }> {
+    try {
+      const returnRequest = await this.csrService.receiveReturn(rma, dto.accepted);
+      if (!returnRequest) {
+        return { success: false, message: `Return ${rma} not found` };
+      }
+      return { success: true, returnRequest };
+    } catch (error) {
+      return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  @Post('/returns/:rma/refund')
+  @ApiOperation({
+    summary: 'Retry the refund of a received return',
+    description:
+      'Runs the refund eligibility checks again for a received return whose refund was rejected (see refundRejections) or that had autoRefund off',
+    tags: ['csr'],
+  })
+  async retryReturnRefund(
+    @Param('rma') rma: string
+  ): Promise<{ success: boolean; returnRequest?: ReturnRequest; message?: string }> {
+    try {
+      const returnRequest = await this.csrService.retryReturnRefund(rma);
+      if (!returnRequest) {
+        return { success: false, message: `Return ${rma} not found` };
+      }
+      return { success: returnRequest.status === 'refunded', returnRequest };
+    } catch (error) {
+      return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  @Get('/tickets')
+  @ApiOperation({
+    summary: 'List support tickets',
+    description: 'Tickets ordered by SLA due date; filter by status, priority, assignee, userId or sessionId',
+    tags: ['csr'],
+  })
+  async listTickets(
+    @Query('status') status?: TicketStatus,
+    @Query('priority') priority?: TicketPriority,
+    @Query('assignee') assignee?: string,
+    @Query('userId') userId?: string,
+    @Query('sessionId') sessionId?: string
+  ): Promise<{ tickets: Ticket[] }> {
+    const tickets = await this.csrService.listTickets({ status, priority, assignee, userId, sessionId });
+    return { tickets };
+  }
+
+  @Get('/tickets/dead-letters')
+  @ApiOperation({
+    summary: 'Ticket jobs that exhausted their retries',
+    description: "Dead-letter list of the ticket worker consuming the 'tickets' queue",
+    tags: ['csr'],
+  })
+  async ticketDeadLetters(): Promise<{ deadLetters: DeadLetter[] }> {
+    return { deadLetters: await this.csrService.getTicketDeadLetters() };
+  }
+
+  @Get('/tickets/:id')
+  @ApiOperation({
+    summary: 'Get a support ticket',
+    description: 'Ticket with comments, assignee, SLA due date and status history',
+    tags: ['csr'],
+  })
+  async getTicket(@Param('id') id: string): Promise<Ticket | { found: false; message: string }> {
+    const ticket = await this.csrService.getTicket(id);
+    if (!ticket) {
+      return { found: false, message: `Ticket ${id} not found` };
+    }
+    return ticket;
+  }
+
+  @Patch('/tickets/:id')
+  @ApiOperation({
+    summary: 'Update a support ticket',
+    description: 'Change status (e.g. closed), priority or assignee',
+    tags: ['csr'],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['updatedBy'],
+            properties: {
+              status: { type: 'string', example: 'in_progress' },
+              priority: { type: 'string', example: 'high' },
+              assignee: { type: 'string', example: 'agent-7' },
+              updatedBy: { type: 'string', example: 'supervisor-1' },
+            },
+          },
+        },
+      },
+    },
+  })
+  @UsePipes(ValidationPipe)
+  async updateTicket(
+    @Param('id') id: string,
+    @Body() dto: TicketUpdateRequest
+  ): Promise<{ success: boolean; ticket?: Ticket; message?: string }> {
+    const ticket = await this.csrService.updateTicket(
+      id,
+      { status: dto.status, priority: dto.priority, assignee: dto.assignee },
+      dto.updatedBy
+    );
+    if (!ticket) {
+      return { success: false, message: `Ticket ${id} not found` };
+    }
+    return { success: true, ticket };
+  }
+
+  @Post('/tickets/:id/comments')
+  @ApiOperation({
+    summary: 'Comment on a support ticket',
+    description: 'Add a public update or an internal note (internal=true)',
+    tags: ['csr'],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['author', 'body'],
+            properties: {
+              author: { type: 'string', example: 'agent-7' },
+              body: { type: 'string' },
+              internal: { type: 'boolean', example: false },
+            },
+          },
+        },
+      },
+    },
+  })
+  @UsePipes(ValidationPipe)
+  async addTicketComment(
+    @Param('id') id: string,
+    @Body() dto: TicketCommentRequest
+  ): Promise<{ success: boolean; ticket?: Ticket; message?: string }> {
+    const ticket = await this.csrService.addTicketComment(id, {
+      author: dto.author,
+      body: dto.body,
+      internal: dto.internal,
+    });
+    if (!ticket) {
+      return { success: false, message: `Ticket ${id} not found` };
+    }
+    return { success: true, ticket };
+  }
+
+  @Get('/sessions')
+  @ApiOperation({
+    summary: 'List conversation sessions',
+    description: 'Filter by userId and by date (from/to, ISO dates); most recently active first',
+    tags: ['csr'],
+  })
+  async listSessions(
+    @Query('userId') userId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string
+  ): Promise<{ sessions: ConversationSession[] }> {
+    const sessions = await this.csrService.listSessions({
+      userId,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+    });
+    return { sessions };
+  }
+
+  @Get('/sessions/:id/messages')
+  @ApiOperation({
+    summary: 'Get a session transcript',
+    description: 'Customer and agent messages with tool calls and approval requests/decisions interleaved in order',
+    tags: ['csr'],
+  })
+  async getSessionMessages(
+    @Param('id') id: string
+  ): Promise<{ session: ConversationSession; messages: TranscriptEntry[] } | { found: false; message: string }> {
+    const transcript = await this.csrService.getTranscript(id);
+    if (!transcript) {
+      return { found: false, message: `Session ${id} not found` };
+    }
+    return transcript;
+  }
+
+  @Get('/sessions/:id/citations')
+  @ApiOperation({
+    summary: 'Citation audit for a session',
+    description: 'Knowledge base sources returned with each reply of the session, with document version and effective period',
+    tags: ['csr'],
+  })
+  async getSessionCitations(@Param('id') id: string): Promise<{ sessionId: string; citations: CitationAuditEntry[] }> {
+    return { sessionId: id, citations: await this.csrService.listSessionCitations(id) };
+  }
+
+  @Delete('/sessions/:id')
+  @ApiOperation({
+    summary: 'Delete a session transcript',
+    description: 'Removes the session and its messages; approval records are kept for audit',
+    tags: ['csr'],
+  })
+  async deleteSession(
+    @Param('id') id: string
+  ): Promise<{ success: true; deletedMessages: number } | { found: false; message: string }> {
+    const result = await this.csrService.deleteSession(id);
+    if (!result.deleted) {
+      return { found: false, message: `Session ${id} not found` };
+    }
+    return { success: true, deletedMessages: result.messages };
   }
 
   @Get('/health')
@@ -296,12 +1103,13 @@ export class CSRController {
   })
   async health(): Promise<Record<string, unknown>> {
     const ai = this.csrService.getPlatform();
+    const memory = this.csrService.getMemoryStatus();
     try {
       // In 0.7.0 we probe metrics or specific facade status
       const metrics = ai.getMetrics();
-      return { status: 'ok', metrics };
+      return { status: memory.status === 'degraded' ? 'degraded' : 'ok', metrics, memory };
     } catch {
-      return { status: 'degraded' };
+      return { status: 'degraded', memory };
     }
   }
 }
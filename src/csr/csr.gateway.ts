@@ -15,6 +15,8 @@ interface ChatMessage {
   userId?: string;
   /** When `memory` or `pipeline`, uses CSRService.chatHcel instead of streaming runtime. */
   hcelVariant?: 'memory' | 'pipeline';
+  /** Configured provider or `provider:model` to use first */
+  model?: string;
 }
 
 @Realtime('/csr')
@@ -42,14 +44,19 @@ export class CSRGateway extends WebSocketGateway {
 
     if (message.event === 'message') {
       const data = (message.data || {}) as ChatMessage;
-      const { text, sessionId, userId, hcelVariant } = data;
+      const { text, sessionId, userId, hcelVariant, model } = data;
 
       if (!text || typeof text !== 'string') {
         this.sendError(clientId, 'Invalid message: text is required');
         return;
       }
+      const modelProblem = this.csrService.checkModel(model);
+      if (modelProblem) {
+        this.sendError(clientId, `Invalid message: ${modelProblem}`);
+        return;
+      }
 
-      this.handleChatMessage(clientId, text, sessionId, userId, hcelVariant);
+      this.handleChatMessage(clientId, text, sessionId, userId, hcelVariant, model);
     }
   }
 
@@ -58,7 +65,8 @@ export class CSRGateway extends WebSocketGateway {
     text: string,
     sessionId?: string,
     userId?: string,
-    hcelVariant?: 'memory' | 'pipeline'
+    hcelVariant?: 'memory' | 'pipeline',
+    model?: string
   ): Promise<void> {
     const client = this.getClient(clientId);
     if (!client) return;
@@ -71,7 +79,8 @@ export class CSRGateway extends WebSocketGateway {
           text,
           hcelVariant,
           sessionId,
-          userId
+          userId,
+          model
         );
         client.send('response', {
           response: data.response,
@@ -80,11 +89,13 @@ export class CSRGateway extends WebSocketGateway {
           duration: data.duration,
           mode: data.mode,
           sources: data.sources,
+          citations: data.citations,
+          llm: data.llm,
         });
         return;
       }
 
-      const stream = this.csrService.chatStream(text, sessionId, userId);
+      const stream = this.csrService.chatStream(text, sessionId, userId, model);
 
       for await (const event of stream) {
         if (event.type === 'chunk') {
@@ -96,6 +107,8 @@ export class CSRGateway extends WebSocketGateway {
             steps: event.data.steps,
             duration: event.data.duration,
             sources: event.data.sources,
+            citations: event.data.citations,
+            llm: event.data.llm,
           });
         }
       }
@@ -3,24 +3,66 @@
  */
 
 import { HazelModule } from '@hazeljs/core';
+import { PersistenceService } from '../persistence/persistence.service';
 import { OrderService } from '../services/order.service';
 import { InventoryService } from '../services/inventory.service';
 import { RefundService } from '../services/refund.service';
 import { TicketService } from '../services/ticket.service';
+import { RefundEligibilityService } from '../services/refund-eligibility.service';
+import { ApprovalService } from '../services/approval.service';
+import { ApprovalPolicyService } from '../services/approval-policy.service';
+import { CustomerService } from '../services/customer.service';
+import { VerificationService } from '../services/verification.service';
+import { AddressService } from '../services/address.service';
+import { ReturnService } from '../services/return.service';
+import { ShipmentTrackingService } from '../services/shipment-tracking.service';
+import { NotificationService } from '../services/notification.service';
+import { ConversationService } from '../services/conversation.service';
+import { CustomerMemoryService } from '../services/customer-memory.service';
+import { MemoryExtractionService } from '../services/memory-extraction.service';
+import { KnowledgeBaseService } from '../services/knowledge-base.service';
+import { CitationAuditService } from '../services/citation-audit.service';
+import { CustomerErasureService } from '../services/customer-erasure.service';
+import { KnowledgeImportService } from '../services/knowledge-import.service';
+import { CitationService } from '../services/citation.service';
+import { JobQueueService } from '../workers/job-queue.service';
+import { TicketWorker } from '../workers/ticket.worker';
+import { InventoryWorker } from '../workers/inventory.worker';
 import { CSRService } from './csr.service';
 import { CSRController } from './csr.controller';
 import { CSRGateway } from './csr.gateway';
 
 @HazelModule({
   providers: [
+    PersistenceService,
     OrderService,
     InventoryService,
     RefundService,
+    RefundEligibilityService,
     TicketService,
+    CustomerService,
+    VerificationService,
+    AddressService,
+    ReturnService,
+    ShipmentTrackingService,
+    ApprovalService,
+    ApprovalPolicyService,
+    NotificationService,
+    ConversationService,
+    CustomerMemoryService,
+    MemoryExtractionService,
+    KnowledgeBaseService,
+    CitationAuditService,
+    CustomerErasureService,
+    KnowledgeImportService,
+    CitationService,
+    JobQueueService,
+    TicketWorker,
+    InventoryWorker,
     CSRService,
     CSRGateway,
   ],
   controllers: [CSRController],
-  exports: [CSRService],
+  exports: [CSRService, PersistenceService, TicketWorker, InventoryWorker],
 })
 export class CSRModule {}
@@ -3,34 +3,96 @@
  */
 
 import { Injectable } from '@hazeljs/core';
+import logger from '@hazeljs/core';
 import { AgentEventType, AgentRuntime, AgentService } from '@hazeljs/agent';
 import { HazelAI, type GraphExecutionResult } from '@hazeljs/ai';
-import {
-  createMemoryStore,
-  MemoryCategory,
-  MemoryService,
-} from '@hazeljs/memory';
-import { OrderService } from '../services/order.service';
+import { MemoryCategory } from '@hazeljs/memory';
+import { OrderService, type OrderSearchPage } from '../services/order.service';
+import { CustomerService } from '../services/customer.service';
 import { InventoryService } from '../services/inventory.service';
-import { RefundService } from '../services/refund.service';
-import { TicketService } from '../services/ticket.service';
-import { CSRAgent } from './csr.agent';
-import { QueueService } from '@hazeljs/queue';
+import { RefundService, type RefundResult, type RefundStatus } from '../services/refund.service';
+import {
+  TicketService,
+  type Ticket,
+  type TicketFilter,
+  type TicketPriority,
+  type TicketStatus,
+} from '../services/ticket.service';
+import { RefundEligibilityService } from '../services/refund-eligibility.service';
+import { VerificationService } from '../services/verification.service';
+import { AddressService } from '../services/address.service';
+import { ShipmentTrackingService } from '../services/shipment-tracking.service';
+import { ReturnService, type ReturnRequest, type ReturnStatus } from '../services/return.service';
+import { ApprovalService, type ApprovalFilter, type ApprovalRecord } from '../services/approval.service';
+import { ApprovalPolicyService, type PolicyDecision } from '../services/approval-policy.service';
+import {
+  ConversationService,
+  type ConversationChannel,
+  type ConversationSession,
+  type SessionFilter,
+  type TranscriptEntry,
+} from '../services/conversation.service';
+import {
+  CustomerMemoryService,
+  type CustomerMemoryItem,
+  type MemoryBackendStatus,
+} from '../services/customer-memory.service';
+import { MemoryExtractionService } from '../services/memory-extraction.service';
+import {
+  KnowledgeBaseService,
+  type IngestAction,
+  type KnowledgeDocument,
+  type KnowledgeDocumentInput,
+  type KnowledgeDocumentSummary,
+  type KnowledgeDocumentVersion,
+} from '../services/knowledge-base.service';
+import { CustomerErasureService, type ErasureReport } from '../services/customer-erasure.service';
+import { KnowledgeImportService, type ImportReport } from '../services/knowledge-import.service';
+import type { KnowledgeSource } from '../knowledge/parsers';
+import { CitationService, type RetrievedPassage } from '../services/citation.service';
+import { CitationAuditService, type CitationAuditEntry } from '../services/citation-audit.service';
+import { CSRAgent, withToolHints } from './csr.agent';
+import { currentToolContext, runWithToolContext, streamWithToolContext } from './tool-context';
+import { JobQueueService } from '../workers/job-queue.service';
+import { createProviderRouter, type LlmTurn } from '../llm/provider-router';
+import { LocalVectorStore } from '../knowledge/local-vector.store';
+import { TICKETS_QUEUE, TicketWorker, type DeadLetter } from '../workers/ticket.worker';
+import { InventoryWorker } from '../workers/inventory.worker';
 import type { ChatResponseDto } from './csr.types';
 
 @Injectable()
 export class CSRService {
   private ai: HazelAI;
   private runtime: AgentRuntime;
-  private queueService?: QueueService;
-  private memoryService: MemoryService | null = null;
+  private agent: CSRAgent;
+  /** LLM_PROVIDERS chain with fallback and fast-tier routing; registered as HazelAI's default provider */
+  private llmRouter = createProviderRouter();
 
   constructor(
     private agentService: AgentService,
     private orderService: OrderService,
+    private customerService: CustomerService,
     private inventoryService: InventoryService,
     private refundService: RefundService,
-    private ticketService: TicketService
+    private refundEligibilityService: RefundEligibilityService,
+    private ticketService: TicketService,
+    private verificationService: VerificationService,
+    private addressService: AddressService,
+    private returnService: ReturnService,
+    private shipmentTrackingService: ShipmentTrackingService,
+    private approvalService: ApprovalService,
+    private approvalPolicyService: ApprovalPolicyService,
+    private jobQueue: JobQueueService,
+    private ticketWorker: TicketWorker,
+    private inventoryWorker: InventoryWorker,
+    private conversationService: ConversationService,
+    private customerMemoryService: CustomerMemoryService,
+    private memoryExtractionService: MemoryExtractionService,
+    private knowledgeBaseService: KnowledgeBaseService,
+    private customerErasureService: CustomerErasureService,
+    private knowledgeImportService: KnowledgeImportService,
+    private citationService: CitationService,
+    private citationAuditService: CitationAuditService
   ) {
     const vectorStore = this.resolveVectorStore();
     this.ai = HazelAI.create({
@@ -54,34 +116,230 @@ export class CSRService {
       },
     });
 
-    this.queueService = this.createQueueService();
-
+    this.ai.registerProvider(this.llmRouter);
+    logger.info(`LLM providers: ${this.llmRouter.describe()}`);
+    // The HazelAI RAG facade embeds with OpenAI; without an OpenAI provider documents are embedded locally
+    this.knowledgeBaseService.attach(
+      this.llmRouter.has('openai') ? (this.ai.rag as any) : new LocalVectorStore()
+    );
     this.runtime = this.agentService.getRuntime();
-    const agent = new CSRAgent(
+    this.agent = new CSRAgent(
       {
         orderService: this.orderService,
+        customerService: this.customerService,
         inventoryService: this.inventoryService,
         refundService: this.refundService,
+        refundEligibilityService: this.refundEligibilityService,
         ticketService: this.ticketService,
+        verificationService: this.verificationService,
+        addressService: this.addressService,
+        returnService: this.returnService,
+        shipmentTrackingService: this.shipmentTrackingService,
+        inventoryWorker: this.inventoryWorker,
+        citationService: this.citationService,
+        knowledgeBaseService: this.knowledgeBaseService,
       },
-      this.ai.rag as any,
-      this.queueService
+      this.jobQueue
     );
 
-    this.registerAgentSafely(agent);
+    this.registerAgentSafely(this.agent);
 
     this.runtime.on(AgentEventType.TOOL_APPROVAL_REQUESTED, (event: any) => {
       const requestId = event.data?.requestId;
       if (requestId) {
-        setTimeout(() => {
-          try {
-            this.runtime.approveToolExecution(requestId, 'auto-timeout');
-          } catch {
-            // Request was likely handled already.
-          }
-        }, 30000);
+        this.handleApprovalRequest(requestId, event).catch((err) => {
+          logger.error(`Approval request ${requestId} could not be handled:`, err);
+        });
       }
     });
+
+    this.runtime.on(AgentEventType.TOOL_EXECUTION_COMPLETED, (event: any) => {
+      void this.recordToolCall(event);
+    });
+  }
+
+  /**
+   * Adds a completed tool call to the transcript of the session that made it.
+   * The event only carries the tool, input and output; the runtime emits it
+   * inside the turn, so the session comes from the turn's tool context.
+   */
+  private async recordToolCall(event: any): Promise<void> {
+    const data = event.data || {};
+    const { sessionId } = currentToolContext();
+    if (!sessionId) return;
+
+    try {
+      await this.conversationService.recordToolCall(sessionId, {
+        toolName: data.toolName ?? data.tool ?? 'unknown',
+        input: data.input ?? data.args,
+        output: data.result ?? data.output,
+        executionId: event.executionId ?? data.executionId,
+      });
+    } catch (err) {
+      logger.warn(`Could not record tool call for session ${sessionId}:`, err);
+    }
+  }
+
+  /**
+   * Records the request in the approval inbox, then lets the approval policy
+   * decide before the human window opens and again when it closes. A call the
+   * tool would refuse anyway (unverified caller, ineligible refund, shipped
+   * order...) is rejected straight away instead of being put to an approver.
+   */
+  private async handleApprovalRequest(requestId: string, event: any): Promise<void> {
+    const data = event.data || {};
+    const { sessionId, userId } = currentToolContext();
+    const toolName = data.toolName ?? data.tool ?? 'unknown';
+    const requestedAt = event.timestamp ? new Date(event.timestamp) : new Date();
+    const { timeoutMs } = this.approvalPolicyService.getPolicy(toolName);
+
+    const record = await this.approvalService.record({
+      id: requestId,
+      toolName,
+      input: data.input ?? data.args ?? {},
+      agentId: event.agentId ?? data.agentId,
+      executionId: event.executionId ?? data.executionId,
+      sessionId,
+      userId,
+      requestedAt,
+      expiresAt: new Date(requestedAt.getTime() + timeoutMs),
+    });
+
+    const blocked = await this.agent.precheck(toolName, record.input);
+    const decision: PolicyDecision = blocked
+      ? { ruleId: 'precheck-failed', phase: 'pre', action: 'reject', requiredApprovers: 1 }
+      : this.approvalPolicyService.evaluate(toolName, 'pre', await this.buildPolicyFacts(record));
+    await this.approvalService.applyPolicy(requestId, decision);
+
+    if (decision.action === 'human') {
+      this.scheduleApprovalTimeout(requestId, timeoutMs);
+      return;
+    }
+    await this.applyPolicyAction(record, decision);
+  }
+
+  /** Whether the agent runtime still holds `requestId` open; it forgets requests on restart and after its TTL */
+  private isAwaitingRuntime(requestId: string): boolean {
+    return this.runtime.getPendingApprovals().some((request) => request.requestId === requestId);
+  }
+
+  /**
+   * Hands a decision to the runtime. False when the runtime no longer holds
+   * the request (before or during the call); any other error is rethrown.
+   */
+  private settleInRuntime(requestId: string, approved: boolean, decidedBy: string): boolean {
+    if (!this.isAwaitingRuntime(requestId)) return false;
+    try {
+      if (approved) {
+        this.runtime.approveToolExecution(requestId, decidedBy);
+      } else {
+        this.runtime.rejectToolExecution(requestId);
+      }
+    } catch (err) {
+      if (this.isAwaitingRuntime(requestId)) throw err;
+      return false;
+    }
+    return true;
+  }
+
+  private scheduleApprovalTimeout(requestId: string, delayMs: number): void {
+    setTimeout(() => {
+      this.handleApprovalTimeout(requestId).catch((err) => {
+        logger.error(`Approval timeout for ${requestId} could not be handled:`, err);
+      });
+    }, Math.max(0, delayMs)).unref();
+  }
+
+  /**
+   * Approvals still waiting on a human when the process stopped get their
+   * timeout rules again: on schedule if the window is still open, straight
+   * away if it closed while the server was down. Requests the runtime has
+   * forgotten (its in-memory store does on restart) are closed as expired,
+   * since no decision could run the tool any more.
+   */
+  private async rearmApprovalTimeouts(): Promise<void> {
+    const waiting = (await this.approvalService.list()).filter(
+      (record) =>
+        (record.status === 'pending' || record.status === 'expired') &&
+        !record.outcomes.some((outcome) => outcome.phase === 'timeout')
+    );
+    let rearmed = 0;
+    for (const record of waiting) {
+      if (!this.isAwaitingRuntime(record.id)) {
+        await this.approvalService.expire(record.id);
+        continue;
+      }
+      const remaining = record.expiresAt ? new Date(record.expiresAt).getTime() - Date.now() : 0;
+      this.scheduleApprovalTimeout(record.id, remaining);
+      rearmed++;
+    }
+    if (rearmed) logger.info(`Re-armed approval timeouts for ${rearmed} pending request(s)`);
+    if (waiting.length > rearmed) {
+      logger.info(`Closed ${waiting.length - rearmed} approval request(s) the agent runtime no longer holds`);
+    }
+  }
+
+  /** Unshipped orders keep their stock reserved, so availability doesn't promise it to someone else */
+  private async holdOpenOrderStock(): Promise<void> {
+    for (const order of await this.orderService.findOpen()) {
+      const unheld = await this.inventoryService.holdOrder(order);
+      if (unheld.length) logger.warn(`Order ${order.id}: no stock to hold for ${unheld.join(', ')}`);
+    }
+  }
+
+  private async handleApprovalTimeout(requestId: string): Promise<void> {
+    const record = await this.approvalService.findById(requestId);
+    if (!record || (record.status !== 'pending' && record.status !== 'expired')) return;
+
+    const facts = await this.buildPolicyFacts(record);
+    const decision = this.approvalPolicyService.evaluate(record.toolName, 'timeout', facts);
+    await this.applyPolicyAction(record, decision);
+  }
+
+  /**
+   * Carries out a policy decision. A request the runtime no longer holds is
+   * closed as expired instead, so an escalation doesn't open a ticket for a
+   * tool call that can't run; any other runtime error reaches the caller.
+   */
+  private async applyPolicyAction(
+    record: ApprovalRecord,
+    decision: PolicyDecision
+  ): Promise<void> {
+    const decidedBy = `policy:${decision.ruleId}`;
+    if (decision.action === 'approve' || decision.action === 'reject') {
+      const approved = decision.action === 'approve';
+      if (!this.settleInRuntime(record.id, approved, decidedBy)) {
+        await this.approvalService.expire(record.id, decidedBy);
+        return;
+      }
+      await this.approvalService.decide(record.id, { approved, decidedBy, ruleId: decision.ruleId, phase: decision.phase });
+    } else if (decision.action === 'escalate') {
+      if (!this.isAwaitingRuntime(record.id)) {
+        await this.approvalService.expire(record.id, decidedBy);
+        return;
+      }
+      const ticket = await this.ticketService.create({
+        subject: `Approval escalated: ${record.toolName} (${record.id})`,
+        description: `No decision within the approval window. Input: ${JSON.stringify(record.input)}`,
+        priority: 'high',
+        sessionId: record.sessionId,
+        userId: record.userId,
+      });
+      await this.jobQueue.add(TICKETS_QUEUE, 'created', { ticketId: ticket.id, subject: ticket.subject });
+      await this.approvalService.escalate(record.id, { ruleId: decision.ruleId, decidedBy });
+    }
+  }
+
+  private async buildPolicyFacts(record: ApprovalRecord): Promise<Record<string, unknown>> {
+    const orderId = typeof record.input.orderId === 'string' ? record.input.orderId : undefined;
+    const order = orderId ? await this.orderService.findById(orderId) : null;
+    return {
+      toolName: record.toolName,
+      input: record.input,
+      order,
+      sessionId: record.sessionId,
+      userId: record.userId,
+    };
   }
 
   private registerAgentSafely(agent: CSRAgent): void {
@@ -110,55 +368,37 @@ export class CSRService {
     return 'in-memory';
   }
 
-  private createQueueService(): QueueService | undefined {
-    try {
-      if (!process.env.REDIS_HOST) return undefined;
-      const queue = new QueueService();
-      queue.setConnection({
-        host: process.env.REDIS_HOST || 'localhost',
-        port: parseInt(process.env.REDIS_PORT || '6379', 10),
-      });
-      return queue;
-    } catch {
-      return undefined;
-    }
+  async initialize(): Promise<void> {
+    await this.rearmApprovalTimeouts();
+    await this.holdOpenOrderStock();
+    const memory = await this.customerMemoryService.initialize();
+    console.log(`🚀 HazelAI Platform initialized (@hazeljs/memory recall over the ${memory.backend} store)`);
   }
 
-  async initialize(): Promise<void> {
-    const store = createMemoryStore({ type: 'in-memory' });
-    this.memoryService = new MemoryService(store);
-    await this.memoryService.initialize();
-    console.log('🚀 HazelAI Platform initialized (@hazeljs/memory in-memory store ready for HCEL)');
+  /** Why a chat turn can't pin `model`, or undefined when it can (or none is given); takes raw client input */
+  checkModel(model?: unknown): string | undefined {
+    if (model === undefined || model === null || model === '') return undefined;
+    if (typeof model !== 'string') return 'model must be a string naming a configured provider or provider:model';
+    if (this.llmRouter.accepts(model)) return undefined;
+    return `Unknown model '${model}'; configured: ${this.llmRouter.models().join(', ') || 'none'}`;
   }
 
-  private ensureMemory(): MemoryService {
-    if (!this.memoryService) {
-      throw new Error('MemoryService not ready; ensure CSRService.initialize() ran at bootstrap');
-    }
-    return this.memoryService;
+  getMemoryStatus(): MemoryBackendStatus {
+    return this.customerMemoryService.getStatus();
   }
 
   private ensureLLMProviderConfigured(): void {
-    const openaiKey = process.env.OPENAI_API_KEY?.trim();
-    if (!openaiKey) {
+    if (this.llmRouter.size === 0) {
       throw new Error(
-        'OPENAI_API_KEY is not configured. Set it in your .env and restart the server.'
+        'No LLM provider is configured. Set OPENAI_API_KEY (or the keys of the providers in LLM_PROVIDERS) in your .env and restart the server, or set LLM_PROVIDER=offline to run without one.'
       );
     }
   }
 
   private buildChain(message: string, sessionId: string, userId?: string) {
-    const toolHint = [
-      'You are operating as csr-agent with tool access.',
-      'If an order ID like ORD-12345 is present, call lookupOrder before asking follow-up questions.',
-      'If the customer asks about stock, call checkInventory.',
-      'If customer requests refund/address changes, use appropriate tools and approval workflow.',
-      'Only ask for email/phone/order id if the needed identifier is missing.',
-    ].join(' ');
-
     return this.ai.hazel
       .context({ sessionId, userId })
-      .prompt(`${toolHint}\n\nCustomer request: ${message}`)
+      .prompt(withToolHints(message))
       .agent('csr-agent');
   }
 
@@ -169,19 +409,39 @@ export class CSRService {
       executionId?: string;
       steps?: unknown[];
       duration?: number;
+      /** Passages the agent's own RAG step retrieved, when the runtime reports them */
+      sources?: RetrievedPassage[];
     },
     mode?: ChatResponseDto['mode']
   ): ChatResponseDto {
+    const response = payload.response || 'I could not generate a response.';
     return {
-      response: payload.response || 'I could not generate a response.',
+      response,
       executionId: payload.executionId,
       sessionId: sid,
       steps: payload.steps?.length || 0,
       duration: payload.duration ?? 0,
       ...(mode ? { mode } : {}),
+      ...this.collectSources(sid, response, payload.sources),
     };
   }
 
+  private withLlmRoute(response: ChatResponseDto, turn: LlmTurn): ChatResponseDto {
+    return turn.route ? { ...response, llm: turn.route } : response;
+  }
+
+  /** Ends the turn's citation collection: deduplicated sources plus the `[n]` markers used in the reply */
+  private collectSources(
+    sid: string,
+    response: string,
+    ragContext?: RetrievedPassage[]
+  ): Pick<ChatResponseDto, 'sources' | 'citations'> {
+    if (Array.isArray(ragContext)) {
+      this.citationService.record(sid, ragContext);
+    }
+    return this.citationService.collect(sid, response);
+  }
+
   private graphResultToChatResponse(
     sid: string,
     graph: GraphExecutionResult
@@ -194,13 +454,15 @@ export class CSRService {
       const last = nodes[nodes.length - 1] as { response?: string } | undefined;
       text = last?.response;
     }
+    const response = text || 'I could not generate a response.';
     return {
-      response: text || 'I could not generate a response.',
+      response,
       executionId: graph.executionId,
       sessionId: sid,
       steps: Array.isArray(graph.steps) ? graph.steps.length : 0,
       duration: graph.duration ?? 0,
       mode: 'hcel-pipeline',
+      ...this.collectSources(sid, response),
     };
   }
 
@@ -216,14 +478,48 @@ export class CSRService {
     return this.toChatResponse(sid, result as any);
   }
 
+  /** `model` pins a configured provider (`anthropic`) or model (`openai:gpt-4o`) for this request */
   async chat(
     message: string,
     sessionId?: string,
-    userId?: string
+    userId?: string,
+    model?: string
   ): Promise<ChatResponseDto> {
     this.ensureLLMProviderConfigured();
+    const turn = this.llmRouter.begin(message, model);
     const sid = sessionId || `session-${Date.now()}`;
-    return this.chatViaRuntime(message, sid, userId);
+    await this.conversationService.recordMessage(sid, { userId, channel: 'chat' }, { role: 'user', content: message });
+    this.citationService.begin(sid);
+    const response = await turn.run(() =>
+      runWithToolContext({ sessionId: sid, userId }, () => this.chatViaRuntime(message, sid, userId))
+    );
+    return this.recordReply(this.withLlmRoute(response, turn), userId, 'chat');
+  }
+
+  /**
+   * Stores the agent's reply in the session transcript and the knowledge base
+   * versions it drew on in the citation audit, then extracts customer memory
+   * from the conversation in the background.
+   */
+  private async recordReply(
+    response: ChatResponseDto,
+    userId: string | undefined,
+    channel: ConversationChannel
+  ): Promise<ChatResponseDto> {
+    await this.conversationService.recordMessage(
+      response.sessionId,
+      { userId, channel },
+      { role: 'assistant', content: response.response, executionId: response.executionId }
+    );
+    if (response.sources?.length) {
+      await this.citationAuditService.record(response, userId);
+    }
+    if (userId) {
+      this.memoryExtractionService.extract(response.sessionId, userId).catch((err) => {
+        logger.warn(`Memory extraction failed for session ${response.sessionId}:`, err);
+      });
+    }
+    return response;
   }
 
   /**
@@ -234,11 +530,26 @@ export class CSRService {
     message: string,
     variant: 'memory' | 'pipeline' = 'memory',
     sessionId?: string,
-    userId?: string
+    userId?: string,
+    model?: string
   ): Promise<ChatResponseDto> {
     this.ensureLLMProviderConfigured();
+    const turn = this.llmRouter.begin(message, model);
     const sid = sessionId || `session-${Date.now()}`;
+    await this.conversationService.recordMessage(sid, { userId, channel: 'hcel' }, { role: 'user', content: message });
+    this.citationService.begin(sid);
+    const response = await turn.run(() =>
+      runWithToolContext({ sessionId: sid, userId }, () => this.executeHcel(message, variant, sid, userId))
+    );
+    return this.recordReply(this.withLlmRoute(response, turn), userId, 'hcel');
+  }
 
+  private async executeHcel(
+    message: string,
+    variant: 'memory' | 'pipeline',
+    sid: string,
+    userId?: string
+  ): Promise<ChatResponseDto> {
     if (variant === 'pipeline') {
       const graph = await this.ai.hazel
         .context({ sessionId: sid, userId })
@@ -250,7 +561,7 @@ export class CSRService {
       return this.graphResultToChatResponse(sid, graph);
     }
 
-    const memory = this.ensureMemory();
+    const memory = this.customerMemoryService.getMemoryService();
     const result = await this.ai.hazel
       .memory(memory)
       .context({ sessionId: sid, userId })
@@ -274,61 +585,237 @@ export class CSRService {
     key?: string;
     sessionId?: string;
   }): Promise<{ id: string }> {
-    const memory = this.ensureMemory();
-    const item = await memory.save({
+    const { item } = await this.customerMemoryService.upsert({
       userId: input.userId,
       sessionId: input.sessionId,
       category: MemoryCategory.PREFERENCE,
       key: input.key ?? 'csr-demo-preference',
       value: input.value,
-      confidence: 1,
-      source: 'explicit',
-      evidence: [],
     });
     return { id: item.id };
   }
 
+  async listMemory(userId: string): Promise<CustomerMemoryItem[]> {
+    return this.customerMemoryService.listForUser(userId);
+  }
+
+  /** Edits one of the user's memory items; null when the item does not belong to the user */
+  async updateMemoryItem(
+    userId: string,
+    itemId: string,
+    changes: { value?: string; category?: MemoryCategory; confidence?: number }
+  ): Promise<CustomerMemoryItem | null> {
+    const item = await this.customerMemoryService.findById(itemId);
+    if (!item || item.userId !== userId) return null;
+    return this.customerMemoryService.update(itemId, changes);
+  }
+
+  async deleteMemoryItem(userId: string, itemId: string): Promise<boolean> {
+    const item = await this.customerMemoryService.findById(itemId);
+    if (!item || item.userId !== userId) return false;
+    return this.customerMemoryService.delete(itemId);
+  }
+
+  async forgetCustomer(userId: string): Promise<ErasureReport> {
+    return this.customerErasureService.forget(userId);
+  }
+
   async *chatStream(
     message: string,
     sessionId?: string,
-    userId?: string
+    userId?: string,
+    model?: string
   ): AsyncGenerator<{ type: 'chunk'; text: string } | { type: 'result'; data: ChatResponseDto }> {
     this.ensureLLMProviderConfigured();
+    const turn = this.llmRouter.begin(message, model);
     const sid = sessionId || `session-${Date.now()}`;
-    for await (const chunk of this.runtime.executeStream('csr-agent', message, {
-      sessionId: sid,
-      userId,
-    } as any)) {
+    await this.conversationService.recordMessage(sid, { userId, channel: 'stream' }, { role: 'user', content: message });
+    this.citationService.begin(sid);
+    const stream = (): AsyncIterable<any> =>
+      streamWithToolContext({ sessionId: sid, userId }, () =>
+        this.runtime.executeStream('csr-agent', message, { sessionId: sid, userId } as any)
+      );
+    for await (const chunk of turn.stream(stream)) {
       if (chunk.type === 'token') {
         yield { type: 'chunk', text: chunk.content };
       } else if (chunk.type === 'done') {
-        yield { type: 'result', data: this.toChatResponse(sid, chunk.result as any) };
+        const response = this.withLlmRoute(this.toChatResponse(sid, chunk.result as any), turn);
+        const data = await this.recordReply(response, userId, 'stream');
+        yield { type: 'result', data };
       }
     }
   }
 
-  approveTool(requestId: string, approved: boolean, approvedBy: string): void {
-    if (approved) {
-      this.runtime.approveToolExecution(requestId, approvedBy);
-    } else {
-      this.runtime.rejectToolExecution(requestId);
+  /**
+   * Records a human decision. Approvals that need several approvers only reach
+   * the runtime once the last required approver has signed off.
+   */
+  /**
+   * Records a supervisor's vote. A deciding vote is handed to the runtime
+   * first and only saved once the runtime took it; a request the runtime no
+   * longer waits on is closed as expired instead of showing a decision for a
+   * tool call that never ran.
+   */
+  async approveTool(requestId: string, approved: boolean, approvedBy: string): Promise<ApprovalRecord | null> {
+    const existing = await this.approvalService.findById(requestId);
+    if (!existing || existing.status === 'approved' || existing.status === 'rejected') {
+      return existing;
+    }
+    if (!this.isAwaitingRuntime(requestId)) {
+      return this.approvalService.expire(requestId);
     }
+
+    const decision = this.approvalService.decisionFor(existing, { approved, decidedBy: approvedBy });
+    if (decision && !this.settleInRuntime(requestId, decision.approved, decision.decidedBy)) {
+      return this.approvalService.expire(requestId);
+    }
+    return this.approvalService.vote(requestId, { approved, decidedBy: approvedBy });
+  }
+
+  async listApprovals(filter: ApprovalFilter = {}): Promise<ApprovalRecord[]> {
+    return this.approvalService.list(filter);
+  }
+
+  async getApproval(requestId: string): Promise<ApprovalRecord | null> {
+    return this.approvalService.findById(requestId);
+  }
+
+  async listRefunds(filter: { status?: RefundStatus; orderId?: string } = {}): Promise<RefundResult[]> {
+    return this.refundService.list(filter);
+  }
+
+  async getRefund(refundId: string): Promise<RefundResult | null> {
+    return this.refundService.findById(refundId);
+  }
+
+  async transitionRefund(
+    refundId: string,
+    status: RefundStatus,
+    meta: { by?: string; note?: string }
+  ): Promise<RefundResult | null> {
+    return this.refundService.transition(refundId, status, meta);
+  }
+
+  /**
+   * Back-office order search; email/phone are resolved to a customer first.
+   * Returns an empty page when no customer matches.
+   */
+  async searchOrders(
+    query: { customerId?: string; email?: string; phone?: string; status?: string; from?: Date; to?: Date },
+    page?: number,
+    pageSize?: number
+  ): Promise<OrderSearchPage> {
+    let customerId = query.customerId;
+    if (!customerId && (query.email || query.phone)) {
+      const customer = query.email
+        ? await this.customerService.findByEmail(query.email)
+        : await this.customerService.findByPhone(query.phone!);
+      if (!customer) {
+        return { orders: [], page: 1, pageSize: pageSize || 5, total: 0, hasMore: false };
+      }
+      customerId = customer.id;
+    }
+    return this.orderService.search(
+      { customerId, status: query.status, from: query.from, to: query.to },
+      page,
+      pageSize
+    );
+  }
+
+  async listReturns(filter: { orderId?: string; status?: ReturnStatus } = {}): Promise<ReturnRequest[]> {
+    return this.returnService.list(filter);
+  }
+
+  async getReturn(rmaNumber: string): Promise<ReturnRequest | null> {
+    return this.returnService.findByRma(rmaNumber);
+  }
+
+  async receiveReturn(rmaNumber: string, accepted: boolean): Promise<ReturnRequest | null> {
+    return this.returnService.receive(rmaNumber, { accepted });
+  }
+
+  async retryReturnRefund(rmaNumber: string): Promise<ReturnRequest | null> {
+    return this.returnService.retryRefund(rmaNumber);
+  }
+
+  async listTickets(filter: TicketFilter = {}): Promise<Ticket[]> {
+    return this.ticketService.list(filter);
+  }
+
+  async getTicket(ticketId: string): Promise<Ticket | null> {
+    return this.ticketService.getById(ticketId);
+  }
+
+  async updateTicket(
+    ticketId: string,
+    changes: { status?: TicketStatus; priority?: TicketPriority; assignee?: string },
+    by: string
+  ): Promise<Ticket | null> {
+    return this.ticketService.update(ticketId, changes, by);
+  }
+
+  async addTicketComment(
+    ticketId: string,
+    comment: { author: string; body: string; internal?: boolean }
+  ): Promise<Ticket | null> {
+    return this.ticketService.addComment(ticketId, comment);
+  }
+
+  async listSessions(filter: SessionFilter = {}): Promise<ConversationSession[]> {
+    return this.conversationService.listSessions(filter);
+  }
+
+  async getTranscript(
+    sessionId: string
+  ): Promise<{ session: ConversationSession; messages: TranscriptEntry[] } | null> {
+    const session = await this.conversationService.getSession(sessionId);
+    if (!session) return null;
+    return { session, messages: await this.conversationService.transcript(sessionId) };
+  }
+
+  async deleteSession(sessionId: string): Promise<{ deleted: boolean; messages: number }> {
+    return this.conversationService.deleteSession(sessionId);
+  }
+
+  async getTicketDeadLetters(): Promise<DeadLetter[]> {
+    return this.ticketWorker.getDeadLetters();
   }
 
   getPlatform(): HazelAI {
     return this.ai;
   }
 
+  /** Ingests a knowledge base document version; unchanged content is not re-embedded */
   async ingestDocument(
-    title: string,
-    content: string,
-    metadata?: Record<string, unknown>
-  ): Promise<string[]> {
+    input: KnowledgeDocumentInput
+  ): Promise<{ document: KnowledgeDocument; version: KnowledgeDocumentVersion; action: IngestAction }> {
     this.ensureLLMProviderConfigured();
-    return this.ai.rag.ingest({
-      type: 'text',
-      content: `${title}\n\n${content}`,
-      metadata: { title, ...metadata },
-    });
+    return this.knowledgeBaseService.ingest(input);
+  }
+
+  /** Bulk ingestion of Markdown, HTML, PDF, CSV and text files; one result per file */
+  async importDocuments(sources: KnowledgeSource[], metadata?: Record<string, unknown>): Promise<ImportReport> {
+    this.ensureLLMProviderConfigured();
+    return this.knowledgeImportService.importFiles(sources, { metadata });
+  }
+
+  async listDocuments(): Promise<KnowledgeDocumentSummary[]> {
+    return this.knowledgeBaseService.list();
+  }
+
+  async getDocument(key: string): Promise<KnowledgeDocument | null> {
+    return this.knowledgeBaseService.get(key);
+  }
+
+  async deleteDocument(key: string): Promise<KnowledgeDocument | null> {
+    return this.knowledgeBaseService.remove(key);
+  }
+
+  async listSessionCitations(sessionId: string): Promise<CitationAuditEntry[]> {
+    return this.citationAuditService.listForSession(sessionId);
+  }
+
+  async listDocumentCitations(key: string): Promise<CitationAuditEntry[]> {
+    return this.citationAuditService.listForDocument(key);
   }
 }
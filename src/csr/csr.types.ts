@@ -2,10 +2,15 @@
  * CSR API types
  */
 
+import type { ChatSource, CitationMarker } from '../services/citation.service';
+import type { LlmRoute } from '../llm/provider-router';
+
 export interface ChatRequestDto {
   message: string;
   sessionId?: string;
   userId?: string;
+  /** Configured provider (`anthropic`) or `provider:model` to try first instead of the routed chain */
+  model?: string;
 }
 
 export interface ChatResponseDto {
@@ -16,12 +21,12 @@ export interface ChatResponseDto {
   duration: number;
   /** Present when the reply was produced via HCEL (`/chat/hcel`). */
   mode?: 'hcel-memory' | 'hcel-pipeline';
-  sources?: Array<{
-    id: string;
-    content: string;
-    score: number;
-    metadata?: Record<string, unknown>;
-  }>;
+  /** Knowledge base passages retrieved while answering, deduplicated, in citation order */
+  sources?: ChatSource[];
+  /** Inline `[n]` markers in `response` and the source each one cites */
+  citations?: CitationMarker[];
+  /** Provider and model that wrote the reply, with any fallback or escalation on the way */
+  llm?: LlmRoute;
 }
 
 export interface IngestDocumentDto {
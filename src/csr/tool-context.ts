@@ -0,0 +1,38 @@
+/**
+ * Tool context - The caller behind the agent run that is executing a tool
+ * @hazeljs/agent invokes tools with the LLM's input only, so the session and
+ * user a turn runs for are kept in an AsyncLocalStorage that CSRService (and
+ * the evaluation runner) set around `runtime.execute` / `executeStream`.
+ * Tools and runtime event handlers read it with `currentToolContext()`.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface ToolContext {
+  sessionId?: string;
+  userId?: string;
+}
+
+const storage = new AsyncLocalStorage<ToolContext>();
+
+/** The caller of the agent run in progress; empty outside one (e.g. a tool called directly) */
+export function currentToolContext(): ToolContext {
+  return storage.getStore() ?? {};
+}
+
+export function runWithToolContext<T>(context: ToolContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run(context, fn);
+}
+
+/** Iterates `source` with every step inside the context, so tools run between yields see it too */
+export async function* streamWithToolContext<T>(
+  context: ToolContext,
+  source: () => AsyncIterable<T>
+): AsyncGenerator<T> {
+  const iterator = storage.run(context, () => source()[Symbol.asyncIterator]());
+  for (;;) {
+    const next = await storage.run(context, () => iterator.next());
+    if (next.done) return;
+    yield next.value;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Cassette LLM provider - Records real model responses once, replays them offline
+ * Each request is keyed by a hash of its messages and tool schema. Dates and
+ * long numeric IDs are masked first so fixtures relative to "now" and
+ * time-based ticket IDs do not change the key. In replay mode a request that
+ * is not on the cassette fails: the system prompt, tool hints or a tool
+ * schema changed since recording, and the cassette has to be recorded again.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { LLMChatRequest, LLMChatResponse, LLMProvider } from '@hazeljs/agent';
+
+export type CassetteMode = 'record' | 'replay';
+
+interface CassetteEntry {
+  key: string;
+  /** Last message of the request, to make the file readable */
+  prompt: string;
+  response: LLMChatResponse;
+}
+
+interface CassetteFile {
+  scenario: string;
+  recordedAt: string;
+  entries: CassetteEntry[];
+}
+
+export class CassetteMissError extends Error {
+  constructor(scenario: string, prompt: string) {
+    super(
+      `No recorded response on the ${scenario} cassette for "${prompt.slice(0, 80)}"; ` +
+        'the prompt or tool schema changed since recording (re-record with --record)'
+    );
+    this.name = 'CassetteMissError';
+  }
+}
+
+export class CassetteLLMProvider implements LLMProvider {
+  private entries: CassetteEntry[];
+  /** Entries already replayed; identical requests replay in recorded order */
+  private used = new Set<CassetteEntry>();
+
+  constructor(
+    private scenario: string,
+    private file: string,
+    private mode: CassetteMode,
+    private upstream?: LLMProvider
+  ) {
+    if (mode === 'record' && !upstream) {
+      throw new Error('Recording a cassette needs a real LLM provider');
+    }
+    this.entries =
+      mode === 'replay' && fs.existsSync(file)
+        ? (JSON.parse(fs.readFileSync(file, 'utf8')) as CassetteFile).entries
+        : [];
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const key = requestKey(request);
+    const prompt = request.messages[request.messages.length - 1]?.content ?? '';
+
+    if (this.mode === 'replay') {
+      const entry = this.entries.find((candidate) => candidate.key === key && !this.used.has(candidate));
+      if (!entry) throw new CassetteMissError(this.scenario, prompt);
+      this.used.add(entry);
+      return entry.response;
+    }
+
+    const response = await this.upstream!.chat(request);
+    this.entries.push({ key, prompt, response });
+    return response;
+  }
+
+  /** Writes the recorded responses; no-op when replaying */
+  save(): void {
+    if (this.mode !== 'record') return;
+    const cassette: CassetteFile = { scenario: this.scenario, recordedAt: new Date().toISOString(), entries: this.entries };
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, `${JSON.stringify(cassette, null, 2)}\n`);
+  }
+}
+
+function requestKey(request: LLMChatRequest): string {
+  const mask = (text: string) =>
+    text
+      .replace(/\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?/g, '<date>')
+      .replace(/\d{10,}/g, '<n>');
+  return createHash('sha256')
+    .update(
+      JSON.stringify({
+        messages: request.messages.map((message) => [message.role, mask(message.content ?? ''), message.name ?? null]),
+        tools: (request.tools ?? []).map((tool) => tool.function),
+      })
+    )
+    .digest('hex');
+}
@@ -0,0 +1,83 @@
+/**
+ * Evaluation CLI - Runs the scenario suite against CSRService without network access
+ * Usage: npm run eval -- [scenario files or directories] [--replay | --record] [--json <file>]
+ * Scenarios default to evals/scenarios. The default mode answers with each
+ * scenario's scripted LLM steps; --replay uses the recorded responses in
+ * EVAL_CASSETTE_DIR (default evals/cassettes) and --record captures them from
+ * OpenAI (OPENAI_API_KEY). Exits non-zero when any scenario fails.
+ */
+
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+// Read by the services on load; the harness must not reach a database, Redis, a carrier API or a vector store
+process.env.PERSISTENCE_DRIVER = 'memory';
+process.env.CARRIER_ADAPTERS = 'replay';
+process.env.KB_RETRIEVAL = 'keyword';
+process.env.KB_RERANKER = 'none';
+process.env.CONVERSATION_STORE = 'memory';
+process.env.MEMORY_STORE = 'in-memory';
+delete process.env.APPROVAL_STORE_FILE;
+delete process.env.REDIS_HOST;
+// The agent answers from the scripted or cassette provider; CSRService's own router only has to be non-empty
+process.env.LLM_PROVIDERS = 'offline';
+delete process.env.LLM_FAST_PROVIDERS;
+
+import * as fs from 'fs';
+import logger from '@hazeljs/core';
+import { createLLMProviderFromIAI, OpenAIProvider } from '@hazeljs/ai';
+import type { LLMProvider } from '@hazeljs/agent';
+import { loadScenarios } from './scenario';
+import { formatReport, runEvaluation, type EvaluationMode } from './runner';
+
+interface Options {
+  locations: string[];
+  mode: EvaluationMode;
+  json?: string;
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { locations: [], mode: 'scripted' };
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--replay') options.mode = 'replay';
+    else if (args[i] === '--record') options.mode = 'record';
+    else if (args[i] === '--json') options.json = args[++i];
+    else options.locations.push(args[i]);
+  }
+  if (options.locations.length === 0) options.locations.push('evals/scenarios');
+  return options;
+}
+
+function recordingProvider(): LLMProvider {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('Recording cassettes needs OPENAI_API_KEY');
+  }
+  const model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  const openai = new OpenAIProvider(process.env.OPENAI_API_KEY, { defaultModel: model });
+  return createLLMProviderFromIAI(openai, model) as LLMProvider;
+}
+
+async function run(options: Options): Promise<void> {
+  const scenarios = loadScenarios(options.locations);
+  logger.info(`Running ${scenarios.length} scenarios (${options.mode})`);
+
+  const report = await runEvaluation(scenarios, {
+    mode: options.mode,
+    cassetteDir: process.env.EVAL_CASSETTE_DIR || 'evals/cassettes',
+    upstream: options.mode === 'record' ? recordingProvider() : undefined,
+  });
+
+  console.log(formatReport(report));
+  if (options.json) {
+    fs.writeFileSync(options.json, `${JSON.stringify(report, null, 2)}\n`);
+    logger.info(`Report written to ${options.json}`);
+  }
+  if (report.totals.failed > 0) process.exitCode = 1;
+}
+
+Promise.resolve()
+  .then(() => run(parseArgs(process.argv.slice(2))))
+  .catch((err) => {
+    logger.error('Evaluation failed:', err);
+    process.exit(1);
+  });
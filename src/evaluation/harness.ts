@@ -0,0 +1,194 @@
+/**
+ * Evaluation harness - CSRService on seeded in-memory services and a given LLM provider
+ * Wires the services the way CSRModule does, on a fresh in-memory store per
+ * scenario, with the agent runtime answering from the given provider. Turns go
+ * through `CSRService.chat`, so the transcript, citations and customer memory
+ * are produced as in the app. Tool approvals are decided by the scenario: the
+ * decision reaches the runtime before the approval policy's.
+ */
+
+import { AgentEventType, AgentRuntime, type AgentService, type LLMProvider } from '@hazeljs/agent';
+import { CSRService } from '../csr/csr.service';
+import { PersistenceService } from '../persistence/persistence.service';
+import { OrderService } from '../services/order.service';
+import { CustomerService } from '../services/customer.service';
+import { InventoryService } from '../services/inventory.service';
+import { RefundService } from '../services/refund.service';
+import { RefundEligibilityService } from '../services/refund-eligibility.service';
+import { TicketService } from '../services/ticket.service';
+import { VerificationService } from '../services/verification.service';
+import { AddressService } from '../services/address.service';
+import { ReturnService } from '../services/return.service';
+import { ShipmentTrackingService } from '../services/shipment-tracking.service';
+import { NotificationService } from '../services/notification.service';
+import { ApprovalService } from '../services/approval.service';
+import { ApprovalPolicyService } from '../services/approval-policy.service';
+import { ConversationService } from '../services/conversation.service';
+import { CustomerMemoryService } from '../services/customer-memory.service';
+import { MemoryExtractionService, type ExtractionReport } from '../services/memory-extraction.service';
+import { CitationService } from '../services/citation.service';
+import { CitationAuditService } from '../services/citation-audit.service';
+import { CustomerErasureService } from '../services/customer-erasure.service';
+import { KnowledgeImportService } from '../services/knowledge-import.service';
+import { KnowledgeBaseService } from '../services/knowledge-base.service';
+import { JobQueueService } from '../workers/job-queue.service';
+import { TicketWorker } from '../workers/ticket.worker';
+import { InventoryWorker } from '../workers/inventory.worker';
+
+export interface RecordedToolCall {
+  name: string;
+  input: Record<string, unknown>;
+  output: unknown;
+}
+
+/** Tool calls the runtime completed, from its TOOL_EXECUTION_COMPLETED events */
+export class ToolCallRecorder {
+  private pending: RecordedToolCall[] = [];
+  private latest: Map<string, unknown> = new Map();
+
+  record(call: RecordedToolCall): void {
+    this.pending.push(call);
+    this.latest.set(call.name, call.output);
+  }
+
+  /** Calls recorded since the previous take */
+  take(): RecordedToolCall[] {
+    const calls = this.pending;
+    this.pending = [];
+    return calls;
+  }
+
+  /** Latest output of the tool in the scenario so far */
+  last(toolName: string): unknown {
+    return this.latest.get(toolName);
+  }
+}
+
+export interface EvaluationHarness {
+  csrService: CSRService;
+  knowledgeBaseService: KnowledgeBaseService;
+  customerMemoryService: CustomerMemoryService;
+  /** Waits for the memory extraction CSRService started in the background after each reply */
+  memorySettled(): Promise<void>;
+  /** Decision for approvals requested from now on */
+  setApproval(decision: 'approve' | 'reject'): void;
+  /** Approvals requested since the previous take */
+  takeApprovals(): Array<{ toolName: string; decision: 'approve' | 'reject' }>;
+}
+
+/** Keeps the extractions CSRService leaves running after a reply, so a turn can wait for them */
+class TrackedMemoryExtraction extends MemoryExtractionService {
+  private running: Array<Promise<ExtractionReport>> = [];
+
+  extract(sessionId: string, userId?: string): Promise<ExtractionReport> {
+    const extraction = super.extract(sessionId, userId);
+    this.running.push(extraction);
+    return extraction;
+  }
+
+  async settled(): Promise<void> {
+    await Promise.allSettled(this.running.splice(0));
+  }
+}
+
+export async function createEvaluationHarness(
+  llmProvider: LLMProvider,
+  recorder: ToolCallRecorder
+): Promise<EvaluationHarness> {
+  const persistence = new PersistenceService();
+  await persistence.ready;
+
+  const orderService = new OrderService(persistence);
+  const customerService = new CustomerService(persistence);
+  const inventoryService = new InventoryService(persistence);
+  const refundService = new RefundService(persistence);
+  const refundEligibilityService = new RefundEligibilityService(orderService, refundService);
+  const ticketService = new TicketService(persistence);
+  const notificationService = new NotificationService();
+  const approvalService = new ApprovalService();
+  const jobQueue = new JobQueueService();
+  const conversationService = new ConversationService(persistence, approvalService);
+  const customerMemoryService = new CustomerMemoryService(persistence);
+  const memoryExtractionService = new TrackedMemoryExtraction(conversationService, customerMemoryService);
+  const knowledgeBaseService = new KnowledgeBaseService(persistence);
+  const citationAuditService = new CitationAuditService(persistence);
+  const verificationService = new VerificationService(customerService, orderService);
+
+  const runtime = new AgentRuntime({ llmProvider });
+  const agentService = { getRuntime: () => runtime } as unknown as AgentService;
+  const csrService = new CSRService(
+    agentService,
+    orderService,
+    customerService,
+    inventoryService,
+    refundService,
+    refundEligibilityService,
+    ticketService,
+    verificationService,
+    new AddressService(),
+    new ReturnService(persistence, orderService, refundService, refundEligibilityService),
+    new ShipmentTrackingService(),
+    approvalService,
+    new ApprovalPolicyService(),
+    jobQueue,
+    new TicketWorker(jobQueue, ticketService, notificationService, customerService, persistence),
+    new InventoryWorker(jobQueue, inventoryService, notificationService),
+    conversationService,
+    customerMemoryService,
+    memoryExtractionService,
+    knowledgeBaseService,
+    new CustomerErasureService(
+      customerMemoryService,
+      conversationService,
+      ticketService,
+      knowledgeBaseService,
+      citationAuditService,
+      customerService,
+      orderService,
+      inventoryService,
+      approvalService,
+      verificationService
+    ),
+    new KnowledgeImportService(knowledgeBaseService),
+    new CitationService(),
+    citationAuditService
+  );
+  await csrService.initialize();
+
+  let decision: 'approve' | 'reject' = 'approve';
+  let approvals: Array<{ toolName: string; decision: 'approve' | 'reject' }> = [];
+
+  runtime.on(AgentEventType.TOOL_EXECUTION_COMPLETED, (event: any) => {
+    const data = event.data || {};
+    recorder.record({
+      name: data.toolName ?? data.tool ?? 'unknown',
+      input: data.input ?? data.args ?? {},
+      output: data.result ?? data.output,
+    });
+  });
+  runtime.on(AgentEventType.TOOL_APPROVAL_REQUESTED, (event: any) => {
+    const data = event.data || {};
+    if (!data.requestId) return;
+    approvals.push({ toolName: data.toolName ?? data.tool ?? 'unknown', decision });
+    if (decision === 'approve') {
+      runtime.approveToolExecution(data.requestId, 'evaluation');
+    } else {
+      runtime.rejectToolExecution(data.requestId);
+    }
+  });
+
+  return {
+    csrService,
+    knowledgeBaseService,
+    customerMemoryService,
+    memorySettled: () => memoryExtractionService.settled(),
+    setApproval: (next) => {
+      decision = next;
+    },
+    takeApprovals: () => {
+      const taken = approvals;
+      approvals = [];
+      return taken;
+    },
+  };
+}
@@ -0,0 +1,310 @@
+/**
+ * Evaluation runner - Replays scenarios through CSRService.chat and reports per turn
+ * Each scenario gets its own harness, so orders, refunds and tickets created
+ * by one scenario are not visible to the next. A turn passes when its tool
+ * calls match the expected ones, the reply states every fact and none of the
+ * forbidden phrases, the expected sources are cited and audited, the
+ * customer's memory holds the expected entries, and (in scripted mode) the
+ * script played out exactly.
+ */
+
+import * as path from 'path';
+import type { LLMProvider } from '@hazeljs/agent';
+import { withToolHints } from '../csr/csr.agent';
+import type { ChatSource } from '../services/citation.service';
+import { CassetteLLMProvider } from './cassette';
+import { createEvaluationHarness, ToolCallRecorder, type EvaluationHarness, type RecordedToolCall } from './harness';
+import type { Scenario, ScenarioToolCall, ScenarioTurn } from './scenario';
+import { ScriptedLLMProvider } from './scripted-llm.provider';
+
+export type EvaluationMode = 'scripted' | 'replay' | 'record';
+
+export interface EvaluationOptions {
+  mode: EvaluationMode;
+  /** Where cassettes are read (replay) and written (record), one `<scenario id>.json` per scenario */
+  cassetteDir: string;
+  /** Real model the cassettes are recorded from; required in record mode */
+  upstream?: LLMProvider;
+}
+
+/** One line of the tool-call diff: `=` as expected, `~` wrong arguments, `-` missing, `+` unexpected */
+export interface ToolCallDiffLine {
+  kind: '=' | '~' | '-' | '+';
+  name: string;
+  expected?: Record<string, unknown>;
+  actual?: Record<string, unknown>;
+  /** Argument paths that did not match, for `~` lines */
+  mismatches?: string[];
+}
+
+export interface TurnReport {
+  turn: number;
+  customer: string;
+  reply: string;
+  passed: boolean;
+  failures: string[];
+  toolCalls: Array<{ name: string; input: Record<string, unknown> }>;
+  toolCallDiff: ToolCallDiffLine[];
+  approvals: Array<{ toolName: string; decision: 'approve' | 'reject' }>;
+  /** Knowledge base sources of the reply, as `[n] title (documentKey vN)` */
+  sources?: string[];
+  /** The customer's memory after the turn (`key: value`), when the turn has memory expectations */
+  memory?: string[];
+}
+
+export interface ScenarioReport {
+  id: string;
+  file: string;
+  description?: string;
+  passed: boolean;
+  durationMs: number;
+  turns: TurnReport[];
+  /** Set when the scenario could not run to the end, e.g. a cassette miss */
+  error?: string;
+}
+
+export interface EvaluationReport {
+  mode: EvaluationMode;
+  startedAt: Date;
+  completedAt: Date;
+  scenarios: ScenarioReport[];
+  totals: { scenarios: number; passed: number; failed: number; turns: number; failedTurns: number };
+}
+
+export async function runEvaluation(scenarios: Scenario[], options: EvaluationOptions): Promise<EvaluationReport> {
+  const startedAt = new Date();
+  const reports: ScenarioReport[] = [];
+  for (const scenario of scenarios) {
+    reports.push(await runScenario(scenario, options));
+  }
+  const turns = reports.flatMap((report) => report.turns);
+  return {
+    mode: options.mode,
+    startedAt,
+    completedAt: new Date(),
+    scenarios: reports,
+    totals: {
+      scenarios: reports.length,
+      passed: reports.filter((report) => report.passed).length,
+      failed: reports.filter((report) => !report.passed).length,
+      turns: turns.length,
+      failedTurns: turns.filter((turn) => !turn.passed).length,
+    },
+  };
+}
+
+export async function runScenario(scenario: Scenario, options: EvaluationOptions): Promise<ScenarioReport> {
+  const started = Date.now();
+  const recorder = new ToolCallRecorder();
+  const scripted = new ScriptedLLMProvider((toolName) => recorder.last(toolName));
+  const cassette =
+    options.mode === 'scripted'
+      ? null
+      : new CassetteLLMProvider(
+          scenario.id,
+          path.join(options.cassetteDir, `${scenario.id}.json`),
+          options.mode,
+          options.upstream
+        );
+  const report: ScenarioReport = {
+    id: scenario.id,
+    file: scenario.file,
+    description: scenario.description,
+    passed: false,
+    durationMs: 0,
+    turns: [],
+  };
+
+  try {
+    const harness = await createEvaluationHarness(cassette ?? scripted, recorder);
+    for (const document of scenario.knowledge ?? []) {
+      await harness.knowledgeBaseService.ingest(document);
+    }
+
+    const sessionId = `eval-${scenario.id}`;
+    for (const [index, turn] of scenario.turns.entries()) {
+      if (!cassette) scripted.load(turn.llm ?? []);
+      harness.setApproval(turn.approval ?? 'approve');
+
+      const input = scenario.channel === 'hcel' ? withToolHints(turn.customer) : turn.customer;
+      const result = await harness.csrService.chat(input, sessionId, scenario.userId);
+      const reply = result.response ?? '';
+
+      const turnReport = evaluateTurn(index + 1, turn, reply, recorder.take());
+      turnReport.approvals = harness.takeApprovals();
+      if (result.sources?.length) turnReport.sources = result.sources.map(describeSource);
+      if (turn.expect?.sources) {
+        await checkSources(harness, sessionId, result.sources ?? [], turn.expect.sources, turnReport);
+      }
+      if (turn.expect?.memory) {
+        await checkMemory(harness, scenario.userId, turn.expect.memory, turnReport);
+      }
+      if (!cassette) {
+        turnReport.failures.push(...scripted.issues);
+        if (scripted.remaining() > 0) {
+          turnReport.failures.push(`${scripted.remaining()} scripted LLM step(s) were never requested`);
+        }
+      }
+      turnReport.passed = turnReport.failures.length === 0;
+      report.turns.push(turnReport);
+    }
+    cassette?.save();
+  } catch (error) {
+    report.error = error instanceof Error ? error.message : String(error);
+  }
+
+  report.passed = !report.error && report.turns.every((turn) => turn.passed);
+  report.durationMs = Date.now() - started;
+  return report;
+}
+
+function evaluateTurn(number: number, turn: ScenarioTurn, reply: string, calls: RecordedToolCall[]): TurnReport {
+  const expect = turn.expect ?? {};
+  const failures: string[] = [];
+  const toolCallDiff = expect.toolCalls ? diffToolCalls(expect.toolCalls, calls) : [];
+
+  for (const line of toolCallDiff) {
+    if (line.kind === '-') failures.push(`Missing tool call ${line.name}`);
+    if (line.kind === '~') failures.push(`Tool call ${line.name} has unexpected ${line.mismatches!.join(', ')}`);
+    if (line.kind === '+' && !expect.allowExtraToolCalls) failures.push(`Unexpected tool call ${line.name}`);
+  }
+  for (const fact of expect.facts ?? []) {
+    if (!matches(reply, fact)) failures.push(`Reply does not state ${fact}`);
+  }
+  for (const phrase of expect.forbidden ?? []) {
+    if (matches(reply, phrase)) failures.push(`Reply contains forbidden ${phrase}`);
+  }
+
+  return {
+    turn: number,
+    customer: turn.customer,
+    reply,
+    passed: false,
+    failures,
+    toolCalls: calls.map(({ name, input }) => ({ name, input })),
+    toolCallDiff,
+    approvals: [],
+  };
+}
+
+/** Each expected source must be among the reply's sources and recorded in the session's citation audit */
+async function checkSources(
+  harness: EvaluationHarness,
+  sessionId: string,
+  sources: ChatSource[],
+  expected: string[],
+  report: TurnReport
+): Promise<void> {
+  const audited = new Set((await harness.csrService.listSessionCitations(sessionId)).map((entry) => entry.sourceId));
+  for (const entry of expected) {
+    const source = sources.find((candidate) => matches(describeSource(candidate), entry));
+    if (!source) report.failures.push(`Reply has no source ${entry}`);
+    else if (!audited.has(source.id)) report.failures.push(`Citation audit has no entry for ${entry}`);
+  }
+}
+
+function describeSource(source: ChatSource): string {
+  const { documentKey, version } = source.metadata ?? {};
+  const document = typeof documentKey === 'string' ? ` (${documentKey}${version ? ` v${version}` : ''})` : '';
+  return `[${source.citation}] ${source.title ?? source.id}${document}`;
+}
+
+/** Waits for the reply's memory extraction, then looks for each expected entry in the customer's memory */
+async function checkMemory(
+  harness: EvaluationHarness,
+  userId: string | undefined,
+  expected: string[],
+  report: TurnReport
+): Promise<void> {
+  await harness.memorySettled();
+  const items = userId ? await harness.customerMemoryService.listForUser(userId) : [];
+  report.memory = items.map((item) => `${item.key}: ${item.value}`);
+  for (const entry of expected) {
+    if (!report.memory.some((line) => matches(line, entry))) report.failures.push(`Customer memory has no ${entry}`);
+  }
+}
+
+/** Aligns expected and actual calls by name (longest common subsequence), then compares the arguments of aligned pairs */
+export function diffToolCalls(expected: ScenarioToolCall[], actual: RecordedToolCall[]): ToolCallDiffLine[] {
+  const table = Array.from({ length: expected.length + 1 }, () => new Array<number>(actual.length + 1).fill(0));
+  for (let i = expected.length - 1; i >= 0; i--) {
+    for (let j = actual.length - 1; j >= 0; j--) {
+      table[i][j] =
+        expected[i].name === actual[j].name ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const lines: ToolCallDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < expected.length || j < actual.length) {
+    if (i < expected.length && j < actual.length && expected[i].name === actual[j].name) {
+      const mismatches = argumentMismatches(expected[i].arguments ?? {}, actual[j].input ?? {});
+      lines.push({
+        kind: mismatches.length ? '~' : '=',
+        name: actual[j].name,
+        expected: expected[i].arguments,
+        actual: actual[j].input,
+        ...(mismatches.length ? { mismatches } : {}),
+      });
+      i++;
+      j++;
+    } else if (j < actual.length && (i === expected.length || table[i][j + 1] >= table[i + 1][j])) {
+      lines.push({ kind: '+', name: actual[j].name, actual: actual[j].input });
+      j++;
+    } else {
+      lines.push({ kind: '-', name: expected[i].name, expected: expected[i].arguments });
+      i++;
+    }
+  }
+  return lines;
+}
+
+/** Paths where `actual` differs from `expected`; keys only `actual` has are allowed */
+function argumentMismatches(expected: unknown, actual: unknown, at = ''): string[] {
+  if (expected !== null && typeof expected === 'object' && !Array.isArray(expected)) {
+    if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) return [at || 'arguments'];
+    return Object.entries(expected).flatMap(([key, value]) =>
+      argumentMismatches(value, (actual as Record<string, unknown>)[key], at ? `${at}.${key}` : key)
+    );
+  }
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) return [at];
+    return expected.flatMap((value, index) => argumentMismatches(value, actual[index], `${at}[${index}]`));
+  }
+  if (typeof expected === 'string' && typeof actual === 'string') {
+    return expected.toLowerCase() === actual.toLowerCase() ? [] : [at];
+  }
+  return expected === actual ? [] : [at];
+}
+
+/** Case-insensitive substring, or a regular expression written as `/pattern/flags` */
+function matches(text: string, pattern: string): boolean {
+  const regex = /^\/([\s\S]+)\/([a-z]*)$/.exec(pattern);
+  if (regex) return new RegExp(regex[1], regex[2]).test(text);
+  return text.toLowerCase().includes(pattern.toLowerCase());
+}
+
+export function formatReport(report: EvaluationReport): string {
+  const lines: string[] = [];
+  for (const scenario of report.scenarios) {
+    lines.push(`${scenario.passed ? '✓' : '✗'} ${scenario.id} (${scenario.durationMs}ms)`);
+    if (scenario.error) lines.push(`    error: ${scenario.error}`);
+    for (const turn of scenario.turns) {
+      lines.push(`  ${turn.passed ? '✓' : '✗'} turn ${turn.turn}: ${turn.customer}`);
+      if (turn.passed) continue;
+      for (const line of turn.toolCallDiff) {
+        const args = line.kind === '-' ? line.expected : line.actual;
+        lines.push(`      ${line.kind} ${line.name}${args ? ` ${JSON.stringify(args)}` : ''}`);
+      }
+      for (const failure of turn.failures) lines.push(`    - ${failure}`);
+      lines.push(`    reply: ${turn.reply || '(empty)'}`);
+    }
+  }
+  const { totals } = report;
+  lines.push(
+    '',
+    `${totals.passed}/${totals.scenarios} scenarios passed, ${totals.turns - totals.failedTurns}/${totals.turns} turns (${report.mode})`
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,94 @@
+/**
+ * Evaluation scenarios - Scripted customer conversations with expectations
+ * A scenario is a JSON file (default directory: evals/scenarios) holding the
+ * customer turns, what the scripted LLM answers at each step and what the
+ * turn must produce: the tool calls in order, facts the reply must state and
+ * phrases it must not contain.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { KnowledgeDocumentInput } from '../services/knowledge-base.service';
+
+export interface ScenarioToolCall {
+  name: string;
+  /** Expected: the arguments the call must include; scripted: what the LLM sends. Strings may hold `{{tool.path}}` */
+  arguments?: Record<string, unknown>;
+}
+
+/** One LLM response: tool calls, or the final reply (`{{tool.path}}` is filled from that tool's last output) */
+export interface ScriptedStep {
+  toolCalls?: ScenarioToolCall[];
+  content?: string;
+}
+
+export interface TurnExpectation {
+  /** Tool calls of the turn in order; unset skips the check, `[]` requires none */
+  toolCalls?: ScenarioToolCall[];
+  /** When true, calls between or after the expected ones are not a failure */
+  allowExtraToolCalls?: boolean;
+  /** Must appear in the reply, case-insensitive; `/pattern/flags` is a regular expression */
+  facts?: string[];
+  /** Must not appear in the reply, same syntax as facts */
+  forbidden?: string[];
+  /** Must match a `[n] title (documentKey vN)` source of the reply that the citation audit recorded, same syntax as facts */
+  sources?: string[];
+  /** Must match a `key: value` line of the signed-in customer's memory after the turn, same syntax as facts */
+  memory?: string[];
+}
+
+export interface ScenarioTurn {
+  customer: string;
+  /** Ignored in cassette mode */
+  llm?: ScriptedStep[];
+  /** Decision for tool approvals requested during the turn (default: approve) */
+  approval?: 'approve' | 'reject';
+  expect?: TurnExpectation;
+}
+
+export interface Scenario {
+  id: string;
+  description?: string;
+  /** Caller identity passed to tools, e.g. an already signed-in customer */
+  userId?: string;
+  /** `hcel` prefixes each turn with the HCEL chain's tool hints, as the /chat/hcel pipeline does */
+  channel?: 'chat' | 'hcel';
+  /** Documents ingested into the (keyword-only, offline) knowledge base before the first turn */
+  knowledge?: KnowledgeDocumentInput[];
+  turns: ScenarioTurn[];
+  /** Absolute path of the file the scenario was loaded from */
+  file: string;
+}
+
+/** Scenario files under the given files or directories, in name order */
+export function loadScenarios(locations: string[]): Scenario[] {
+  const files: string[] = [];
+  for (const location of locations) {
+    const resolved = path.resolve(location);
+    if (fs.statSync(resolved).isDirectory()) {
+      files.push(
+        ...fs
+          .readdirSync(resolved)
+          .filter((name) => name.endsWith('.json'))
+          .sort()
+          .map((name) => path.join(resolved, name))
+      );
+    } else {
+      files.push(resolved);
+    }
+  }
+  return files.map(loadScenario);
+}
+
+function loadScenario(file: string): Scenario {
+  const raw = JSON.parse(fs.readFileSync(file, 'utf8')) as Partial<Scenario>;
+  if (!Array.isArray(raw.turns) || raw.turns.length === 0) {
+    throw new Error(`${file}: a scenario needs at least one turn`);
+  }
+  for (const [index, turn] of raw.turns.entries()) {
+    if (typeof turn?.customer !== 'string' || !turn.customer) {
+      throw new Error(`${file}: turn ${index + 1} has no customer message`);
+    }
+  }
+  return { ...raw, id: raw.id || path.basename(file, '.json'), turns: raw.turns, file };
+}
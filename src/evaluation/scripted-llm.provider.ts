@@ -0,0 +1,108 @@
+/**
+ * Scripted LLM provider - Deterministic stand-in for the chat model
+ * Answers each request of a turn with the next step of the scenario script.
+ * Tool calls are checked against the tool schema the runtime sends, so a
+ * renamed tool or parameter fails the scenario; `{{tool.path}}` placeholders
+ * are filled from the real output of that tool, so replies carry what the
+ * services actually returned.
+ */
+
+import type { LLMChatRequest, LLMChatResponse, LLMProvider } from '@hazeljs/agent';
+import type { ScriptedStep } from './scenario';
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)((?:\.[\w-]+)*)\s*\}\}/g;
+
+export class ScriptedLLMProvider implements LLMProvider {
+  private steps: ScriptedStep[] = [];
+  private position = 0;
+  private calls = 0;
+  /** Problems found while playing the script: schema mismatches, unresolved placeholders, running out of steps */
+  issues: string[] = [];
+
+  /** `lastOutput` returns the latest output of the named tool, or undefined */
+  constructor(private lastOutput: (toolName: string) => unknown) {}
+
+  /** Starts a turn */
+  load(steps: ScriptedStep[]): void {
+    this.steps = steps;
+    this.position = 0;
+    this.issues = [];
+  }
+
+  /** Steps the turn did not reach */
+  remaining(): number {
+    return Math.max(0, this.steps.length - this.position);
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const step = this.steps[this.position++];
+    if (!step) {
+      this.issues.push(`LLM script exhausted: request ${this.position} has no scripted step`);
+      return { content: '', finishReason: 'stop' };
+    }
+
+    if (step.toolCalls?.length) {
+      return {
+        content: step.content ? this.render(step.content) : '',
+        tool_calls: step.toolCalls.map((call) => {
+          const args = this.renderValue(call.arguments ?? {}) as Record<string, unknown>;
+          this.checkSchema(request, call.name, args);
+          return {
+            id: `call_${++this.calls}`,
+            type: 'function' as const,
+            function: { name: call.name, arguments: JSON.stringify(args) },
+          };
+        }),
+        finishReason: 'tool_calls',
+      };
+    }
+    return { content: this.render(step.content ?? ''), finishReason: 'stop' };
+  }
+
+  private checkSchema(request: LLMChatRequest, name: string, args: Record<string, unknown>): void {
+    const tool = request.tools?.find((definition) => definition.function.name === name);
+    if (!tool) {
+      this.issues.push(`Scripted call to ${name}, which is not in the agent's tool schema`);
+      return;
+    }
+    const { properties, required = [] } = tool.function.parameters;
+    for (const parameter of required) {
+      if (args[parameter] === undefined) this.issues.push(`${name}: required parameter ${parameter} is missing`);
+    }
+    for (const parameter of Object.keys(args)) {
+      if (!(parameter in properties)) this.issues.push(`${name}: unknown parameter ${parameter}`);
+    }
+  }
+
+  private renderValue(value: unknown): unknown {
+    if (typeof value === 'string') {
+      // A lone placeholder keeps the type of what it points at, e.g. a number
+      const whole = /^\{\{\s*([\w-]+)((?:\.[\w-]+)*)\s*\}\}$/.exec(value);
+      return whole ? this.resolve(value, whole[1], whole[2]) : this.render(value);
+    }
+    if (Array.isArray(value)) return value.map((item) => this.renderValue(item));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.renderValue(item)]));
+    }
+    return value;
+  }
+
+  private render(text: string): string {
+    return text.replace(PLACEHOLDER, (placeholder, tool: string, path: string) => {
+      const value = this.resolve(placeholder, tool, path);
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    });
+  }
+
+  private resolve(placeholder: string, tool: string, path: string): unknown {
+    let value: unknown = this.lastOutput(tool);
+    for (const key of path.split('.').filter(Boolean)) {
+      value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    if (value === undefined) {
+      this.issues.push(`Unresolved placeholder ${placeholder}`);
+      return placeholder;
+    }
+    return value;
+  }
+}
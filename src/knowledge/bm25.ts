@@ -0,0 +1,81 @@
+/**
+ * BM25 keyword index - Exact-term retrieval next to vector search
+ * Compound identifiers such as SKUs (TSHIRT-BLU-M) or order numbers are
+ * indexed both whole and by their parts, so `tshirt-blu-m` and `blu` match.
+ */
+
+const K1 = 1.2;
+const B = 0.75;
+
+interface IndexedDocument {
+  terms: Map<string, number>;
+  length: number;
+}
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.toLowerCase().match(/[a-z0-9À-ɏ]+(?:[-_./][a-z0-9À-ɏ]+)*/g) || []) {
+    tokens.push(word);
+    if (/[-_./]/.test(word)) tokens.push(...word.split(/[-_./]/));
+  }
+  return tokens;
+}
+
+export class Bm25Index {
+  private documents: Map<string, IndexedDocument> = new Map();
+  /** Term → number of documents containing it */
+  private documentFrequency: Map<string, number> = new Map();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /** Indexes the text under the ID, replacing what was indexed for it before */
+  add(id: string, text: string): void {
+    this.remove(id);
+    const terms = new Map<string, number>();
+    const tokens = tokenize(text);
+    for (const token of tokens) {
+      terms.set(token, (terms.get(token) ?? 0) + 1);
+    }
+    for (const term of terms.keys()) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+    }
+    this.documents.set(id, { terms, length: tokens.length });
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+    for (const term of document.terms.keys()) {
+      const count = (this.documentFrequency.get(term) ?? 1) - 1;
+      if (count > 0) this.documentFrequency.set(term, count);
+      else this.documentFrequency.delete(term);
+    }
+    this.totalLength -= document.length;
+    this.documents.delete(id);
+  }
+
+  /** Best matches first; `accept` narrows the candidates (e.g. metadata filters) */
+  search(query: string, limit: number, accept: (id: string) => boolean = () => true): Array<{ id: string; score: number }> {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || this.documents.size === 0) return [];
+    const averageLength = this.totalLength / this.documents.size;
+
+    const results: Array<{ id: string; score: number }> = [];
+    for (const [id, document] of this.documents) {
+      let score = 0;
+      for (const term of terms) {
+        const frequency = document.terms.get(term);
+        if (!frequency) continue;
+        const containing = this.documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (this.documents.size - containing + 0.5) / (containing + 0.5));
+        score += (idf * frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * document.length) / averageLength));
+      }
+      if (score > 0 && accept(id)) results.push({ id, score });
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
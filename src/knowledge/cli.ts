@@ -0,0 +1,122 @@
+/**
+ * Knowledge import CLI - Uploads a directory of help-center files to the running agent
+ * Usage: npm run kb:import -- <directory> [--metadata '{"audience":"customer"}'] [--dry-run]
+ * Files are sent in batches to POST /api/csr/kb/import (CSR_API_URL, default
+ * http://localhost:$PORT) so they land in the server's vector store;
+ * --dry-run parses locally and lists the sections without uploading.
+ */
+
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from '@hazeljs/core';
+import { detectFormat, parseSource } from './parsers';
+import type { FileImportResult, ImportReport } from '../services/knowledge-import.service';
+
+const BATCH_SIZE = parseInt(process.env.KB_IMPORT_BATCH_SIZE || '20', 10);
+
+interface Options {
+  directory: string;
+  metadata?: Record<string, unknown>;
+  dryRun: boolean;
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Partial<Options> = { dryRun: false };
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--dry-run') options.dryRun = true;
+    else if (args[i] === '--metadata') options.metadata = JSON.parse(args[++i] ?? '{}');
+    else options.directory = args[i];
+  }
+  if (!options.directory) {
+    throw new Error("Usage: cli.ts <directory> [--metadata '{...}'] [--dry-run]");
+  }
+  return options as Options;
+}
+
+/** Supported files under the directory, as paths relative to it */
+function listFiles(root: string, directory = root): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    if (entry.name.startsWith('.')) continue;
+    const full = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listFiles(root, full));
+    } else if (detectFormat({ name: entry.name })) {
+      files.push(path.relative(root, full).split(path.sep).join('/'));
+    }
+  }
+  return files.sort();
+}
+
+async function dryRun(root: string, files: string[]): Promise<void> {
+  const maxChars = parseInt(process.env.KB_CHUNK_CHARS || '1500', 10);
+  for (const file of files) {
+    try {
+      const sections = await parseSource({ name: file, buffer: fs.readFileSync(path.join(root, file)) }, maxChars);
+      logger.info(`${file}: ${sections.length} sections`);
+      for (const section of sections) {
+        logger.info(`  - ${section.title} (${section.content.length} chars)`);
+      }
+    } catch (err) {
+      logger.warn(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
+
+async function upload(root: string, files: string[], metadata?: Record<string, unknown>): Promise<FileImportResult[]> {
+  const baseUrl = process.env.CSR_API_URL || `http://localhost:${process.env.PORT || '3000'}`;
+  const results: FileImportResult[] = [];
+
+  for (let start = 0; start < files.length; start += BATCH_SIZE) {
+    const batch = files.slice(start, start + BATCH_SIZE);
+    const form = new FormData();
+    for (const file of batch) {
+      form.append('files', new Blob([fs.readFileSync(path.join(root, file))]), file);
+    }
+    if (metadata) form.append('metadata', JSON.stringify(metadata));
+
+    const response = await fetch(`${baseUrl}/api/csr/kb/import`, { method: 'POST', body: form });
+    const body = (await response.json()) as ImportReport | { success: false; message: string };
+    if (!response.ok || !('files' in body)) {
+      throw new Error(`Import request failed (${response.status}): ${'message' in body ? body.message : 'unknown error'}`);
+    }
+    for (const result of body.files) {
+      results.push(result);
+      const detail = result.error ?? `${result.sections} sections, ${result.created} new, ${result.replaced} replaced, ${result.unchanged} unchanged`;
+      logger.info(`[${results.length}/${files.length}] ${result.file}: ${result.status} (${detail})`);
+    }
+  }
+  return results;
+}
+
+async function run(options: Options): Promise<void> {
+  const root = path.resolve(options.directory);
+  const files = listFiles(root);
+  logger.info(`Found ${files.length} supported files in ${root}`);
+  if (files.length === 0) return;
+
+  if (options.dryRun) {
+    await dryRun(root, files);
+    return;
+  }
+
+  const results = await upload(root, files, options.metadata);
+  const failed = results.filter((result) => result.status === 'failed');
+  logger.info(
+    `Imported ${results.length - failed.length}/${results.length} files: ` +
+      `${results.reduce((sum, result) => sum + result.created, 0)} new, ` +
+      `${results.reduce((sum, result) => sum + result.replaced, 0)} replaced, ` +
+      `${results.reduce((sum, result) => sum + result.unchanged, 0)} unchanged sections`
+  );
+  if (failed.length > 0) process.exitCode = 1;
+}
+
+Promise.resolve()
+  .then(() => run(parseArgs(process.argv.slice(2))))
+  .catch((err) => {
+    logger.error('Knowledge import failed:', err);
+    process.exit(1);
+  });
@@ -0,0 +1,59 @@
+/**
+ * Hashed n-gram embeddings - Deterministic local embeddings for offline runs
+ * Words and their character trigrams are hashed into a fixed number of signed
+ * buckets and the vector is L2-normalized, so texts sharing vocabulary (or
+ * word stems, through the trigrams) score high on cosine similarity. Lexical
+ * only: "refund" and "money back" stay apart, unlike with a real model.
+ */
+
+import type { EmbeddingProvider } from '@hazeljs/rag';
+import { tokenize } from './bm25';
+
+const WORD_WEIGHT = 1;
+const TRIGRAM_WEIGHT = 0.5;
+
+export class HashedNgramEmbeddings implements EmbeddingProvider {
+  constructor(private dimension = parseInt(process.env.OFFLINE_EMBEDDING_DIM || '512', 10)) {}
+
+  async embed(text: string): Promise<number[]> {
+    return hashedNgramVector(text, this.dimension);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => hashedNgramVector(text, this.dimension));
+  }
+
+  getDimension(): number {
+    return this.dimension;
+  }
+}
+
+export function hashedNgramVector(text: string, dimension: number): number[] {
+  const vector = new Array<number>(dimension).fill(0);
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    // The top bit picks the sign so colliding features tend to cancel out instead of piling up
+    vector[hash % dimension] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  for (const word of tokenize(text)) {
+    add(`w:${word}`, WORD_WEIGHT);
+    const padded = `#${word}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`c:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+/** 32-bit FNV-1a */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,47 @@
+/**
+ * Local vector store - Knowledge base storage without an embeddings API
+ * An in-process @hazeljs/rag pipeline over hashed n-gram embeddings, used in
+ * place of the HazelAI RAG facade (which embeds with OpenAI) when no OpenAI
+ * provider is configured, e.g. LLM_PROVIDER=offline. Chunks live in memory and
+ * are re-embedded on restart.
+ */
+
+import { MemoryVectorStore, RAGService, RecursiveTextSplitter } from '@hazeljs/rag';
+import type { KnowledgeStore } from '../services/knowledge-base.service';
+import { HashedNgramEmbeddings } from './hashed-embeddings';
+
+export class LocalVectorStore implements KnowledgeStore {
+  private rag: RAGService;
+  private ready: Promise<void> | null = null;
+
+  constructor(embeddings = new HashedNgramEmbeddings()) {
+    this.rag = new RAGService({
+      vectorStore: new MemoryVectorStore(embeddings),
+      embeddingProvider: embeddings,
+      textSplitter: new RecursiveTextSplitter({ chunkSize: 1000, chunkOverlap: 200 }),
+    });
+  }
+
+  async ingest(document: { type: 'text'; content: string; metadata?: Record<string, unknown> }): Promise<string[]> {
+    await this.initialize();
+    return this.rag.index({ content: document.content, metadata: document.metadata });
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    await this.initialize();
+    await this.rag.delete(ids);
+  }
+
+  async search(
+    query: string,
+    options: { topK: number; includeMetadata: boolean; minScore: number }
+  ): Promise<Array<{ id: string; content: string; score: number; metadata?: Record<string, unknown> }>> {
+    await this.initialize();
+    return this.rag.search(query, options);
+  }
+
+  private initialize(): Promise<void> {
+    this.ready ??= this.rag.initialize();
+    return this.ready;
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Knowledge parsers - Turn help-center files into knowledge base sections
+ * Markdown is split by headings, HTML is stripped of navigation and page
+ * chrome and then split the same way, PDFs are read as plain text and CSV
+ * files hold one question/answer pair per row. Long sections are chunked on
+ * paragraph boundaries.
+ */
+
+import * as path from 'path';
+
+export type KnowledgeFormat = 'markdown' | 'html' | 'pdf' | 'csv' | 'text';
+
+export interface KnowledgeSource {
+  /** Path relative to the import root, or the uploaded file name */
+  name: string;
+  buffer: Buffer;
+  mimetype?: string;
+}
+
+export interface ParsedSection {
+  title: string;
+  content: string;
+  /** `source`, `format`, `section` and, when known, `url` */
+  metadata: Record<string, unknown>;
+}
+
+const EXTENSIONS: Record<string, KnowledgeFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.mdx': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.pdf': 'pdf',
+  '.csv': 'csv',
+  '.txt': 'text',
+};
+
+const MIME_TYPES: Record<string, KnowledgeFormat> = {
+  'text/markdown': 'markdown',
+  'text/html': 'html',
+  'application/pdf': 'pdf',
+  'text/csv': 'csv',
+  'text/plain': 'text',
+};
+
+/** Elements that are page chrome rather than content */
+const BOILERPLATE_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'nav', 'header', 'footer', 'aside', 'form', 'iframe'];
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export function detectFormat(source: Pick<KnowledgeSource, 'name' | 'mimetype'>): KnowledgeFormat | null {
+  const byExtension = EXTENSIONS[path.extname(source.name).toLowerCase()];
+  if (byExtension) return byExtension;
+  const mimetype = (source.mimetype || '').split(';')[0].trim().toLowerCase();
+  return MIME_TYPES[mimetype] ?? null;
+}
+
+export async function parseSource(source: KnowledgeSource, maxChars: number): Promise<ParsedSection[]> {
+  const format = detectFormat(source);
+  if (!format) {
+    throw new Error(`Unsupported file type: ${source.name}`);
+  }
+
+  let sections: ParsedSection[];
+  switch (format) {
+    case 'markdown':
+      sections = parseMarkdown(source.buffer.toString('utf-8'), source.name);
+      break;
+    case 'html':
+      sections = parseHtml(source.buffer.toString('utf-8'), source.name);
+      break;
+    case 'pdf':
+      sections = await parsePdf(source.buffer, source.name);
+      break;
+    case 'csv':
+      sections = parseCsv(source.buffer.toString('utf-8'), source.name);
+      break;
+    default:
+      sections = [section(fileTitle(source.name), source.buffer.toString('utf-8'), source.name, 'text')];
+  }
+  return sections.filter((entry) => entry.content.trim()).flatMap((entry) => chunkSection(entry, maxChars));
+}
+
+/**
+ * One section per heading, titled with its heading path (`Returns › Exchanges`).
+ * Front matter `title:` and `url:` apply to every section of the file.
+ */
+export function parseMarkdown(text: string, name: string, format: KnowledgeFormat = 'markdown', url?: string): ParsedSection[] {
+  const { attributes, body } = frontMatter(text);
+  const documentTitle = attributes.title || fileTitle(name);
+  const documentUrl = attributes.url || url;
+  const sections: ParsedSection[] = [];
+  const headings: string[] = [];
+  let lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const content = lines.join('\n').trim();
+    lines = [];
+    if (!content) return;
+    const trail = headings.filter(Boolean);
+    const title = trail.length ? trail.join(' › ') : documentTitle;
+    sections.push(section(title, content, name, format, documentUrl, trail.length ? title : undefined));
+  };
+
+  for (const line of body.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = !inFence && line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      headings.length = level;
+      headings[level - 1] = heading[2];
+      continue;
+    }
+    lines.push(line);
+  }
+  flush();
+  return sections;
+}
+
+/** Keeps `<main>`/`<article>` when present, drops boilerplate elements and splits on h1–h6 */
+export function parseHtml(html: string, name: string): ParsedSection[] {
+  const url =
+    html.match(/<link[^>]+rel=["']canonical["'][^>]*href=["']([^"']+)["']/i)?.[1] ??
+    html.match(/<meta[^>]+property=["']og:url["'][^>]*content=["']([^"']+)["']/i)?.[1];
+  const pageTitle = decodeEntities(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] ?? '').trim();
+
+  let body = html.replace(/<!--[\s\S]*?-->/g, '');
+  body = body.match(/<main[\s\S]*?<\/main>/i)?.[0] ?? body.match(/<article[\s\S]*?<\/article>/i)?.[0] ?? body;
+  for (const tag of BOILERPLATE_TAGS) {
+    body = body.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, 'gi'), '');
+  }
+  body = body.replace(/<head\b[\s\S]*?<\/head>/gi, '');
+
+  const markdown = decodeEntities(
+    body
+      .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) =>
+        `\n${'#'.repeat(Number(level))} ${text.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim()}\n`
+      )
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|section|tr|ul|ol|table|blockquote|pre)>/gi, '\n\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n');
+
+  const front = pageTitle ? `---\ntitle: ${pageTitle}\n---\n` : '';
+  return parseMarkdown(front + markdown, name, 'html', url);
+}
+
+/** Text PDFs via the optional `pdf-parse` package; scanned PDFs without a text layer are rejected */
+export async function parsePdf(buffer: Buffer, name: string): Promise<ParsedSection[]> {
+  let pdfParse: (data: Buffer) => Promise<{ text: string }>;
+  try {
+    pdfParse = (await import('pdf-parse')).default;
+  } catch {
+    throw new Error('PDF import needs the optional pdf-parse package (npm install pdf-parse)');
+  }
+  const { text } = await pdfParse(buffer);
+  if (!text.trim()) {
+    throw new Error(`${name} has no text layer`);
+  }
+  return [section(fileTitle(name), text.replace(/[ \t]+\n/g, '\n'), name, 'pdf')];
+}
+
+/**
+ * One section per row. Columns are matched by header (`question`/`q`,
+ * `answer`/`a`, optional `url`, `category`); without a header the first two
+ * columns are the question and answer.
+ */
+export function parseCsv(text: string, name: string): ParsedSection[] {
+  const rows = csvRows(text).filter((row) => row.some((cell) => cell.trim()));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const find = (...names: string[]) => header.findIndex((cell) => names.includes(cell));
+  const hasHeader = find('question', 'q') >= 0 && find('answer', 'a') >= 0;
+  const question = hasHeader ? find('question', 'q') : 0;
+  const answer = hasHeader ? find('answer', 'a') : 1;
+  const url = hasHeader ? find('url', 'link') : -1;
+  const category = hasHeader ? find('category', 'section', 'topic') : -1;
+
+  return rows.slice(hasHeader ? 1 : 0).flatMap((row) => {
+    const q = row[question]?.trim();
+    const a = row[answer]?.trim();
+    if (!q || !a) return [];
+    const entry = section(q, `Q: ${q}\nA: ${a}`, name, 'csv', row[url]?.trim() || undefined, q);
+    if (category >= 0 && row[category]?.trim()) entry.metadata.category = row[category].trim();
+    return [entry];
+  });
+}
+
+/** Splits sections longer than `maxChars` on paragraph (then sentence) boundaries */
+export function chunkSection(entry: ParsedSection, maxChars: number): ParsedSection[] {
+  if (entry.content.length <= maxChars) return [entry];
+
+  const pieces = entry.content
+    .split(/\n\s*\n/)
+    .flatMap((paragraph) => (paragraph.length <= maxChars ? [paragraph] : paragraph.split(/(?<=[.!?])\s+/)));
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+    while (current.length > maxChars) {
+      chunks.push(current.slice(0, maxChars));
+      current = current.slice(maxChars);
+    }
+  }
+  if (current.trim()) chunks.push(current);
+
+  return chunks.map((content, index) => ({
+    title: `${entry.title} (part ${index + 1})`,
+    content,
+    metadata: { ...entry.metadata, part: index + 1, parts: chunks.length },
+  }));
+}
+
+function section(
+  title: string,
+  content: string,
+  source: string,
+  format: KnowledgeFormat,
+  url?: string,
+  sectionName?: string
+): ParsedSection {
+  const metadata: Record<string, unknown> = { source, format };
+  if (sectionName) metadata.section = sectionName;
+  if (url) metadata.url = url;
+  return { title, content: content.trim(), metadata };
+}
+
+function fileTitle(name: string): string {
+  const base = path.basename(name, path.extname(name)).replace(/[-_]+/g, ' ').trim();
+  return base.charAt(0).toUpperCase() + base.slice(1);
+}
+
+function frontMatter(text: string): { attributes: Record<string, string>; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { attributes: {}, body: text };
+  const attributes: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const pair = line.match(/^([\w-]+):\s*(.*)$/);
+    if (pair) attributes[pair[1].toLowerCase()] = pair[2].replace(/^["']|["']$/g, '').trim();
+  }
+  return { attributes, body: text.slice(match[0].length) };
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/** RFC 4180 rows: quoted fields may contain commas, quotes ("") and newlines */
+function csvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
@@ -0,0 +1,98 @@
+/**
+ * Rerankers - Optional second pass over fused retrieval candidates
+ * KB_RERANKER picks `none` (default), `llm` (OpenAI scores each passage) or
+ * `cross-encoder` (local model through the optional @xenova/transformers
+ * package, KB_RERANKER_MODEL).
+ */
+
+import logger from '@hazeljs/core';
+import OpenAI from 'openai';
+
+export interface Reranker {
+  readonly name: string;
+  /** Relevance of each passage to the query, in passage order; higher is better */
+  score(query: string, passages: string[]): Promise<number[]>;
+}
+
+/** Asks the chat model to grade each passage 0–10 */
+export class LlmReranker implements Reranker {
+  readonly name = 'llm';
+  private client: OpenAI;
+
+  constructor(private model = process.env.KB_RERANKER_MODEL || process.env.OPENAI_MODEL || 'gpt-4o-mini') {
+    this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY || '' });
+  }
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    const listing = passages.map((passage, index) => `[${index}] ${passage.slice(0, 1200)}`).join('\n\n');
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      temperature: 0,
+      response_format: { type: 'json_object' },
+      messages: [
+        {
+          role: 'system',
+          content:
+            'Grade how well each passage answers the query from 0 (irrelevant) to 10 (answers it fully). ' +
+            'Reply with JSON {"scores": [..]} holding one number per passage, in order.',
+        },
+        { role: 'user', content: `Query: ${query}\n\nPassages:\n${listing}` },
+      ],
+    });
+    const scores = JSON.parse(completion.choices[0]?.message?.content || '{}').scores;
+    if (!Array.isArray(scores) || scores.length !== passages.length) {
+      throw new Error('Reranker reply did not score every passage');
+    }
+    return scores.map((value: unknown) => Number(value) || 0);
+  }
+}
+
+/** Local MS MARCO cross-encoder; the model is downloaded on first use */
+export class CrossEncoderReranker implements Reranker {
+  readonly name = 'cross-encoder';
+  private loaded?: Promise<{ tokenizer: any; model: any }>;
+
+  constructor(private modelName = process.env.KB_RERANKER_MODEL || 'Xenova/ms-marco-MiniLM-L-6-v2') {}
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    const { tokenizer, model } = await this.load();
+    const inputs = tokenizer(new Array(passages.length).fill(query), {
+      text_pair: passages,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await model(inputs);
+    return Array.from(logits.data as ArrayLike<number>);
+  }
+
+  private load(): Promise<{ tokenizer: any; model: any }> {
+    this.loaded ??= (async () => {
+      let transformers: any;
+      try {
+        transformers = await import('@xenova/transformers');
+      } catch {
+        throw new Error('KB_RERANKER=cross-encoder needs the optional @xenova/transformers package');
+      }
+      return {
+        tokenizer: await transformers.AutoTokenizer.from_pretrained(this.modelName),
+        model: await transformers.AutoModelForSequenceClassification.from_pretrained(this.modelName),
+      };
+    })();
+    return this.loaded;
+  }
+}
+
+export function createReranker(name = process.env.KB_RERANKER || 'none'): Reranker | null {
+  switch (name.toLowerCase()) {
+    case 'llm':
+      return new LlmReranker();
+    case 'cross-encoder':
+      return new CrossEncoderReranker();
+    case 'none':
+    case '':
+      return null;
+    default:
+      logger.warn(`Unknown KB_RERANKER '${name}', retrieval results are not reranked`);
+      return null;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Anthropic chat provider - Claude Messages API with tool use
+ * The AnthropicProvider shipped with @hazeljs/ai sends text only and drops the
+ * request's functions, so the agent could never call a tool through it. This
+ * one maps functions to Anthropic tools and `tool_use` blocks back to tool
+ * calls, over plain HTTP (no SDK dependency).
+ */
+
+import type {
+  AICompletionResponse,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
+  AIMessage,
+  AIProvider,
+  AIStreamChunk,
+  IAIProvider,
+} from '@hazeljs/ai';
+import type { ToolDefinition, ToolRequest } from './complexity';
+import type { CancellableRequest } from './provider-router';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096;
+
+type ContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown };
+
+interface MessagesResponse {
+  id: string;
+  model: string;
+  content: ContentBlock[];
+  stop_reason?: string;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+export class AnthropicChatProvider implements IAIProvider {
+  readonly name: AIProvider = 'anthropic';
+
+  constructor(
+    private apiKey: string,
+    private defaultModel = 'claude-sonnet-4-20250514',
+    private baseURL = 'https://api.anthropic.com'
+  ) {}
+
+  async complete(request: CancellableRequest): Promise<AICompletionResponse> {
+    const response = await this.post(this.toMessagesRequest(request), request.signal);
+    const data = (await response.json()) as MessagesResponse;
+    const toolCalls = data.content
+      .filter((block): block is Extract<ContentBlock, { type: 'tool_use' }> => block.type === 'tool_use')
+      .map((block) => ({
+        id: block.id,
+        type: 'function' as const,
+        function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+      }));
+
+    return {
+      id: data.id,
+      role: 'assistant',
+      model: data.model,
+      content: data.content
+        .map((block) => (block.type === 'text' ? block.text : ''))
+        .join(''),
+      ...(toolCalls.length ? { toolCalls } : {}),
+      usage: data.usage && {
+        promptTokens: data.usage.input_tokens,
+        completionTokens: data.usage.output_tokens,
+        totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+      },
+      finishReason: data.stop_reason,
+    };
+  }
+
+  /** Text deltas from the server-sent event stream; `content` is the text so far, as with the other providers */
+  async *streamComplete(request: CancellableRequest): AsyncGenerator<AIStreamChunk> {
+    const response = await this.post({ ...this.toMessagesRequest(request), stream: true }, request.signal);
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    let id = '';
+    let content = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const event = JSON.parse(line.slice(5));
+        if (event.type === 'message_start') {
+          id = event.message.id;
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          content += event.delta.text;
+          yield { id, content, delta: event.delta.text, done: false };
+        } else if (event.type === 'message_stop') {
+          yield { id, content, delta: '', done: true };
+        }
+      }
+    }
+  }
+
+  async embed(_request: AIEmbeddingRequest): Promise<AIEmbeddingResponse> {
+    throw new Error('Anthropic has no embeddings API');
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return Boolean(this.apiKey);
+  }
+
+  private toMessagesRequest(request: ToolRequest): Record<string, unknown> {
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map(textOf)
+      .join('\n\n');
+    const offered: ToolDefinition[] = [...(request.functions ?? []), ...(request.tools ?? [])];
+    const tools = offered.map((tool) => {
+      const definition = 'function' in tool ? tool.function : tool;
+      return { name: definition.name, description: definition.description, input_schema: definition.parameters };
+    });
+
+    return {
+      model: request.model || this.defaultModel,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+      top_p: request.topP,
+      ...(system ? { system } : {}),
+      messages: toConversation(request.messages),
+      ...(tools.length && request.functionCall !== 'none' ? { tools } : {}),
+    };
+  }
+
+  private async post(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseURL}/v1/messages`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Anthropic API error (${response.status}): ${await response.text()}`);
+    }
+    return response;
+  }
+}
+
+/**
+ * User and assistant turns for the Messages API. The agent passes tool results
+ * as text, so tool and function messages become user text, and consecutive
+ * messages from the same side are merged because the API expects them to alternate.
+ */
+function toConversation(messages: AIMessage[]): Array<{ role: 'user' | 'assistant'; content: string }> {
+  const conversation: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+    const role = message.role === 'assistant' ? 'assistant' : 'user';
+    const content = textOf(message);
+    const previous = conversation[conversation.length - 1];
+    if (previous?.role === role) previous.content += `\n\n${content}`;
+    else conversation.push({ role, content });
+  }
+  return conversation;
+}
+
+function textOf(message: AIMessage): string {
+  return typeof message.content === 'string'
+    ? message.content
+    : message.content.map((part: any) => part.text ?? '').join(' ');
+}
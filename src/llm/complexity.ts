@@ -0,0 +1,65 @@
+/**
+ * Request complexity - Decides which requests start on the fast model tier
+ * and when the fast tier's answer is too shaky to send
+ * Both are cheap heuristics over the text: short, single-question requests
+ * without signs of a complaint or dispute are simple; an answer is low
+ * confidence when it hedges, is cut off, comes back empty, or calls a tool
+ * that was not offered or with arguments that are not JSON.
+ */
+
+import type { AICompletionRequest, AICompletionResponse } from '@hazeljs/ai';
+
+export type Complexity = 'simple' | 'complex';
+
+/** @hazeljs/ai's index exports the `AIFunction` decorator under that name, so the type is taken from the request */
+type FunctionDefinition = NonNullable<AICompletionRequest['functions']>[number];
+
+/** A tool as it reaches a provider: a plain function, or `{ type, function }` from the agent's streaming path */
+export type ToolDefinition = FunctionDefinition | { type?: string; function: FunctionDefinition };
+
+/** Some callers offer tools as `tools` rather than `functions` */
+export type ToolRequest = AICompletionRequest & { tools?: ToolDefinition[] };
+
+const MAX_SIMPLE_LENGTH = 240;
+
+const COMPLEX_SIGNALS =
+  /\b(complain\w*|frustrat\w*|angry|upset|unacceptable|ridiculous|lawyer|legal|dispute\w*|chargeback|manager|supervisor|escalat\w*|damaged|broken|defective|wrong item|charged twice|double charged|never (?:arrived|received))\b/i;
+
+const HEDGES =
+  /\b(i'?m not sure|i am not sure|not certain|i don'?t know|i do not know|i can(?:not|'t) (?:help|determine|tell)|unable to (?:help|determine))\b/i;
+
+export function classifyComplexity(message: string): Complexity {
+  if (message.length > MAX_SIMPLE_LENGTH) return 'complex';
+  if ((message.match(/\?/g) ?? []).length > 1) return 'complex';
+  return COMPLEX_SIGNALS.test(message) ? 'complex' : 'simple';
+}
+
+export function isLowConfidence(response: AICompletionResponse, request: ToolRequest): boolean {
+  if (response.finishReason === 'length' || response.finishReason === 'max_tokens') return true;
+
+  const toolCalls = response.toolCalls ?? [];
+  if (toolCalls.length) {
+    const offered = new Set(offeredToolNames(request));
+    return toolCalls.some((call) => !offered.has(call.function.name) || !isJson(call.function.arguments));
+  }
+
+  const content = response.content?.trim() ?? '';
+  return content === '' || HEDGES.test(content);
+}
+
+/** Names of the tools offered with the request, in either shape and field */
+export function offeredToolNames(request: ToolRequest): string[] {
+  const definitions: ToolDefinition[] = [...(request.functions ?? []), ...(request.tools ?? [])];
+  return definitions
+    .map((definition) => ('function' in definition ? definition.function.name : definition.name))
+    .filter(Boolean);
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text || '{}');
+    return true;
+  } catch {
+    return false;
+  }
+}
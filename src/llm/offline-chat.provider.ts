@@ -0,0 +1,342 @@
+/**
+ * Offline chat provider - Deterministic rule-based model for LLM_PROVIDER=offline
+ * Picks tool calls from what the customer wrote (order, ticket and refund IDs,
+ * SKUs, email + ZIP code, policy questions) and writes the reply from the tool
+ * results of the turn, so /chat, /chat/stream, HCEL and the WebSocket gateway
+ * run end to end without an API key. OFFLINE_LLM_SCRIPT points at a JSON list
+ * of rules tried before the built-in ones.
+ */
+
+import * as fs from 'fs';
+import logger from '@hazeljs/core';
+import type {
+  AICompletionRequest,
+  AICompletionResponse,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
+  AIMessage,
+  AIProvider,
+  AIStreamChunk,
+  IAIProvider,
+} from '@hazeljs/ai';
+import { HashedNgramEmbeddings } from '../knowledge/hashed-embeddings';
+import { offeredToolNames } from './complexity';
+
+export const OFFLINE_MODEL = 'offline-rules';
+
+export interface OfflineRule {
+  /** Regular expression tested against the customer's message, case-insensitive */
+  match: string;
+  /** Tool calls for the first step of the turn; `$1`, `$2`… are replaced with the match groups */
+  toolCalls?: Array<{ name: string; arguments?: Record<string, unknown> }>;
+  /** Reply once the tools ran (or right away without tools); fills in `$1`… and `{{tool.path}}` from the turn's tool outputs */
+  reply?: string;
+}
+
+interface PlannedCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+interface ToolResult {
+  name: string;
+  input: Record<string, unknown>;
+  output: any;
+}
+
+interface Turn {
+  message: string;
+  /** Earlier customer messages, oldest first */
+  history: string[];
+  /** Tools that ran since the customer's message, in order */
+  results: ToolResult[];
+}
+
+const ORDER_ID = /\bORD-\d+\b/i;
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const POSTAL_CODE = /\b\d{5}(?:-\d{4})?\b|\b[A-Z]\d[A-Z] ?\d[A-Z]\d\b/i;
+
+export class OfflineChatProvider implements IAIProvider {
+  /** AIProvider has no name for a local model; the provider router reports it as `offline` */
+  readonly name: AIProvider = 'openai';
+  private rules: Array<OfflineRule & { pattern: RegExp }>;
+  private embeddings = new HashedNgramEmbeddings();
+  private sequence = 0;
+
+  constructor(scriptFile = process.env.OFFLINE_LLM_SCRIPT) {
+    this.rules = scriptFile ? loadRules(scriptFile) : [];
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletionResponse> {
+    const turn = readTurn(request.messages);
+    const rule = this.rules.find((candidate) => candidate.pattern.test(turn.message));
+    const match = rule ? rule.pattern.exec(turn.message) : null;
+    const id = `offline-${++this.sequence}`;
+
+    const available = new Set(offeredToolNames(request));
+    const calls = available.size ? this.plan(turn, rule, match).filter((call) => available.has(call.name)) : [];
+    if (calls.length) {
+      return {
+        id,
+        role: 'assistant',
+        model: OFFLINE_MODEL,
+        content: '',
+        toolCalls: calls.map((call, index) => ({
+          id: `${id}-${index + 1}`,
+          type: 'function' as const,
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+        finishReason: 'tool_calls',
+      };
+    }
+
+    const content = rule?.reply ? render(rule.reply, match, turn.results) : describe(turn.results);
+    const promptTokens = Math.ceil(JSON.stringify(request.messages).length / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+    return {
+      id,
+      role: 'assistant',
+      model: OFFLINE_MODEL,
+      content,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      finishReason: 'stop',
+    };
+  }
+
+  async *streamComplete(request: AICompletionRequest): AsyncGenerator<AIStreamChunk> {
+    const response = await this.complete(request);
+    let content = '';
+    for (const delta of response.content.match(/\S+\s*/g) ?? []) {
+      content += delta;
+      yield { id: response.id, content, delta, done: false };
+    }
+    yield { id: response.id, content, delta: '', done: true, usage: response.usage };
+  }
+
+  async embed(request: AIEmbeddingRequest): Promise<AIEmbeddingResponse> {
+    const inputs = Array.isArray(request.input) ? request.input : [request.input];
+    return { embeddings: await this.embeddings.embedBatch(inputs), model: 'hashed-ngrams' };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  /** Tool calls for this step; none once the tools answered the question */
+  private plan(turn: Turn, rule: OfflineRule | undefined, match: RegExpExecArray | null): PlannedCall[] {
+    if (turn.results.length > 0) {
+      // A successful verification unlocks the order the customer asked about before
+      const last = turn.results[turn.results.length - 1];
+      const orderId = last.input.orderId;
+      if (last.name === 'verifyCustomer' && last.output?.verified && typeof orderId === 'string') {
+        return [{ name: 'lookupOrder', arguments: { orderId } }];
+      }
+      return [];
+    }
+    if (rule) {
+      return (rule.toolCalls ?? []).map((call) => ({
+        name: call.name,
+        arguments: substitute(call.arguments ?? {}, match) as Record<string, unknown>,
+      }));
+    }
+    return builtinPlan(turn);
+  }
+}
+
+function builtinPlan({ message, history }: Turn): PlannedCall[] {
+  const orderId = ORDER_ID.exec(message)?.[0].toUpperCase();
+  const email = EMAIL.exec(message)?.[0];
+  const postalCode = POSTAL_CODE.exec(message.replace(ORDER_ID, ''))?.[0];
+
+  if (email && postalCode) {
+    const earlierOrder = [...history].reverse().map((text) => ORDER_ID.exec(text)?.[0]).find(Boolean);
+    const challengeOrder = orderId ?? earlierOrder?.toUpperCase();
+    return [{ name: 'verifyCustomer', arguments: { ...(challengeOrder ? { orderId: challengeOrder } : {}), email, postalCode } }];
+  }
+
+  const ticketId = /\bTKT-\d+-\d+\b/i.exec(message)?.[0];
+  if (ticketId) return [{ name: 'getTicketStatus', arguments: { ticketId: ticketId.toUpperCase() } }];
+  const refundId = /\bREF-\d+-\d+\b/i.exec(message)?.[0];
+  if (refundId) return [{ name: 'getRefundStatus', arguments: { refundId: refundId.toUpperCase() } }];
+
+  if (orderId) {
+    const amount = /\$\s?(\d+(?:\.\d{1,2})?)/.exec(message)?.[1];
+    if (/\bcancel/i.test(message)) return [{ name: 'cancelOrder', arguments: { orderId, reason: message } }];
+    if (/\brefund/i.test(message) && amount) {
+      return [{ name: 'processRefund', arguments: { orderId, amount: parseFloat(amount), reason: message } }];
+    }
+    if (/\b(where|track|ship|deliver|arriv|package|parcel)/i.test(message)) {
+      return [{ name: 'trackShipment', arguments: { orderId } }];
+    }
+    return [{ name: 'lookupOrder', arguments: { orderId } }];
+  }
+
+  const sku = /\bPROD-\d+(?:-[A-Z0-9]+)*\b/i.exec(message)?.[0];
+  if (sku) return [{ name: 'checkInventory', arguments: { productId: sku.toUpperCase() } }];
+  if (/\b(human|person|someone|complain|escalat|manager|supervisor)/i.test(message)) {
+    return [{ name: 'createTicket', arguments: { subject: message.slice(0, 80), description: message, priority: 'medium' } }];
+  }
+  if (/\b(my|recent) orders\b|\border history\b/i.test(message)) {
+    return [{ name: 'findCustomerOrders', arguments: email ? { email } : {} }];
+  }
+  if (/\?|\b(policy|policies|return|refund|warranty|exchange|shipping|how|what|can i|do you)\b/i.test(message)) {
+    return [{ name: 'searchKnowledgeBase', arguments: { query: message } }];
+  }
+  return [];
+}
+
+/** Reply from the turn's tool results; the last result answers, earlier ones only add context */
+function describe(results: ToolResult[]): string {
+  if (results.length === 0) {
+    return (
+      'I can help with order status and tracking, cancellations, returns, refunds, stock checks, ' +
+      'support tickets and our policies. Please share your order ID (e.g. ORD-12345) or tell me what you need.'
+    );
+  }
+  const verified = results.some((result) => result.name === 'verifyCustomer' && result.output?.verified);
+  const last = results[results.length - 1];
+  const answer = describeResult(last);
+  return verified && last.name !== 'verifyCustomer' ? `Thanks, you're verified. ${answer}` : answer;
+}
+
+function describeResult({ name, output }: ToolResult): string {
+  const out = output ?? {};
+  if (out.verificationRequired) {
+    const status = out.status ? `Order ${out.orderId} is ${out.status}. ` : '';
+    return `${status}Before I can share more, please confirm the email address and billing ZIP code on the account.`;
+  }
+
+  switch (name) {
+    case 'lookupOrder':
+      if (out.found) {
+        const tracking = out.trackingNumber ? `; the tracking number is ${out.trackingNumber}` : '';
+        const delivery = out.estimatedDelivery ? `, estimated delivery ${day(out.estimatedDelivery)}` : '';
+        return `Order ${out.orderId} is ${out.status}${tracking}${delivery}.`;
+      }
+      break;
+    case 'trackShipment':
+      if (out.found) {
+        const delivery = out.estimatedDelivery ? `, expected ${day(out.estimatedDelivery)}` : '';
+        const issue = out.issue
+          ? ` I'm sorry, the shipment looks ${out.issue}; I can send a replacement or refund the order.`
+          : '';
+        return `Order ${out.orderId} is ${String(out.status).replace(/_/g, ' ')} with ${out.carrier} (tracking ${out.trackingNumber})${delivery}.${issue}`;
+      }
+      break;
+    case 'findCustomerOrders':
+      if (out.found) {
+        const orders = (out.orders ?? []).map((order: any) => `${order.orderId} (${order.status}, ${order.placedAt})`);
+        return `I found ${out.total} order(s): ${orders.join(', ')}. Which one do you mean?`;
+      }
+      break;
+    case 'searchKnowledgeBase': {
+      const [top] = out.documents ?? [];
+      if (top) return `${excerpt(top.content)} [${top.citation}]`;
+      if (out.success !== false) {
+        return "I couldn't find that in our help center. I can open a support ticket so a specialist can answer.";
+      }
+      break;
+    }
+    case 'processRefund':
+      if (out.success && out.refundId && !out.duplicate) {
+        return `Refund ${out.refundId} of $${Number(out.amount).toFixed(2)} is ${out.status}; expect it within ${out.estimatedProcessingDays} business days.`;
+      }
+      break;
+    case 'verifyCustomer':
+      if (out.verified) return "Thanks, you're verified. What can I help you with?";
+      break;
+  }
+
+  if (typeof out.message === 'string') return out.message;
+  if (out.error) return `Sorry, something went wrong: ${out.error}`;
+  const facts = Object.entries(out).filter(([, value]) => ['string', 'number', 'boolean'].includes(typeof value));
+  return facts.length ? facts.map(([key, value]) => `${key}: ${value}`).join(', ') : 'Done.';
+}
+
+function readTurn(messages: AIMessage[]): Turn {
+  let lastUser = -1;
+  messages.forEach((message, index) => {
+    if (message.role === 'user') lastUser = index;
+  });
+
+  // The HCEL chain puts tool hints in front of "Customer request: <message>"
+  const text = lastUser >= 0 ? textOf(messages[lastUser]) : '';
+  const message = /Customer request:\s*([\s\S]*)$/.exec(text)?.[1] ?? text;
+  const history = messages.slice(0, Math.max(0, lastUser)).filter((m) => m.role === 'user').map(textOf);
+
+  const results: ToolResult[] = [];
+  for (const entry of messages.slice(lastUser + 1)) {
+    const content = textOf(entry);
+    // The agent runtime records tool results as assistant messages: "[Tool result: name]\nInput: {..}\nOutput: {..}"
+    const summary = /^\[Tool(?: result)?: ([\w-]+)\]\nInput: (.*)\nOutput: (.*)/.exec(content);
+    if (entry.role === 'assistant' && summary) {
+      results.push({ name: summary[1], input: parseJson(summary[2]) ?? {}, output: parseJson(summary[3]) });
+    } else if (entry.role === 'tool') {
+      results.push({ name: entry.name ?? 'tool', input: {}, output: parseJson(content) });
+    }
+  }
+  return { message, history, results };
+}
+
+function textOf(message: AIMessage): string {
+  return typeof message.content === 'string'
+    ? message.content
+    : message.content.map((part: any) => part.text ?? '').join(' ');
+}
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function substitute(value: unknown, match: RegExpExecArray | null): unknown {
+  if (typeof value === 'string') return value.replace(/\$(\d)/g, (_, group: string) => match?.[Number(group)] ?? '');
+  if (Array.isArray(value)) return value.map((item) => substitute(item, match));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, substitute(item, match)]));
+  }
+  return value;
+}
+
+function render(template: string, match: RegExpExecArray | null, results: ToolResult[]): string {
+  return (substitute(template, match) as string).replace(/\{\{\s*([\w-]+)((?:\.[\w-]+)*)\s*\}\}/g, (placeholder, tool: string, path: string) => {
+    let value: unknown = [...results].reverse().find((result) => result.name === tool)?.output;
+    for (const key of path.split('.').filter(Boolean)) {
+      value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    if (value === undefined) return placeholder;
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+}
+
+function excerpt(content: string): string {
+  const sentences = content.replace(/\s+/g, ' ').trim().match(/[^.!?]+[.!?]*/g) ?? [];
+  let text = '';
+  for (const sentence of sentences) {
+    if (text && text.length + sentence.length > 300) break;
+    text += sentence;
+  }
+  return text.trim();
+}
+
+function day(value: unknown): string {
+  const date = new Date(value as string);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toISOString().slice(0, 10);
+}
+
+function loadRules(file: string): Array<OfflineRule & { pattern: RegExp }> {
+  const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const rules: OfflineRule[] = Array.isArray(parsed) ? parsed : parsed.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error(`${file}: expected a list of rules or { "rules": [...] }`);
+  }
+  const compiled = rules.map((rule, index) => {
+    if (typeof rule.match !== 'string') throw new Error(`${file}: rule ${index + 1} has no match pattern`);
+    return { ...rule, pattern: new RegExp(rule.match, 'i') };
+  });
+  logger.info(`Offline LLM script loaded: ${compiled.length} rules from ${file}`);
+  return compiled;
+}
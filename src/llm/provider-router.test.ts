@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AICompletionRequest, AICompletionResponse, AIStreamChunk, IAIProvider } from '@hazeljs/ai';
+import { isLowConfidence } from './complexity';
+import { ProviderRouter, type CancellableRequest, type LlmTarget } from './provider-router';
+
+function target(provider: LlmTarget['provider'], client: Partial<IAIProvider>): LlmTarget {
+  return { provider, model: `${provider}-model`, client: client as IAIProvider };
+}
+
+function reply(content: string): AICompletionResponse {
+  return { id: 'r1', content, role: 'assistant', model: 'test' };
+}
+
+const request: AICompletionRequest = { messages: [{ role: 'user', content: 'Where is ORD-12345?' }] };
+
+test('streams a simple request from the standard chain instead of the fast tier', async () => {
+  const streamed: string[] = [];
+  const client = (name: string): Partial<IAIProvider> => ({
+    async *streamComplete(): AsyncGenerator<AIStreamChunk> {
+      streamed.push(name);
+      yield { id: 's1', content: name, delta: name, done: true };
+    },
+  });
+  const router = new ProviderRouter([target('openai', client('standard'))], [target('local', client('fast'))]);
+  const turn = router.begin('Where is ORD-12345?');
+
+  const chunks: AIStreamChunk[] = [];
+  for await (const chunk of turn.stream(() => router.streamComplete(request))) chunks.push(chunk);
+
+  assert.deepEqual(streamed, ['standard']);
+  assert.equal(chunks[0].content, 'standard');
+  assert.equal(turn.route!.tier, 'standard');
+});
+
+test('aborts a provider that times out and falls back to the next', async () => {
+  let aborted = false;
+  const slow: Partial<IAIProvider> = {
+    complete: (slowRequest: CancellableRequest) =>
+      new Promise<AICompletionResponse>(() => {
+        slowRequest.signal!.addEventListener('abort', () => (aborted = true));
+      }),
+  };
+  const router = new ProviderRouter(
+    [target('anthropic', slow), target('offline', { complete: async () => reply('Shipped') })],
+    [],
+    20
+  );
+  const turn = router.begin('Where is ORD-12345?');
+
+  const response = await turn.run(() => router.complete(request));
+
+  assert.equal(response.content, 'Shipped');
+  assert.equal(aborted, true);
+  assert.deepEqual(turn.route!.failed, ['anthropic:anthropic-model']);
+});
+
+test('checks tool calls against tools offered as functions or as tools', () => {
+  const lookupOrder = {
+    name: 'lookupOrder',
+    description: 'Find an order',
+    parameters: { type: 'object' as const, properties: {} },
+  };
+  const call = {
+    ...reply(''),
+    toolCalls: [{ id: 't1', type: 'function' as const, function: { name: 'lookupOrder', arguments: '{}' } }],
+  };
+
+  assert.equal(isLowConfidence(call, { ...request, functions: [lookupOrder] }), false);
+  assert.equal(isLowConfidence(call, { ...request, tools: [{ type: 'function', function: lookupOrder }] }), false);
+  assert.equal(isLowConfidence(call, request), true);
+});
@@ -0,0 +1,372 @@
+/**
+ * LLM provider router - Ordered fallback across OpenAI, Anthropic, a local
+ * OpenAI-compatible endpoint and the offline model
+ * LLM_PROVIDERS lists the chain as `provider[:model]` entries; a provider
+ * that errors or does not answer within LLM_TIMEOUT_MS hands the request to
+ * the next. When LLM_FAST_PROVIDERS is set, simple requests start on that
+ * cheaper chain and move to the standard one for the rest of the turn once an
+ * answer looks low confidence; streams always use the standard chain. A chat
+ * request may also pin a configured provider or model, which is tried before
+ * the chain.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import logger from '@hazeljs/core';
+import { OpenAIProvider } from '@hazeljs/ai';
+import type {
+  AICompletionRequest,
+  AICompletionResponse,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
+  AIProvider,
+  AIStreamChunk,
+  IAIProvider,
+} from '@hazeljs/ai';
+import { AnthropicChatProvider } from './anthropic-chat.provider';
+import { classifyComplexity, isLowConfidence } from './complexity';
+import { OFFLINE_MODEL, OfflineChatProvider } from './offline-chat.provider';
+
+export const LLM_PROVIDER_NAMES = ['openai', 'anthropic', 'local', 'offline'] as const;
+export type LlmProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+/** Requests carry an AbortSignal that fires on LLM_TIMEOUT_MS, for providers that can cancel their call */
+export type CancellableRequest = AICompletionRequest & { signal?: AbortSignal };
+
+export interface LlmTarget {
+  provider: LlmProviderName;
+  model: string;
+  client: IAIProvider;
+}
+
+/** Which provider and model produced a chat reply */
+export interface LlmRoute {
+  provider: LlmProviderName;
+  model: string;
+  /** `fast` when a simple request was answered by LLM_FAST_PROVIDERS */
+  tier: 'fast' | 'standard';
+  /** The fast tier's answer looked low confidence, so the turn moved to the standard chain */
+  escalated?: boolean;
+  /** `provider:model` entries that failed or timed out during the turn, in order */
+  failed?: string[];
+}
+
+interface TurnState {
+  pinned?: LlmTarget;
+  tier: 'fast' | 'standard';
+  escalated: boolean;
+  failed: string[];
+  route?: LlmRoute;
+}
+
+/** One chat turn: LLM calls made inside `run` or `stream` share its tier and report their route here */
+export class LlmTurn {
+  constructor(
+    private storage: AsyncLocalStorage<TurnState>,
+    private state: TurnState
+  ) {}
+
+  get route(): LlmRoute | undefined {
+    return this.state.route;
+  }
+
+  run<T>(fn: () => Promise<T>): Promise<T> {
+    return this.storage.run(this.state, fn);
+  }
+
+  /** Iterates `source` with every step inside the turn, so calls made between yields see it too */
+  async *stream<T>(source: () => AsyncIterable<T>): AsyncGenerator<T> {
+    const iterator = this.storage.run(this.state, () => source()[Symbol.asyncIterator]());
+    for (;;) {
+      const next = await this.storage.run(this.state, () => iterator.next());
+      if (next.done) return;
+      yield next.value;
+    }
+  }
+}
+
+export class ProviderRouter implements IAIProvider {
+  /** HazelAI sends chat, HCEL and agent runtime requests to its default provider slot, so the router takes its place */
+  readonly name: AIProvider = 'openai';
+  private turns = new AsyncLocalStorage<TurnState>();
+
+  constructor(
+    private standard: LlmTarget[],
+    private fast: LlmTarget[] = [],
+    private timeoutMs = 30000
+  ) {}
+
+  get size(): number {
+    return this.standard.length + this.fast.length;
+  }
+
+  has(provider: LlmProviderName): boolean {
+    return [...this.standard, ...this.fast].some((target) => target.provider === provider);
+  }
+
+  /** Configured `provider:model` entries, standard chain first */
+  models(): string[] {
+    return dedupe([...this.standard, ...this.fast]).map(keyOf);
+  }
+
+  /** Whether `begin` accepts `selection` as a pinned `provider` or `provider:model` */
+  accepts(selection: string): boolean {
+    return this.find(selection) !== undefined;
+  }
+
+  describe(): string {
+    const chain = (targets: LlmTarget[]) => targets.map(keyOf).join(' → ') || '(none)';
+    return this.fast.length ? `${chain(this.standard)}, fast tier ${chain(this.fast)}` : chain(this.standard);
+  }
+
+  /**
+   * Starts a chat turn for `message`. `model` pins a configured `provider` or
+   * `provider:model` and skips the fast tier; unknown values are rejected.
+   */
+  begin(message: string, model?: string): LlmTurn {
+    const pinned = model ? this.resolve(model) : undefined;
+    const tier = !pinned && this.fast.length && classifyComplexity(message) === 'simple' ? 'fast' : 'standard';
+    return new LlmTurn(this.turns, { pinned, tier, escalated: false, failed: [] });
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletionResponse> {
+    const turn = this.currentTurn();
+
+    if (turn.tier === 'fast') {
+      const response = await this.attempt(this.fast, request, turn).catch(() => null);
+      if (response && !isLowConfidence(response, request)) return response;
+      turn.tier = 'standard';
+      if (response) {
+        turn.escalated = true;
+        logger.info('Fast tier answer looked low confidence, escalating to the standard chain');
+      }
+    }
+    return this.attempt(this.chain(turn), request, turn);
+  }
+
+  /**
+   * Streams from the standard chain, even in a fast-tier turn: chunks are passed on as
+   * they arrive, so a fast-tier answer could not be checked for low confidence before
+   * the client sees it. Falls back only until the first chunk arrives; a provider
+   * failing mid-stream ends the stream.
+   */
+  async *streamComplete(request: AICompletionRequest): AsyncGenerator<AIStreamChunk> {
+    const turn = this.currentTurn();
+    const errors: string[] = [];
+
+    for (const target of this.chain(turn)) {
+      let iterator: AsyncIterator<AIStreamChunk>;
+      let first: IteratorResult<AIStreamChunk>;
+      try {
+        first = await withTimeout(
+          (signal) => {
+            const cancellable: CancellableRequest = { ...request, model: target.model, signal };
+            iterator = target.client.streamComplete(cancellable)[Symbol.asyncIterator]();
+            return iterator.next();
+          },
+          this.timeoutMs,
+          keyOf(target)
+        );
+      } catch (error) {
+        this.recordFailure(turn, target, error, errors);
+        continue;
+      }
+
+      this.recordRoute(turn, target, target.model, 'standard');
+      if (first.done) return;
+      yield first.value;
+      for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+        yield next.value;
+      }
+      return;
+    }
+    throw new Error(`All LLM providers failed: ${errors.join('; ') || 'none configured'}`);
+  }
+
+  async embed(request: AIEmbeddingRequest): Promise<AIEmbeddingResponse> {
+    const errors: string[] = [];
+    for (const target of dedupe([...this.standard, ...this.fast])) {
+      try {
+        return await target.client.embed(request);
+      } catch (error) {
+        errors.push(`${keyOf(target)}: ${messageOf(error)}`);
+      }
+    }
+    throw new Error(`No LLM provider could embed: ${errors.join('; ') || 'none configured'}`);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    for (const target of dedupe([...this.standard, ...this.fast])) {
+      if (await target.client.isAvailable().catch(() => false)) return true;
+    }
+    return false;
+  }
+
+  /** Calls outside a chat turn (e.g. an agent resumed by an approval) use the standard chain */
+  private currentTurn(): TurnState {
+    return this.turns.getStore() ?? { tier: 'standard', escalated: false, failed: [] };
+  }
+
+  /** Targets for a standard-tier call: the pinned one first, then the configured chain */
+  private chain(turn: TurnState): LlmTarget[] {
+    return turn.pinned ? dedupe([turn.pinned, ...this.standard]) : this.standard;
+  }
+
+  private async attempt(
+    targets: LlmTarget[],
+    request: AICompletionRequest,
+    turn: TurnState
+  ): Promise<AICompletionResponse> {
+    const errors: string[] = [];
+    for (const target of targets) {
+      try {
+        const response = await withTimeout<AICompletionResponse>(
+          (signal) => {
+            const cancellable: CancellableRequest = { ...request, model: target.model, signal };
+            return target.client.complete(cancellable);
+          },
+          this.timeoutMs,
+          keyOf(target)
+        );
+        this.recordRoute(turn, target, response.model || target.model, this.fast.includes(target) ? 'fast' : 'standard');
+        return response;
+      } catch (error) {
+        this.recordFailure(turn, target, error, errors);
+      }
+    }
+    throw new Error(`All LLM providers failed: ${errors.join('; ') || 'none configured'}`);
+  }
+
+  private recordRoute(turn: TurnState, target: LlmTarget, model: string, tier: LlmRoute['tier']): void {
+    turn.route = {
+      provider: target.provider,
+      model,
+      tier,
+      ...(turn.escalated ? { escalated: true } : {}),
+      ...(turn.failed.length ? { failed: [...turn.failed] } : {}),
+    };
+  }
+
+  private recordFailure(turn: TurnState, target: LlmTarget, error: unknown, errors: string[]): void {
+    const key = keyOf(target);
+    logger.warn(`LLM provider ${key} failed, trying the next one: ${messageOf(error)}`);
+    errors.push(`${key}: ${messageOf(error)}`);
+    if (!turn.failed.includes(key)) turn.failed.push(key);
+  }
+
+  private resolve(selection: string): LlmTarget {
+    const target = this.find(selection);
+    if (!target) {
+      throw new Error(`Unknown model '${selection}'; configured: ${this.models().join(', ') || 'none'}`);
+    }
+    return target;
+  }
+
+  private find(selection: string): LlmTarget | undefined {
+    const [provider, model] = splitEntry(selection);
+    return dedupe([...this.standard, ...this.fast]).find(
+      (candidate) => candidate.provider === provider && (model === undefined || candidate.model === model)
+    );
+  }
+}
+
+/**
+ * Builds the router from LLM_PROVIDERS (default: LLM_PROVIDER, then `openai`)
+ * and LLM_FAST_PROVIDERS. Entries whose provider has no credentials are
+ * skipped with a warning.
+ */
+export function createProviderRouter(): ProviderRouter {
+  const clients = new Map<LlmProviderName, IAIProvider | null>();
+  const parse = (list: string | undefined): LlmTarget[] =>
+    (list ?? '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .flatMap((entry) => {
+        const [provider, model] = splitEntry(entry);
+        if (!(LLM_PROVIDER_NAMES as readonly string[]).includes(provider)) {
+          logger.warn(`Unknown LLM provider '${provider}' in '${entry}', skipped`);
+          return [];
+        }
+        const name = provider as LlmProviderName;
+        if (!clients.has(name)) clients.set(name, createClient(name));
+        const client = clients.get(name);
+        return client ? [{ provider: name, model: model || defaultModel(name), client }] : [];
+      });
+
+  return new ProviderRouter(
+    parse(process.env.LLM_PROVIDERS || process.env.LLM_PROVIDER || 'openai'),
+    parse(process.env.LLM_FAST_PROVIDERS),
+    parseInt(process.env.LLM_TIMEOUT_MS || '30000', 10)
+  );
+}
+
+function createClient(provider: LlmProviderName): IAIProvider | null {
+  switch (provider) {
+    case 'openai':
+      if (process.env.OPENAI_API_KEY?.trim()) return new OpenAIProvider(process.env.OPENAI_API_KEY);
+      logger.warn('LLM provider openai skipped: OPENAI_API_KEY is not set');
+      return null;
+    case 'anthropic':
+      if (process.env.ANTHROPIC_API_KEY?.trim()) return new AnthropicChatProvider(process.env.ANTHROPIC_API_KEY);
+      logger.warn('LLM provider anthropic skipped: ANTHROPIC_API_KEY is not set');
+      return null;
+    case 'local':
+      if (process.env.LOCAL_LLM_BASE_URL) {
+        return new OpenAIProvider(process.env.LOCAL_LLM_API_KEY || 'local', { baseURL: process.env.LOCAL_LLM_BASE_URL });
+      }
+      logger.warn('LLM provider local skipped: LOCAL_LLM_BASE_URL is not set');
+      return null;
+    case 'offline':
+      return new OfflineChatProvider();
+  }
+}
+
+function defaultModel(provider: LlmProviderName): string {
+  switch (provider) {
+    case 'openai':
+      return process.env.OPENAI_MODEL || 'gpt-4o-mini';
+    case 'anthropic':
+      return process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-20250514';
+    case 'local':
+      return process.env.LOCAL_LLM_MODEL || 'llama3.1';
+    case 'offline':
+      return OFFLINE_MODEL;
+  }
+}
+
+/** `provider:model`, split at the first colon since local model names often contain one (`llama3.1:8b`) */
+function splitEntry(entry: string): [string, string | undefined] {
+  const colon = entry.indexOf(':');
+  return colon === -1
+    ? [entry.trim().toLowerCase(), undefined]
+    : [entry.slice(0, colon).trim().toLowerCase(), entry.slice(colon + 1).trim() || undefined];
+}
+
+function keyOf(target: LlmTarget): string {
+  return `${target.provider}:${target.model}`;
+}
+
+function dedupe(targets: LlmTarget[]): LlmTarget[] {
+  return targets.filter((target, index) => targets.findIndex((other) => keyOf(other) === keyOf(target)) === index);
+}
+
+/**
+ * Runs `call` with a signal that aborts after `ms`. Providers that ignore the
+ * signal (@hazeljs/ai's OpenAIProvider has no cancellation) finish in the
+ * background and their late answer is dropped.
+ */
+function withTimeout<T>(call: (signal: AbortSignal) => Promise<T>, ms: number, label: string): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`${label} timed out after ${ms}ms`));
+    }, ms);
+  });
+  return Promise.race([call(controller.signal), timeout]).finally(() => clearTimeout(timer));
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
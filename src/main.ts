@@ -11,6 +11,9 @@ import { AppModule } from './app.module';
 import { SwaggerModule } from '@hazeljs/swagger';
 import { CSRGateway } from './csr/csr.gateway';
 import { CSRService } from './csr/csr.service';
+import { PersistenceService } from './persistence/persistence.service';
+import { TicketWorker } from './workers/ticket.worker';
+import { InventoryWorker } from './workers/inventory.worker';
 import logger from '@hazeljs/core';
 
 const PORT = parseInt(process.env.PORT || '3000', 10);
@@ -20,6 +23,9 @@ async function bootstrap(): Promise<void> {
   const app = new HazelApp(AppModule);
   SwaggerModule.setRootModule(AppModule);
 
+  // Migrate and seed the configured store before anything reads from it, then accept requests
+  const persistence = app.getContainer().resolve(PersistenceService);
+  await persistence.initialize();
   await app.listen(PORT);
 
   // Initialize CSR service (RAG, memory)
@@ -32,6 +38,15 @@ async function bootstrap(): Promise<void> {
     logger.warn('CSR service init:', err);
   }
 
+  // Start queue workers (Redis queue when REDIS_HOST is set, in-process otherwise)
+  try {
+    const container = app.getContainer();
+    container.resolve(TicketWorker).start();
+    await container.resolve(InventoryWorker).start();
+  } catch (err) {
+    logger.warn('Queue workers not started:', err);
+  }
+
   // Start WebSocket server for real-time CSR chat
   try {
     const container = app.getContainer();
@@ -0,0 +1,41 @@
+/**
+ * Persistence CLI - Runs migrations and loads seed fixtures into a SQL store
+ * Usage: npm run db:migrate | npm run db:seed (uses PERSISTENCE_DRIVER, SQLITE_PATH, DATABASE_URL)
+ */
+
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import logger from '@hazeljs/core';
+import { seedRepositories } from './fixtures';
+import { migrate } from './migrations';
+import { connectSql, createRepositories } from './persistence.service';
+import { SqlRepository } from './sql.repository';
+
+async function run(command: string | undefined): Promise<void> {
+  if (command !== 'migrate' && command !== 'seed') {
+    throw new Error('Usage: cli.ts <migrate|seed>');
+  }
+  const driver = (process.env.PERSISTENCE_DRIVER || '').toLowerCase();
+  if (driver !== 'sqlite' && driver !== 'postgres') {
+    throw new Error('Set PERSISTENCE_DRIVER to sqlite or postgres');
+  }
+
+  const client = await connectSql(driver);
+  try {
+    const ran = await migrate(client);
+    logger.info(ran.length ? `Applied ${ran.join(', ')}` : 'Schema is up to date');
+
+    if (command === 'seed') {
+      await seedRepositories(createRepositories((collection) => new SqlRepository(Promise.resolve(client), collection)));
+      logger.info(`Seed fixtures loaded into ${driver}`);
+    }
+  } finally {
+    await client.close();
+  }
+}
+
+run(process.argv[2]).catch((err) => {
+  logger.error('Persistence command failed:', err);
+  process.exit(1);
+});
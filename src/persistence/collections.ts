@@ -0,0 +1,154 @@
+/**
+ * Collection definitions - Table name, key and indexed fields per entity
+ */
+
+import type { Order } from '../services/order.service';
+import type { Ticket } from '../services/ticket.service';
+import type { RefundResult } from '../services/refund.service';
+import type { ReturnRequest } from '../services/return.service';
+import type { Customer } from '../services/customer.service';
+import type {
+  BackInStockSubscription,
+  Product,
+  Reservation,
+  StockLevel,
+  Warehouse,
+} from '../services/inventory.service';
+import type { ConversationMessage, ConversationSession } from '../services/conversation.service';
+import type { CustomerMemoryItem } from '../services/customer-memory.service';
+import type { KnowledgeDocument } from '../services/knowledge-base.service';
+import type { CitationAuditEntry } from '../services/citation-audit.service';
+import type { DeadLetter } from '../workers/ticket.worker';
+
+export interface CollectionDefinition<T> {
+  table: string;
+  idOf(entity: T): string;
+  /** Column name → value extractor; each becomes an indexed SQL column */
+  indexes: Record<string, (entity: T) => string | undefined>;
+  /** Property names, at any depth, that hold Dates; only these are revived when a document is read back */
+  dates: string[];
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/** JSON reviver turning the collection's date fields back into Dates; any other string is left as written */
+export function dateReviver<T>(collection: CollectionDefinition<T>): (key: string, value: unknown) => unknown {
+  return (key, value) =>
+    typeof value === 'string' && collection.dates.includes(key) && ISO_DATE.test(value) ? new Date(value) : value;
+}
+
+export const ORDERS: CollectionDefinition<Order> = {
+  table: 'orders',
+  idOf: (order) => order.id,
+  indexes: { customer_id: (order) => order.customerId, status: (order) => order.status },
+  dates: ['createdAt', 'estimatedDelivery', 'cancelledAt', 'changedAt'],
+};
+
+export const TICKETS: CollectionDefinition<Ticket> = {
+  table: 'tickets',
+  idOf: (ticket) => ticket.id,
+  indexes: { user_id: (ticket) => ticket.userId, status: (ticket) => ticket.status },
+  dates: ['createdAt', 'updatedAt', 'slaDueAt', 'redactedAt', 'at'],
+};
+
+export const TICKET_DEAD_LETTERS: CollectionDefinition<DeadLetter> = {
+  table: 'ticket_dead_letters',
+  idOf: (letter) => letter.id,
+  indexes: { ticket_id: (letter) => letter.data.ticketId },
+  dates: ['failedAt'],
+};
+
+export const REFUNDS: CollectionDefinition<RefundResult> = {
+  table: 'refunds',
+  idOf: (refund) => refund.id,
+  indexes: { order_id: (refund) => refund.orderId, status: (refund) => refund.status },
+  dates: ['createdAt', 'updatedAt', 'at'],
+};
+
+export const RETURNS: CollectionDefinition<ReturnRequest> = {
+  table: 'returns',
+  idOf: (rma) => rma.rmaNumber,
+  indexes: { order_id: (rma) => rma.orderId, status: (rma) => rma.status },
+  dates: ['createdAt', 'receivedAt', 'expiresAt'],
+};
+
+export const CUSTOMERS: CollectionDefinition<Customer> = {
+  table: 'customers',
+  idOf: (customer) => customer.id,
+  indexes: { email: (customer) => customer.email },
+  dates: [],
+};
+
+export const WAREHOUSES: CollectionDefinition<Warehouse> = {
+  table: 'warehouses',
+  idOf: (warehouse) => warehouse.id,
+  indexes: {},
+  dates: [],
+};
+
+export const PRODUCTS: CollectionDefinition<Product> = {
+  table: 'products',
+  idOf: (product) => product.id,
+  indexes: { category: (product) => product.category },
+  dates: [],
+};
+
+export const STOCK_LEVELS: CollectionDefinition<StockLevel> = {
+  table: 'stock_levels',
+  idOf: (level) => `${level.sku}@${level.warehouseId}`,
+  indexes: { sku: (level) => level.sku },
+  dates: ['nextRestock'],
+};
+
+export const RESERVATIONS: CollectionDefinition<Reservation> = {
+  table: 'reservations',
+  idOf: (reservation) => reservation.id,
+  indexes: { sku: (reservation) => reservation.sku, status: (reservation) => reservation.status },
+  dates: ['createdAt', 'expiresAt'],
+};
+
+export const BACK_IN_STOCK_SUBSCRIPTIONS: CollectionDefinition<BackInStockSubscription> = {
+  table: 'back_in_stock_subscriptions',
+  idOf: (subscription) => subscription.id,
+  indexes: { sku: (subscription) => subscription.sku },
+  dates: ['createdAt', 'notifiedAt'],
+};
+
+export const CONVERSATION_SESSIONS: CollectionDefinition<ConversationSession> = {
+  table: 'conversation_sessions',
+  idOf: (session) => session.id,
+  indexes: { user_id: (session) => session.userId },
+  dates: ['startedAt', 'lastMessageAt'],
+};
+
+export const CONVERSATION_MESSAGES: CollectionDefinition<ConversationMessage> = {
+  table: 'conversation_messages',
+  idOf: (message) => message.id,
+  indexes: { session_id: (message) => message.sessionId },
+  dates: ['createdAt'],
+};
+
+export const MEMORY_ITEMS: CollectionDefinition<CustomerMemoryItem> = {
+  table: 'memory_items',
+  idOf: (item) => item.id,
+  indexes: { user_id: (item) => item.userId },
+  dates: ['createdAt', 'updatedAt'],
+};
+
+export const KNOWLEDGE_DOCUMENTS: CollectionDefinition<KnowledgeDocument> = {
+  table: 'knowledge_documents',
+  idOf: (document) => document.id,
+  indexes: { user_id: (document) => document.userId },
+  dates: ['ingestedAt', 'updatedAt', 'effectiveFrom', 'effectiveTo'],
+};
+
+export const KNOWLEDGE_CITATIONS: CollectionDefinition<CitationAuditEntry> = {
+  table: 'knowledge_citations',
+  idOf: (entry) => entry.id,
+  indexes: {
+    session_id: (entry) => entry.sessionId,
+    user_id: (entry) => entry.userId,
+    document_key: (entry) => entry.documentKey,
+  },
+  dates: ['createdAt', 'effectiveFrom', 'effectiveTo'],
+};
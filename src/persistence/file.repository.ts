@@ -0,0 +1,65 @@
+/**
+ * JSON file repository - Keeps a collection in one JSON file (`<dir>/<table>.json`)
+ * Meant for single-process local runs; the whole file is rewritten on every change.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { dateReviver, type CollectionDefinition } from './collections';
+import { InMemoryRepository } from './memory.repository';
+
+export class JsonFileRepository<T> extends InMemoryRepository<T> {
+  private readonly file: string;
+  private loaded: Promise<void>;
+
+  constructor(collection: CollectionDefinition<T>, directory: string) {
+    super(collection);
+    this.file = path.join(directory, `${collection.table}.json`);
+    this.loaded = this.load();
+  }
+
+  async findById(id: string): Promise<T | null> {
+    await this.loaded;
+    return super.findById(id);
+  }
+
+  async findAll(): Promise<T[]> {
+    await this.loaded;
+    return super.findAll();
+  }
+
+  async findBy(index: string, value: string): Promise<T[]> {
+    await this.loaded;
+    return super.findBy(index, value);
+  }
+
+  async save(entity: T): Promise<T> {
+    await this.loaded;
+    await super.save(entity);
+    await this.flush();
+    return entity;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.loaded;
+    const deleted = await super.delete(id);
+    if (deleted) await this.flush();
+    return deleted;
+  }
+
+  async count(): Promise<number> {
+    await this.loaded;
+    return super.count();
+  }
+
+  private async load(): Promise<void> {
+    if (!fs.existsSync(this.file)) return;
+    const items = JSON.parse(fs.readFileSync(this.file, 'utf8'), dateReviver(this.collection)) as T[];
+    for (const item of items) await super.save(item);
+  }
+
+  private async flush(): Promise<void> {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(await super.findAll(), null, 2));
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Seed fixtures - Sample customers, orders and inventory loaded into a fresh store
+ * Dates are relative to load time so windows (returns, refunds, SLA) stay realistic.
+ */
+
+import type { Customer } from '../services/customer.service';
+import type { Order } from '../services/order.service';
+import type { Product, StockLevel, Warehouse } from '../services/inventory.service';
+import type { Repositories } from './repository';
+
+export interface SeedFixtures {
+  customers: Customer[];
+  orders: Order[];
+  warehouses: Warehouse[];
+  products: Product[];
+  stock: StockLevel[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function loadFixtures(now = Date.now()): SeedFixtures {
+  const daysFromNow = (days: number) => new Date(now + days * DAY_MS);
+  const springfield = { city: 'Springfield', region: 'IL', postalCode: '12345', country: 'US' };
+  const riverside = { line1: '789 Pine Rd', city: 'Riverside', region: 'CA', postalCode: '54321', country: 'US' };
+
+  const customers: Customer[] = [
+    {
+      id: 'cust-001',
+      name: 'Jane Doe',
+      email: 'jane.doe@example.com',
+      phone: '+15555550101',
+      postalCode: '12345',
+      orderIds: ['ORD-12345', 'ORD-12346', 'ORD-12348', 'ORD-12349'],
+    },
+    {
+      id: 'cust-002',
+      name: 'John Smith',
+      email: 'john.smith@example.com',
+      phone: '+15555550102',
+      postalCode: '54321',
+      orderIds: ['ORD-12347', 'ORD-12350'],
+    },
+  ];
+
+  const orders: Order[] = [
+    {
+      id: 'ORD-12345',
+      customerId: 'cust-001',
+      status: 'shipped',
+      items: [{ sku: 'PROD-001', name: 'Product A', quantity: 2, price: 49.99 }],
+      total: 99.99,
+      shippingAddress: { line1: '123 Main St', ...springfield },
+      addressHistory: [],
+      trackingNumber: 'TRACK123',
+      estimatedDelivery: daysFromNow(2),
+      createdAt: daysFromNow(0),
+    },
+    {
+      id: 'ORD-12346',
+      customerId: 'cust-001',
+      status: 'delivered',
+      items: [{ sku: 'PROD-002', name: 'Product B', quantity: 1, price: 19.99 }],
+      total: 19.99,
+      shippingAddress: { line1: '456 Oak Ave', ...springfield },
+      addressHistory: [],
+      trackingNumber: 'TRACK456',
+      createdAt: daysFromNow(-10),
+    },
+    {
+      id: 'ORD-12347',
+      customerId: 'cust-002',
+      status: 'pending',
+      items: [{ sku: 'PROD-003', name: 'Product C', quantity: 1, price: 649.0 }],
+      total: 649.0,
+      shippingAddress: { ...riverside },
+      addressHistory: [],
+      createdAt: daysFromNow(0),
+    },
+    {
+      id: 'ORD-12348',
+      customerId: 'cust-001',
+      status: 'delivered',
+      items: [
+        { sku: 'PROD-001', name: 'Product A', quantity: 1, price: 49.99 },
+        { sku: 'PROD-002', name: 'Product B', quantity: 2, price: 19.99 },
+      ],
+      total: 89.97,
+      shippingAddress: { line1: '123 Main St', ...springfield },
+      addressHistory: [],
+      trackingNumber: 'TRACK789',
+      createdAt: daysFromNow(-5),
+    },
+    {
+      id: 'ORD-12349',
+      customerId: 'cust-001',
+      status: 'processing',
+      items: [{ sku: 'PROD-003', name: 'Product C', quantity: 1, price: 649.0 }],
+      total: 649.0,
+      shippingAddress: { line1: '123 Main St', ...springfield },
+      addressHistory: [],
+      createdAt: daysFromNow(-2),
+    },
+    {
+      id: 'ORD-12350',
+      customerId: 'cust-002',
+      status: 'shipped',
+      items: [{ sku: 'PROD-001', name: 'Product A', quantity: 1, price: 49.99 }],
+      total: 49.99,
+      shippingAddress: { ...riverside },
+      addressHistory: [],
+      trackingNumber: 'TRACK999',
+      estimatedDelivery: daysFromNow(-5),
+      createdAt: daysFromNow(-13),
+    },
+  ];
+
+  const warehouses: Warehouse[] = [
+    { id: 'WH-CHI', name: 'Chicago DC', city: 'Chicago', region: 'IL', country: 'US' },
+    { id: 'WH-LAX', name: 'Los Angeles DC', city: 'Los Angeles', region: 'CA', country: 'US' },
+  ];
+
+  const products: Product[] = [
+    product('PROD-001', 'Product A', 'apparel', ['jacket', 'outdoor', 'waterproof'], ['S', 'M', 'L']),
+    product('PROD-002', 'Product B', 'apparel', ['jacket', 'outdoor', 'lightweight'], ['S', 'M', 'L']),
+    product('PROD-003', 'Product C', 'electronics', ['camera'], []),
+    product('PROD-004', 'Product D', 'apparel', ['jacket', 'outdoor', 'insulated'], ['M', 'L']),
+  ];
+
+  const level = (sku: string, warehouseId: string, onHand: number, restockInDays?: number, restockQuantity?: number) => ({
+    sku,
+    warehouseId,
+    onHand,
+    nextRestock: restockInDays !== undefined ? daysFromNow(restockInDays) : undefined,
+    restockQuantity,
+  });
+  const stock: StockLevel[] = [
+    level('PROD-001-S', 'WH-CHI', 4),
+    level('PROD-001-M', 'WH-CHI', 0, 7, 20),
+    level('PROD-001-M', 'WH-LAX', 2),
+    level('PROD-001-L', 'WH-LAX', 4),
+    level('PROD-002-S', 'WH-CHI', 0, 3, 10),
+    level('PROD-002-M', 'WH-CHI', 0, 3, 10),
+    level('PROD-002-L', 'WH-LAX', 0, 5, 10),
+    level('PROD-003', 'WH-LAX', 6),
+    level('PROD-004-M', 'WH-CHI', 8),
+    level('PROD-004-L', 'WH-CHI', 3),
+  ];
+
+  return { customers, orders, warehouses, products, stock };
+}
+
+function product(id: string, name: string, category: string, tags: string[], sizes: string[]): Product {
+  const variants = sizes.length
+    ? sizes.map((size) => ({ sku: `${id}-${size}`, productId: id, attributes: { size } }))
+    : [{ sku: id, productId: id, attributes: {} }];
+  return { id, name, category, tags, variants };
+}
+
+/** Upserts the fixtures by ID, so seeding twice is harmless */
+export async function seedRepositories(repositories: Repositories, fixtures = loadFixtures()): Promise<void> {
+  for (const customer of fixtures.customers) await repositories.customers.save(customer);
+  for (const order of fixtures.orders) await repositories.orders.save(order);
+  for (const warehouse of fixtures.warehouses) await repositories.inventory.warehouses.save(warehouse);
+  for (const item of fixtures.products) await repositories.inventory.products.save(item);
+  for (const level of fixtures.stock) await repositories.inventory.stock.save(level);
+}
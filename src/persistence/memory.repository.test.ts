@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TICKETS } from './collections';
+import { InMemoryRepository } from './memory.repository';
+import type { Ticket } from '../services/ticket.service';
+
+function ticket(description: string): Ticket {
+  const now = new Date();
+  return {
+    id: 'TKT-1',
+    subject: 'Parcel missing',
+    description,
+    priority: 'medium',
+    status: 'open',
+    slaDueAt: now,
+    comments: [],
+    history: [{ to: 'open', by: 'system', at: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+test('reads return copies, so only save changes what is stored', async () => {
+  const repository = new InMemoryRepository(TICKETS);
+  const saved = ticket('Never arrived');
+  await repository.save(saved);
+
+  saved.status = 'closed';
+  const read = await repository.findById('TKT-1');
+  read.comments.push({ id: 'c1', author: 'agent', body: 'Checking', internal: true, createdAt: new Date() });
+
+  const stored = await repository.findById('TKT-1');
+  assert.equal(stored.status, 'open');
+  assert.equal(stored.comments.length, 0);
+});
+
+test('revives the collection date fields and leaves other ISO-shaped strings alone', async () => {
+  const repository = new InMemoryRepository(TICKETS);
+  await repository.save(ticket('2026-01-02T03:04:05.000Z'));
+
+  const [stored] = await repository.findBy('status', 'open');
+  assert.ok(stored.createdAt instanceof Date);
+  assert.ok(stored.history[0].at instanceof Date);
+  assert.equal(stored.description, '2026-01-02T03:04:05.000Z');
+});
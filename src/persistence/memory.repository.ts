@@ -0,0 +1,51 @@
+/**
+ * In-memory repository - Default adapter; data lives for the life of the process
+ * Documents are kept serialized like the other adapters store them, so callers
+ * get a copy on every read and only `save` changes what is stored.
+ */
+
+import { dateReviver, type CollectionDefinition } from './collections';
+import type { Repository } from './repository';
+
+export class InMemoryRepository<T> implements Repository<T> {
+  private items: Map<string, string> = new Map();
+  private readonly revive: (key: string, value: unknown) => unknown;
+
+  constructor(protected collection: CollectionDefinition<T>) {
+    this.revive = dateReviver(collection);
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const raw = this.items.get(id);
+    return raw ? this.parse(raw) : null;
+  }
+
+  async findAll(): Promise<T[]> {
+    return Array.from(this.items.values()).map((raw) => this.parse(raw));
+  }
+
+  async findBy(index: string, value: string): Promise<T[]> {
+    const extract = this.collection.indexes[index];
+    if (!extract) {
+      throw new Error(`${this.collection.table} has no index '${index}'`);
+    }
+    return (await this.findAll()).filter((item) => extract(item) === value);
+  }
+
+  async save(entity: T): Promise<T> {
+    this.items.set(this.collection.idOf(entity), JSON.stringify(entity));
+    return entity;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.items.delete(id);
+  }
+
+  async count(): Promise<number> {
+    return this.items.size;
+  }
+
+  private parse(raw: string): T {
+    return JSON.parse(raw, this.revive) as T;
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Migrations - Versioned schema for the SQL adapters
+ * Each entity is stored as a JSON document plus its indexed columns, so the
+ * same DDL runs on SQLite and Postgres. Append new migrations; never edit applied ones.
+ */
+
+import logger from '@hazeljs/core';
+import type { SqlClient } from './sql-client';
+
+export interface Migration {
+  id: string;
+  statements: string[];
+}
+
+function documentTable(table: string, indexes: string[]): string[] {
+  const columns = indexes.map((column) => `${column} TEXT`);
+  return [
+    `CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, ${[...columns, 'data TEXT NOT NULL', 'updated_at TEXT NOT NULL'].join(', ')})`,
+    ...indexes.map((column) => `CREATE INDEX IF NOT EXISTS idx_${table}_${column} ON ${table} (${column})`),
+  ];
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    id: '001_orders_tickets_refunds',
+    statements: [
+      ...documentTable('orders', ['customer_id', 'status']),
+      ...documentTable('tickets', ['user_id', 'status']),
+      ...documentTable('refunds', ['order_id', 'status']),
+    ],
+  },
+  {
+    id: '002_inventory',
+    statements: [
+      ...documentTable('warehouses', []),
+      ...documentTable('products', ['category']),
+      ...documentTable('stock_levels', ['sku']),
+      ...documentTable('reservations', ['sku', 'status']),
+      ...documentTable('back_in_stock_subscriptions', ['sku']),
+    ],
+  },
+  {
+    id: '003_conversations',
+    statements: [
+      ...documentTable('conversation_sessions', ['user_id']),
+      ...documentTable('conversation_messages', ['session_id']),
+    ],
+  },
+  {
+    id: '004_memory_items',
+    statements: documentTable('memory_items', ['user_id']),
+  },
+  {
+    id: '005_knowledge_documents',
+    statements: documentTable('knowledge_documents', ['user_id']),
+  },
+  {
+    id: '006_knowledge_citations',
+    statements: documentTable('knowledge_citations', ['session_id', 'user_id', 'document_key']),
+  },
+  {
+    id: '007_ticket_dead_letters',
+    statements: documentTable('ticket_dead_letters', ['ticket_id']),
+  },
+  {
+    id: '008_returns_customers',
+    statements: [
+      ...documentTable('returns', ['order_id', 'status']),
+      ...documentTable('customers', ['email']),
+    ],
+  },
+];
+
+/** Applies pending migrations in order; returns the IDs that ran */
+export async function migrate(client: SqlClient): Promise<string[]> {
+  await client.execute('CREATE TABLE IF NOT EXISTS schema_migrations (id TEXT PRIMARY KEY, applied_at TEXT NOT NULL)');
+  const applied = new Set(
+    (await client.query<{ id: string }>('SELECT id FROM schema_migrations')).map((row) => row.id)
+  );
+
+  const ran: string[] = [];
+  for (const migration of MIGRATIONS) {
+    if (applied.has(migration.id)) continue;
+    for (const statement of migration.statements) {
+      await client.execute(statement);
+    }
+    await client.execute('INSERT INTO schema_migrations (id, applied_at) VALUES (?, ?)', [
+      migration.id,
+      new Date().toISOString(),
+    ]);
+    logger.info(`[persistence] applied migration ${migration.id}`);
+    ran.push(migration.id);
+  }
+  return ran;
+}
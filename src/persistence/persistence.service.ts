@@ -0,0 +1,164 @@
+/**
+ * Persistence Service - Selects the storage adapter behind the domain services
+ * PERSISTENCE_DRIVER picks `memory` (default), `sqlite` (SQLITE_PATH) or
+ * `postgres` (DATABASE_URL). SQL stores are migrated on startup and seeded
+ * with the sample fixtures while empty, unless PERSISTENCE_SEED=false.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from '@hazeljs/core';
+import {
+  BACK_IN_STOCK_SUBSCRIPTIONS,
+  CONVERSATION_MESSAGES,
+  CONVERSATION_SESSIONS,
+  CUSTOMERS,
+  KNOWLEDGE_CITATIONS,
+  KNOWLEDGE_DOCUMENTS,
+  MEMORY_ITEMS,
+  ORDERS,
+  PRODUCTS,
+  REFUNDS,
+  RESERVATIONS,
+  RETURNS,
+  STOCK_LEVELS,
+  TICKET_DEAD_LETTERS,
+  TICKETS,
+  WAREHOUSES,
+  type CollectionDefinition,
+} from './collections';
+import { loadFixtures, seedRepositories } from './fixtures';
+import { InMemoryRepository } from './memory.repository';
+import { migrate } from './migrations';
+import type { Repositories, Repository } from './repository';
+import { createPostgresClient, createSqliteClient, type SqlClient } from './sql-client';
+import { SqlRepository } from './sql.repository';
+
+export type PersistenceDriver = 'memory' | 'sqlite' | 'postgres';
+
+export class PersistenceService implements Repositories {
+  readonly driver: PersistenceDriver;
+  readonly orders: Repositories['orders'];
+  readonly tickets: Repositories['tickets'];
+  readonly deadLetters: Repositories['deadLetters'];
+  readonly refunds: Repositories['refunds'];
+  readonly returns: Repositories['returns'];
+  readonly customers: Repositories['customers'];
+  readonly inventory: Repositories['inventory'];
+  readonly conversations: Repositories['conversations'];
+  readonly memory: Repositories['memory'];
+  readonly documents: Repositories['documents'];
+  readonly citations: Repositories['citations'];
+  /** Resolves once the store is migrated and seeded */
+  readonly ready: Promise<void>;
+  private client?: Promise<SqlClient>;
+
+  constructor() {
+    this.driver = this.resolveDriver();
+    let repositories: Repositories;
+
+    if (this.driver === 'memory') {
+      repositories = createRepositories((collection) => new InMemoryRepository(collection));
+      this.ready = seedRepositories(repositories);
+    } else {
+      this.client = connectSql(this.driver);
+      const migrated = this.client.then(async (client) => {
+        await migrate(client);
+        return client;
+      });
+      // Seeding writes through its own repositories so it does not wait on `ready`
+      const seeding = createRepositories((collection) => new SqlRepository(migrated, collection));
+      this.ready = migrated.then(() => this.seedIfEmpty(seeding));
+      const usable = this.ready.then(() => migrated);
+      // Repositories rethrow the failure on use and initialize() on bootstrap; this keeps it from going unhandled before then
+      usable.catch((err) => logger.error(`[persistence] ${this.driver} store unavailable:`, err));
+      repositories = createRepositories((collection) => new SqlRepository(usable, collection));
+    }
+
+    this.orders = repositories.orders;
+    this.tickets = repositories.tickets;
+    this.deadLetters = repositories.deadLetters;
+    this.refunds = repositories.refunds;
+    this.returns = repositories.returns;
+    this.customers = repositories.customers;
+    this.inventory = repositories.inventory;
+    this.conversations = repositories.conversations;
+    this.memory = repositories.memory;
+    this.documents = repositories.documents;
+    this.citations = repositories.citations;
+  }
+
+  /** Waits for the store and reports the active adapter; call once at bootstrap */
+  async initialize(): Promise<void> {
+    await this.ready;
+    logger.info(`Persistence ready (${this.driver})`);
+  }
+
+  async close(): Promise<void> {
+    if (this.client) await (await this.client).close();
+  }
+
+  private async seedIfEmpty(repositories: Repositories): Promise<void> {
+    if (process.env.PERSISTENCE_SEED === 'false') return;
+    if ((await repositories.orders.count()) > 0) {
+      // Stores seeded before customers were persisted still need the owners of the sample orders
+      if ((await repositories.customers.count()) > 0) return;
+      for (const customer of loadFixtures().customers) await repositories.customers.save(customer);
+      logger.info(`[persistence] seeded sample customers into ${this.driver}`);
+      return;
+    }
+    await seedRepositories(repositories);
+    logger.info(`[persistence] seeded sample fixtures into ${this.driver}`);
+  }
+
+  private resolveDriver(): PersistenceDriver {
+    const driver = (process.env.PERSISTENCE_DRIVER || 'memory').toLowerCase();
+    if (driver === 'sqlite' || driver === 'postgres') return driver;
+    if (driver !== 'memory') {
+      logger.warn(`Unknown PERSISTENCE_DRIVER '${driver}', using in-memory storage`);
+    }
+    return 'memory';
+  }
+}
+
+/** Builds one repository per collection with the given adapter */
+export function createRepositories(create: <T>(collection: CollectionDefinition<T>) => Repository<T>): Repositories {
+  return {
+    orders: create(ORDERS),
+    tickets: create(TICKETS),
+    deadLetters: create(TICKET_DEAD_LETTERS),
+    refunds: create(REFUNDS),
+    returns: create(RETURNS),
+    customers: create(CUSTOMERS),
+    inventory: {
+      warehouses: create(WAREHOUSES),
+      products: create(PRODUCTS),
+      stock: create(STOCK_LEVELS),
+      reservations: create(RESERVATIONS),
+      subscriptions: create(BACK_IN_STOCK_SUBSCRIPTIONS),
+    },
+    conversations: {
+      sessions: create(CONVERSATION_SESSIONS),
+      messages: create(CONVERSATION_MESSAGES),
+    },
+    memory: create(MEMORY_ITEMS),
+    documents: create(KNOWLEDGE_DOCUMENTS),
+    citations: create(KNOWLEDGE_CITATIONS),
+  };
+}
+
+/** Opens the SQL store for the driver from SQLITE_PATH or DATABASE_URL */
+export function connectSql(driver: Exclude<PersistenceDriver, 'memory'>): Promise<SqlClient> {
+  if (driver === 'postgres') {
+    if (!process.env.DATABASE_URL) {
+      return Promise.reject(new Error('PERSISTENCE_DRIVER=postgres requires DATABASE_URL'));
+    }
+    return createPostgresClient(process.env.DATABASE_URL);
+  }
+
+  const filename = process.env.SQLITE_PATH || './data/csr.sqlite';
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+  return createSqliteClient(filename);
+}
@@ -0,0 +1,79 @@
+/**
+ * Redis repository - Keeps a collection in a Redis hash with one set per index value
+ * Keys: `<prefix>:<table>` (id → JSON) and `<prefix>:<table>:<index>:<value>` (ids).
+ */
+
+import type Redis from 'ioredis';
+import { dateReviver, type CollectionDefinition } from './collections';
+import type { Repository } from './repository';
+
+export class RedisRepository<T> implements Repository<T> {
+  private readonly key: string;
+
+  constructor(
+    private redis: Redis,
+    private collection: CollectionDefinition<T>,
+    prefix = 'csr'
+  ) {
+    this.key = `${prefix}:${collection.table}`;
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const raw = await this.redis.hget(this.key, id);
+    return raw ? this.parse(raw) : null;
+  }
+
+  async findAll(): Promise<T[]> {
+    const all: Record<string, string> = await this.redis.hgetall(this.key);
+    return Object.values(all).map((raw) => this.parse(raw));
+  }
+
+  async findBy(index: string, value: string): Promise<T[]> {
+    if (!this.collection.indexes[index]) {
+      throw new Error(`${this.collection.table} has no index '${index}'`);
+    }
+    const ids = await this.redis.smembers(this.indexKey(index, value));
+    if (!ids.length) return [];
+    return (await this.redis.hmget(this.key, ...ids))
+      .filter((raw): raw is string => !!raw)
+      .map((raw) => this.parse(raw));
+  }
+
+  async save(entity: T): Promise<T> {
+    const id = this.collection.idOf(entity);
+    const previous = await this.findById(id);
+    const multi = this.redis.multi().hset(this.key, id, JSON.stringify(entity));
+    for (const [index, extract] of Object.entries(this.collection.indexes)) {
+      const before = previous ? extract(previous) : undefined;
+      const after = extract(entity);
+      if (before !== undefined && before !== after) multi.srem(this.indexKey(index, before), id);
+      if (after !== undefined) multi.sadd(this.indexKey(index, after), id);
+    }
+    await multi.exec();
+    return entity;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const previous = await this.findById(id);
+    if (!previous) return false;
+    const multi = this.redis.multi().hdel(this.key, id);
+    for (const [index, extract] of Object.entries(this.collection.indexes)) {
+      const value = extract(previous);
+      if (value !== undefined) multi.srem(this.indexKey(index, value), id);
+    }
+    await multi.exec();
+    return true;
+  }
+
+  async count(): Promise<number> {
+    return this.redis.hlen(this.key);
+  }
+
+  private indexKey(index: string, value: string): string {
+    return `${this.key}:${index}:${value}`;
+  }
+
+  private parse(raw: string): T {
+    return JSON.parse(raw, dateReviver(this.collection)) as T;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Repository contracts - Storage-agnostic access to CSR domain entities
+ * Entities are stored as documents keyed by ID, with a few indexed fields per
+ * collection for lookups (see collections.ts).
+ */
+
+import type { Order } from '../services/order.service';
+import type { Ticket } from '../services/ticket.service';
+import type { RefundResult } from '../services/refund.service';
+import type { ReturnRequest } from '../services/return.service';
+import type { Customer } from '../services/customer.service';
+import type {
+  BackInStockSubscription,
+  Product,
+  Reservation,
+  StockLevel,
+  Warehouse,
+} from '../services/inventory.service';
+import type { ConversationMessage, ConversationSession } from '../services/conversation.service';
+import type { CustomerMemoryItem } from '../services/customer-memory.service';
+import type { KnowledgeDocument } from '../services/knowledge-base.service';
+import type { CitationAuditEntry } from '../services/citation-audit.service';
+import type { DeadLetter } from '../workers/ticket.worker';
+
+export interface Repository<T> {
+  findById(id: string): Promise<T | null>;
+  findAll(): Promise<T[]>;
+  /** Lookup by one of the collection's indexed fields */
+  findBy(index: string, value: string): Promise<T[]>;
+  save(entity: T): Promise<T>;
+  delete(id: string): Promise<boolean>;
+  count(): Promise<number>;
+}
+
+/** Indexed by customer_id and status */
+export type OrderRepository = Repository<Order>;
+
+/** Indexed by user_id and status */
+export type TicketRepository = Repository<Ticket>;
+
+/** Indexed by order_id and status */
+export type RefundRepository = Repository<RefundResult>;
+
+export interface InventoryRepository {
+  warehouses: Repository<Warehouse>;
+  /** Indexed by category */
+  products: Repository<Product>;
+  /** Keyed by `sku@warehouseId`, indexed by sku */
+  stock: Repository<StockLevel>;
+  /** Indexed by sku and status */
+  reservations: Repository<Reservation>;
+  /** Indexed by sku */
+  subscriptions: Repository<BackInStockSubscription>;
+}
+
+export interface ConversationRepository {
+  /** Indexed by user_id */
+  sessions: Repository<ConversationSession>;
+  /** Indexed by session_id */
+  messages: Repository<ConversationMessage>;
+}
+
+export interface Repositories {
+  orders: OrderRepository;
+  tickets: TicketRepository;
+  /** Ticket jobs that exhausted their retries; indexed by ticket_id */
+  deadLetters: Repository<DeadLetter>;
+  refunds: RefundRepository;
+  /** Keyed by RMA number, indexed by order_id and status */
+  returns: Repository<ReturnRequest>;
+  /** Indexed by email (stored lowercase) */
+  customers: Repository<Customer>;
+  inventory: InventoryRepository;
+  conversations: ConversationRepository;
+  /** Indexed by user_id */
+  memory: Repository<CustomerMemoryItem>;
+  /** Knowledge base documents and their vector store chunk IDs; indexed by user_id */
+  documents: Repository<KnowledgeDocument>;
+  /** Knowledge base versions returned with each reply; indexed by session_id, user_id and document_key */
+  citations: Repository<CitationAuditEntry>;
+}
@@ -0,0 +1,59 @@
+/**
+ * SQL client - Thin async wrapper over SQLite (better-sqlite3) and Postgres (pg)
+ * Statements use `?` placeholders; they are rewritten to `$n` for Postgres.
+ * Drivers are optional dependencies and are only loaded when selected.
+ */
+
+export type SqlDialect = 'sqlite' | 'postgres';
+
+export interface SqlClient {
+  readonly dialect: SqlDialect;
+  query<R = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<R[]>;
+  /** Runs a statement and returns the number of affected rows */
+  execute(sql: string, params?: unknown[]): Promise<number>;
+  close(): Promise<void>;
+}
+
+export async function createSqliteClient(filename: string): Promise<SqlClient> {
+  const { default: Database } = await import('better-sqlite3');
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+
+  return {
+    dialect: 'sqlite',
+    async query<R>(sql: string, params: unknown[] = []) {
+      return db.prepare(sql).all(...params) as R[];
+    },
+    async execute(sql: string, params: unknown[] = []) {
+      return db.prepare(sql).run(...params).changes;
+    },
+    async close() {
+      db.close();
+    },
+  };
+}
+
+export async function createPostgresClient(connectionString: string): Promise<SqlClient> {
+  const { Pool } = await import('pg');
+  const pool = new Pool({ connectionString });
+
+  return {
+    dialect: 'postgres',
+    async query<R>(sql: string, params: unknown[] = []) {
+      const result = await pool.query(toPostgresPlaceholders(sql), params);
+      return result.rows as R[];
+    },
+    async execute(sql: string, params: unknown[] = []) {
+      const result = await pool.query(toPostgresPlaceholders(sql), params);
+      return result.rowCount ?? 0;
+    },
+    async close() {
+      await pool.end();
+    },
+  };
+}
+
+function toPostgresPlaceholders(sql: string): string {
+  let index = 0;
+  return sql.replace(/\?/g, () => `$${++index}`);
+}
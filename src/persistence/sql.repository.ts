@@ -0,0 +1,80 @@
+/**
+ * SQL repository - Document-per-row adapter shared by SQLite and Postgres
+ */
+
+import { dateReviver, type CollectionDefinition } from './collections';
+import type { Repository } from './repository';
+import type { SqlClient } from './sql-client';
+
+export class SqlRepository<T> implements Repository<T> {
+  private readonly columns: string[];
+
+  constructor(
+    /** Resolves once the schema is migrated; every query waits for it */
+    private connection: Promise<SqlClient>,
+    private collection: CollectionDefinition<T>
+  ) {
+    this.columns = Object.keys(collection.indexes);
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const rows = await this.select('WHERE id = ?', [id]);
+    return rows[0] || null;
+  }
+
+  async findAll(): Promise<T[]> {
+    return this.select('', []);
+  }
+
+  async findBy(index: string, value: string): Promise<T[]> {
+    if (!this.columns.includes(index)) {
+      throw new Error(`${this.collection.table} has no index '${index}'`);
+    }
+    return this.select(`WHERE ${index} = ?`, [value]);
+  }
+
+  async save(entity: T): Promise<T> {
+    const client = await this.connection;
+    const columns = ['id', ...this.columns, 'data', 'updated_at'];
+    const values = [
+      this.collection.idOf(entity),
+      ...this.columns.map((column) => this.collection.indexes[column](entity) ?? null),
+      JSON.stringify(entity),
+      new Date().toISOString(),
+    ];
+    const updates = columns
+      .slice(1)
+      .map((column) => `${column} = excluded.${column}`)
+      .join(', ');
+
+    await client.execute(
+      `INSERT INTO ${this.collection.table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')}) ` +
+        `ON CONFLICT (id) DO UPDATE SET ${updates}`,
+      values
+    );
+    return entity;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const client = await this.connection;
+    return (await client.execute(`DELETE FROM ${this.collection.table} WHERE id = ?`, [id])) > 0;
+  }
+
+  async count(): Promise<number> {
+    const client = await this.connection;
+    const rows = await client.query<{ total: number | string }>(
+      `SELECT COUNT(*) AS total FROM ${this.collection.table}`
+    );
+    return Number(rows[0]?.total ?? 0);
+  }
+
+  private async select(where: string, params: unknown[]): Promise<T[]> {
+    const client = await this.connection;
+    const rows = await client.query<{ data: string }>(
+      `SELECT data FROM ${this.collection.table} ${where}`.trim(),
+      params
+    );
+    const revive = dateReviver(this.collection);
+    return rows.map((row) => JSON.parse(row.data, revive) as T);
+  }
+}
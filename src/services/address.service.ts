@@ -0,0 +1,122 @@
+/**
+ * Address Service - Validation and normalization of structured postal addresses
+ */
+
+export interface Address {
+  line1: string;
+  line2?: string;
+  city: string;
+  /** State, province or county */
+  region?: string;
+  postalCode: string;
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
+}
+
+export interface AddressValidationError {
+  field: keyof Address;
+  message: string;
+}
+
+export type AddressValidationResult =
+  | { valid: true; address: Address }
+  | { valid: false; errors: AddressValidationError[] };
+
+interface CountryRules {
+  postalCode: RegExp;
+  example: string;
+  regionRequired: boolean;
+  /** Rewrites a postal code that already passed `postalCode` into its canonical form */
+  format?: (postalCode: string) => string;
+}
+
+const COUNTRY_RULES: Record<string, CountryRules> = {
+  US: { postalCode: /^\d{5}(-\d{4})?$/, example: '12345 or 12345-6789', regionRequired: true },
+  CA: {
+    postalCode: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/,
+    example: 'K1A 0B1',
+    regionRequired: true,
+    format: (code) => `${code.replace(' ', '').slice(0, 3)} ${code.replace(' ', '').slice(3)}`,
+  },
+  GB: {
+    postalCode: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/,
+    example: 'SW1A 1AA',
+    regionRequired: false,
+    format: (code) => `${code.replace(' ', '').slice(0, -3)} ${code.replace(' ', '').slice(-3)}`,
+  },
+  DE: { postalCode: /^\d{5}$/, example: '10115', regionRequired: false },
+  FR: { postalCode: /^\d{5}$/, example: '75001', regionRequired: false },
+  ES: { postalCode: /^\d{5}$/, example: '28001', regionRequired: false },
+  NL: {
+    postalCode: /^\d{4} ?[A-Z]{2}$/,
+    example: '1012 AB',
+    regionRequired: false,
+    format: (code) => `${code.replace(' ', '').slice(0, 4)} ${code.replace(' ', '').slice(4)}`,
+  },
+  AU: { postalCode: /^\d{4}$/, example: '2000', regionRequired: true },
+  IN: { postalCode: /^\d{6}$/, example: '110001', regionRequired: true },
+  JP: {
+    postalCode: /^\d{3}-?\d{4}$/,
+    example: '100-0001',
+    regionRequired: true,
+    format: (code) => `${code.replace('-', '').slice(0, 3)}-${code.replace('-', '').slice(3)}`,
+  },
+};
+
+export class AddressService {
+  /**
+   * Validates raw input (e.g. LLM tool arguments) and returns a normalized
+   * address: trimmed fields, upper-case country/region codes and canonical
+   * postal code spacing. Countries without rules only get required-field checks.
+   */
+  validate(input: Record<string, unknown>): AddressValidationResult {
+    const text = (value: unknown) => (typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : '');
+    const address: Address = {
+      line1: text(input.line1),
+      line2: text(input.line2) || undefined,
+      city: text(input.city),
+      region: text(input.region) || undefined,
+      postalCode: text(input.postalCode).toUpperCase(),
+      country: text(input.country).toUpperCase(),
+    };
+    const errors: AddressValidationError[] = [];
+
+    for (const field of ['line1', 'city', 'postalCode', 'country'] as const) {
+      if (!address[field]) errors.push({ field, message: `${field} is required` });
+    }
+    if (address.country && !/^[A-Z]{2}$/.test(address.country)) {
+      errors.push({ field: 'country', message: 'country must be a two-letter ISO code, e.g. US' });
+    }
+
+    const rules = COUNTRY_RULES[address.country];
+    if (rules) {
+      if (address.postalCode && !rules.postalCode.test(address.postalCode)) {
+        errors.push({
+          field: 'postalCode',
+          message: `postalCode is not valid for ${address.country} (expected e.g. ${rules.example})`,
+        });
+      } else if (address.postalCode && rules.format) {
+        address.postalCode = rules.format(address.postalCode);
+      }
+      if (rules.regionRequired && !address.region) {
+        errors.push({ field: 'region', message: `region is required for ${address.country}` });
+      }
+    }
+    if (address.region && address.region.length <= 3) {
+      address.region = address.region.toUpperCase();
+    }
+
+    return errors.length > 0 ? { valid: false, errors } : { valid: true, address };
+  }
+
+  format(address: Address): string {
+    return [
+      address.line1,
+      address.line2,
+      [address.city, [address.region, address.postalCode].filter(Boolean).join(' ')].filter(Boolean).join(', '),
+      address.country,
+    ]
+      .filter(Boolean)
+      .join(', ');
+  }
+}
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApprovalPolicyService, MAX_APPROVAL_WINDOW_MS } from './approval-policy.service';
+
+delete process.env.APPROVAL_POLICY_FILE;
+
+const delivered = { status: 'delivered', total: 89.97 };
+
+test('auto-approves small refunds on delivered orders and wants two approvers above $500', () => {
+  const policy = new ApprovalPolicyService();
+
+  assert.deepEqual(policy.evaluate('processRefund', 'pre', { input: { amount: 19.99 }, order: delivered }), {
+    ruleId: 'refund-small-delivered-auto-approve',
+    phase: 'pre',
+    action: 'approve',
+    requiredApprovers: 1,
+  });
+  assert.equal(
+    policy.evaluate('processRefund', 'pre', { input: { amount: 19.99 }, order: { status: 'shipped' } }).ruleId,
+    'refund-human'
+  );
+  const large = policy.evaluate('processRefund', 'pre', { input: { amount: 750 }, order: delivered });
+  assert.equal(large.action, 'human');
+  assert.equal(large.requiredApprovers, 2);
+  assert.equal(policy.evaluate('processRefund', 'timeout', {}).action, 'escalate');
+});
+
+test('falls back to the default policy for other tools and to the built-in rules when nothing matches', () => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'approval-policy-')), 'policy.json');
+  fs.writeFileSync(
+    file,
+    JSON.stringify({
+      defaults: { timeoutMs: 60 * 1000, rules: [] },
+      tools: {
+        updateShippingAddress: {
+          timeoutMs: 10 * 60 * 1000,
+          rules: [
+            {
+              id: 'address-us',
+              phase: 'pre',
+              when: [{ field: 'input.country', op: 'in', value: ['US'] }],
+              action: 'approve',
+            },
+          ],
+        },
+      },
+    })
+  );
+  process.env.APPROVAL_POLICY_FILE = file;
+  try {
+    const policy = new ApprovalPolicyService();
+
+    assert.equal(policy.evaluate('updateShippingAddress', 'pre', { input: { country: 'US' } }).action, 'approve');
+    assert.equal(policy.evaluate('updateShippingAddress', 'pre', { input: { country: 'GB' } }).ruleId, 'builtin-human');
+    assert.equal(policy.evaluate('initiateReturn', 'timeout', {}).ruleId, 'builtin-timeout-reject');
+    // Windows longer than the runtime keeps an approval open are cut down
+    assert.equal(policy.getPolicy('updateShippingAddress').timeoutMs, MAX_APPROVAL_WINDOW_MS);
+    assert.equal(policy.getPolicy('initiateReturn').timeoutMs, 60 * 1000);
+  } finally {
+    delete process.env.APPROVAL_POLICY_FILE;
+    fs.rmSync(path.dirname(file), { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,206 @@
+/**
+ * Approval Policy Service - Declarative approval rules keyed by tool name
+ * Rules run before the human window (`pre`) and when it closes (`timeout`).
+ * Set APPROVAL_POLICY_FILE to a JSON file to override the default policy.
+ */
+
+import * as fs from 'fs';
+import logger from '@hazeljs/core';
+
+export type ApprovalPhase = 'pre' | 'timeout';
+export type ApprovalAction = 'approve' | 'reject' | 'escalate' | 'human';
+
+export interface PolicyCondition {
+  /** Dotted path into the facts, e.g. `input.amount` or `order.status` */
+  field: string;
+  op: 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte' | 'in';
+  value: unknown;
+}
+
+export interface ApprovalRule {
+  id: string;
+  description?: string;
+  phase: ApprovalPhase;
+  /** All conditions must match; an empty list always matches */
+  when?: PolicyCondition[];
+  action: ApprovalAction;
+  /** Number of distinct approvers needed when action is `human` */
+  requiredApprovers?: number;
+}
+
+export interface ToolApprovalPolicy {
+  /** Length of the human approval window */
+  timeoutMs: number;
+  rules: ApprovalRule[];
+}
+
+export interface ApprovalPolicyConfig {
+  defaults: ToolApprovalPolicy;
+  tools: Record<string, ToolApprovalPolicy>;
+}
+
+export interface PolicyDecision {
+  ruleId: string;
+  phase: ApprovalPhase;
+  action: ApprovalAction;
+  requiredApprovers: number;
+}
+
+/**
+ * @hazeljs/agent rejects a tool call whose approval is still open after five
+ * minutes, so the human window has to close before that for the `timeout`
+ * rules to decide anything. Longer windows are cut down to MAX_APPROVAL_WINDOW_MS.
+ */
+export const RUNTIME_APPROVAL_TTL_MS = 5 * 60 * 1000;
+export const MAX_APPROVAL_WINDOW_MS = RUNTIME_APPROVAL_TTL_MS - 30 * 1000;
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicyConfig = {
+  defaults: {
+    timeoutMs: 4 * 60 * 1000,
+    rules: [
+      { id: 'default-human', phase: 'pre', action: 'human', requiredApprovers: 1 },
+      { id: 'default-timeout-escalate', phase: 'timeout', action: 'escalate' },
+    ],
+  },
+  tools: {
+    processRefund: {
+      timeoutMs: 4 * 60 * 1000,
+      rules: [
+        {
+          id: 'refund-small-delivered-auto-approve',
+          description: 'Auto-approve refunds under $25 for delivered orders',
+          phase: 'pre',
+          when: [
+            { field: 'input.amount', op: 'lt', value: 25 },
+            { field: 'order.status', op: 'eq', value: 'delivered' },
+          ],
+          action: 'approve',
+        },
+        {
+          id: 'refund-large-two-approvers',
+          description: 'Refunds above $500 need two approvers',
+          phase: 'pre',
+          when: [{ field: 'input.amount', op: 'gt', value: 500 }],
+          action: 'human',
+          requiredApprovers: 2,
+        },
+        { id: 'refund-human', phase: 'pre', action: 'human', requiredApprovers: 1 },
+        {
+          id: 'refund-timeout-escalate',
+          description: 'Escalate unanswered refunds to a supervisor ticket',
+          phase: 'timeout',
+          action: 'escalate',
+        },
+      ],
+    },
+    initiateReturn: {
+      timeoutMs: 4 * 60 * 1000,
+      rules: [
+        {
+          id: 'return-low-value-auto-approve',
+          description: 'Auto-approve returns on delivered orders up to $200',
+          phase: 'pre',
+          when: [
+            { field: 'order.status', op: 'eq', value: 'delivered' },
+            { field: 'order.total', op: 'lte', value: 200 },
+          ],
+          action: 'approve',
+        },
+        { id: 'return-human', phase: 'pre', action: 'human', requiredApprovers: 1 },
+        { id: 'return-timeout-escalate', phase: 'timeout', action: 'escalate' },
+      ],
+    },
+    updateShippingAddress: {
+      timeoutMs: 3 * 60 * 1000,
+      rules: [
+        { id: 'address-human', phase: 'pre', action: 'human', requiredApprovers: 1 },
+        {
+          id: 'address-timeout-reject',
+          description: 'Auto-reject address changes nobody reviewed',
+          phase: 'timeout',
+          action: 'reject',
+        },
+      ],
+    },
+  },
+};
+
+export class ApprovalPolicyService {
+  private config: ApprovalPolicyConfig;
+
+  constructor() {
+    this.config = this.load();
+  }
+
+  getPolicy(toolName: string): ToolApprovalPolicy {
+    return this.config.tools[toolName] || this.config.defaults;
+  }
+
+  /**
+   * Returns the first rule of the given phase whose conditions match the facts.
+   * Falls back to a human decision before the window and a rejection after it.
+   */
+  evaluate(toolName: string, phase: ApprovalPhase, facts: Record<string, unknown>): PolicyDecision {
+    const rule = this.getPolicy(toolName).rules.find(
+      (candidate) => candidate.phase === phase && (candidate.when || []).every((c) => this.matches(c, facts))
+    );
+
+    if (!rule) {
+      return phase === 'pre'
+        ? { ruleId: 'builtin-human', phase, action: 'human', requiredApprovers: 1 }
+        : { ruleId: 'builtin-timeout-reject', phase, action: 'reject', requiredApprovers: 1 };
+    }
+
+    return {
+      ruleId: rule.id,
+      phase,
+      action: rule.action,
+      requiredApprovers: Math.max(1, rule.requiredApprovers ?? 1),
+    };
+  }
+
+  private matches(condition: PolicyCondition, facts: Record<string, unknown>): boolean {
+    const actual = condition.field
+      .split('.')
+      .reduce<unknown>((value, key) => (value == null ? undefined : (value as Record<string, unknown>)[key]), facts);
+
+    switch (condition.op) {
+      case 'eq':
+        return actual === condition.value;
+      case 'neq':
+        return actual !== condition.value;
+      case 'in':
+        return Array.isArray(condition.value) && condition.value.includes(actual);
+      case 'lt':
+        return typeof actual === 'number' && actual < Number(condition.value);
+      case 'lte':
+        return typeof actual === 'number' && actual <= Number(condition.value);
+      case 'gt':
+        return typeof actual === 'number' && actual > Number(condition.value);
+      case 'gte':
+        return typeof actual === 'number' && actual >= Number(condition.value);
+      default:
+        return false;
+    }
+  }
+
+  private load(): ApprovalPolicyConfig {
+    const file = process.env.APPROVAL_POLICY_FILE;
+    if (!file) return DEFAULT_APPROVAL_POLICY;
+    const loaded = JSON.parse(fs.readFileSync(file, 'utf8')) as Partial<ApprovalPolicyConfig>;
+    return {
+      defaults: capWindow('defaults', loaded.defaults || DEFAULT_APPROVAL_POLICY.defaults),
+      tools: Object.fromEntries(
+        Object.entries(loaded.tools || {}).map(([toolName, policy]) => [toolName, capWindow(toolName, policy)])
+      ),
+    };
+  }
+}
+
+function capWindow(name: string, policy: ToolApprovalPolicy): ToolApprovalPolicy {
+  if (policy.timeoutMs <= MAX_APPROVAL_WINDOW_MS) return policy;
+  logger.warn(
+    `Approval window for ${name} (${policy.timeoutMs}ms) outlasts the runtime's approval TTL; using ${MAX_APPROVAL_WINDOW_MS}ms`
+  );
+  return { ...policy, timeoutMs: MAX_APPROVAL_WINDOW_MS };
+}
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApprovalService } from './approval.service';
+
+async function pendingApproval(requiredApprovers = 1): Promise<ApprovalService> {
+  const approvals = new ApprovalService();
+  await approvals.record({ id: 'req-1', toolName: 'processRefund', input: { orderId: 'ORD-12346', amount: 19.99 } });
+  await approvals.applyPolicy('req-1', { ruleId: 'large-refund', requiredApprovers });
+  return approvals;
+}
+
+test('a single approval decides a request that needs one approver', async () => {
+  const approvals = await pendingApproval();
+  const record = (await approvals.findById('req-1'))!;
+
+  assert.deepEqual(approvals.decisionFor(record, { approved: true, decidedBy: 'alice' }), {
+    approved: true,
+    decidedBy: 'alice',
+  });
+  const decided = await approvals.vote('req-1', { approved: true, decidedBy: 'alice' });
+
+  assert.equal(decided!.status, 'approved');
+  assert.deepEqual(decided!.approvers, ['alice']);
+  assert.deepEqual(
+    decided!.outcomes.map((outcome) => outcome.ruleId),
+    ['large-refund']
+  );
+});
+
+test('two-person approval waits for a second, distinct approver', async () => {
+  const approvals = await pendingApproval(2);
+
+  const first = await approvals.vote('req-1', { approved: true, decidedBy: 'alice' });
+  assert.equal(first!.status, 'pending');
+  assert.equal(approvals.decisionFor(first!, { approved: true, decidedBy: 'alice' }), null);
+
+  const second = await approvals.vote('req-1', { approved: true, decidedBy: 'bob' });
+  assert.equal(second!.status, 'approved');
+  assert.equal(second!.decidedBy, 'alice, bob');
+});
+
+test('any rejection decides the request', async () => {
+  const approvals = await pendingApproval(2);
+
+  await approvals.vote('req-1', { approved: true, decidedBy: 'alice' });
+  const rejected = await approvals.vote('req-1', { approved: false, decidedBy: 'bob' });
+
+  assert.equal(rejected!.status, 'rejected');
+  assert.equal(rejected!.decidedBy, 'bob');
+});
+
+test('expire closes the request with an outcome that is not a decision', async () => {
+  const approvals = await pendingApproval();
+
+  const expired = await approvals.expire('req-1');
+
+  assert.equal(expired!.status, 'expired');
+  assert.deepEqual(
+    expired!.outcomes.map((outcome) => [outcome.phase, outcome.action]),
+    [['timeout', 'expire']]
+  );
+  assert.deepEqual(await approvals.list({ status: 'pending' }), []);
+});
@@ -0,0 +1,247 @@
+/**
+ * Approval Service - Inbox of tool executions awaiting human approval
+ * Records every TOOL_APPROVAL_REQUESTED event and the decision taken on it.
+ * Set APPROVAL_STORE_FILE to persist the inbox as JSON across restarts.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ApprovalAction, ApprovalPhase } from './approval-policy.service';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'escalated' | 'expired';
+
+export interface ApprovalOutcome {
+  phase: ApprovalPhase | 'human';
+  /** `expire`: the agent runtime no longer waits on the request, so no decision can take effect */
+  action: ApprovalAction | 'expire';
+  /** Policy rule that produced (or, for human votes, governed) this outcome */
+  ruleId: string;
+  decidedBy: string;
+  at: Date;
+}
+
+export interface ApprovalRecord {
+  id: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  agentId?: string;
+  executionId?: string;
+  sessionId?: string;
+  userId?: string;
+  status: ApprovalStatus;
+  requestedAt: Date;
+  expiresAt?: Date;
+  requiredApprovers: number;
+  approvers: string[];
+  ruleId?: string;
+  outcomes: ApprovalOutcome[];
+  decidedBy?: string;
+  decidedAt?: Date;
+  /** Set when the customer's personal data was erased from the record */
+  redactedAt?: Date;
+}
+
+export interface ApprovalFilter {
+  status?: ApprovalStatus;
+  toolName?: string;
+  sessionId?: string;
+  userId?: string;
+}
+
+export class ApprovalService {
+  private approvals: Map<string, ApprovalRecord> = new Map();
+  private readonly storeFile = process.env.APPROVAL_STORE_FILE;
+
+  constructor() {
+    this.load();
+  }
+
+  async record(
+    data: Omit<ApprovalRecord, 'status' | 'requestedAt' | 'requiredApprovers' | 'approvers' | 'outcomes'> & {
+      requestedAt?: Date;
+    }
+  ): Promise<ApprovalRecord> {
+    const record: ApprovalRecord = {
+      ...data,
+      status: 'pending',
+      requestedAt: data.requestedAt || new Date(),
+      requiredApprovers: 1,
+      approvers: [],
+      outcomes: [],
+    };
+    this.approvals.set(record.id, record);
+    this.save();
+    return record;
+  }
+
+  async findById(id: string): Promise<ApprovalRecord | null> {
+    const record = this.approvals.get(id);
+    if (!record) return null;
+    return this.expireIfDue(record);
+  }
+
+  async list(filter: ApprovalFilter = {}): Promise<ApprovalRecord[]> {
+    return Array.from(this.approvals.values())
+      .map((record) => this.expireIfDue(record))
+      .filter((record) => !filter.status || record.status === filter.status)
+      .filter((record) => !filter.toolName || record.toolName === filter.toolName)
+      .filter((record) => !filter.sessionId || record.sessionId === filter.sessionId)
+      .filter((record) => !filter.userId || record.userId === filter.userId)
+      .sort((a, b) => b.requestedAt.getTime() - a.requestedAt.getTime());
+  }
+
+  /**
+   * Applies the policy decision taken when the request arrived (which rule
+   * governs it and how many approvers it needs).
+   */
+  async applyPolicy(id: string, policy: { ruleId: string; requiredApprovers: number }): Promise<ApprovalRecord | null> {
+    const record = this.approvals.get(id);
+    if (!record) return null;
+    record.ruleId = policy.ruleId;
+    record.requiredApprovers = policy.requiredApprovers;
+    this.save();
+    return record;
+  }
+
+  /**
+   * The decision `vote` would complete, or null when more approvers are
+   * needed. Lets the caller act on the runtime before anything is saved.
+   */
+  decisionFor(
+    record: ApprovalRecord,
+    vote: { approved: boolean; decidedBy: string }
+  ): { approved: boolean; decidedBy: string } | null {
+    if (!vote.approved) return { approved: false, decidedBy: vote.decidedBy };
+    const approvers = record.approvers.includes(vote.decidedBy)
+      ? record.approvers
+      : [...record.approvers, vote.decidedBy];
+    return approvers.length < record.requiredApprovers ? null : { approved: true, decidedBy: approvers.join(', ') };
+  }
+
+  /**
+   * Records one approver's vote. The request is only approved once
+   * `requiredApprovers` distinct people have approved it; any rejection wins.
+   */
+  async vote(id: string, vote: { approved: boolean; decidedBy: string }): Promise<ApprovalRecord | null> {
+    const record = this.approvals.get(id);
+    if (!record) return null;
+    const ruleId = record.ruleId || 'builtin-human';
+
+    const decision = this.decisionFor(record, vote);
+    if (vote.approved && !record.approvers.includes(vote.decidedBy)) {
+      record.approvers.push(vote.decidedBy);
+    }
+    if (decision) return this.decide(id, { ...decision, ruleId, phase: 'human' });
+
+    record.outcomes.push({ phase: 'human', action: 'human', ruleId, decidedBy: vote.decidedBy, at: new Date() });
+    this.save();
+    return record;
+  }
+
+  async decide(
+    id: string,
+    decision: { approved: boolean; decidedBy: string; ruleId: string; phase: ApprovalOutcome['phase'] }
+  ): Promise<ApprovalRecord | null> {
+    const record = this.approvals.get(id);
+    if (!record) return null;
+    record.status = decision.approved ? 'approved' : 'rejected';
+    record.decidedBy = decision.decidedBy;
+    record.decidedAt = new Date();
+    record.outcomes.push({
+      phase: decision.phase,
+      action: decision.approved ? 'approve' : 'reject',
+      ruleId: decision.ruleId,
+      decidedBy: decision.decidedBy,
+      at: record.decidedAt,
+    });
+    this.save();
+    return record;
+  }
+
+  async escalate(id: string, escalation: { ruleId: string; decidedBy: string }): Promise<ApprovalRecord | null> {
+    const record = this.approvals.get(id);
+    if (!record) return null;
+    record.status = 'escalated';
+    record.outcomes.push({
+      phase: 'timeout',
+      action: 'escalate',
+      ruleId: escalation.ruleId,
+      decidedBy: escalation.decidedBy,
+      at: new Date(),
+    });
+    this.save();
+    return record;
+  }
+
+  /**
+   * Closes a request the agent runtime has forgotten (after a restart, or
+   * once its own approval TTL ran out); approving it could no longer run the tool.
+   */
+  async expire(id: string, decidedBy = 'system'): Promise<ApprovalRecord | null> {
+    const record = this.approvals.get(id);
+    if (!record || record.outcomes.some((outcome) => outcome.action === 'expire')) return record ?? null;
+    record.status = 'expired';
+    record.decidedBy = decidedBy;
+    record.decidedAt = new Date();
+    record.outcomes.push({
+      phase: 'timeout',
+      action: 'expire',
+      ruleId: 'runtime-request-gone',
+      decidedBy,
+      at: record.decidedAt,
+    });
+    this.save();
+    return record;
+  }
+
+  /**
+   * Erases the customer's personal data from their approval records (by user
+   * or by one of their sessions): the tool input is dropped and the record is
+   * unlinked, while the tool, decisions and timestamps stay for audit.
+   */
+  async redactCustomer(userId: string, sessionIds: string[] = []): Promise<ApprovalRecord[]> {
+    const redacted: ApprovalRecord[] = [];
+    const now = new Date();
+    for (const record of this.approvals.values()) {
+      if (record.userId !== userId && !(record.sessionId && sessionIds.includes(record.sessionId))) continue;
+      record.input = {};
+      record.userId = undefined;
+      record.sessionId = undefined;
+      record.redactedAt = now;
+      redacted.push(record);
+    }
+    if (redacted.length) this.save();
+    return redacted;
+  }
+
+  private expireIfDue(record: ApprovalRecord): ApprovalRecord {
+    if (record.status === 'pending' && record.expiresAt && record.expiresAt.getTime() <= Date.now()) {
+      record.status = 'expired';
+      this.save();
+    }
+    return record;
+  }
+
+  private load(): void {
+    if (!this.storeFile || !fs.existsSync(this.storeFile)) return;
+    const raw = JSON.parse(fs.readFileSync(this.storeFile, 'utf8')) as ApprovalRecord[];
+    for (const record of raw) {
+      this.approvals.set(record.id, {
+        ...record,
+        requestedAt: new Date(record.requestedAt),
+        expiresAt: record.expiresAt ? new Date(record.expiresAt) : undefined,
+        decidedAt: record.decidedAt ? new Date(record.decidedAt) : undefined,
+        redactedAt: record.redactedAt ? new Date(record.redactedAt) : undefined,
+        requiredApprovers: record.requiredApprovers || 1,
+        approvers: record.approvers || [],
+        outcomes: (record.outcomes || []).map((outcome) => ({ ...outcome, at: new Date(outcome.at) })),
+      });
+    }
+  }
+
+  private save(): void {
+    if (!this.storeFile) return;
+    fs.mkdirSync(path.dirname(this.storeFile), { recursive: true });
+    fs.writeFileSync(this.storeFile, JSON.stringify(Array.from(this.approvals.values()), null, 2));
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Citation Audit Service - Which knowledge base version each answer relied on
+ * Every source returned with a reply is stored with the document key, version
+ * and effective period it came from and whether the reply cited it inline.
+ * Versions keep their text after being superseded (see KnowledgeBaseService),
+ * so support can still read the policy a customer was quoted.
+ */
+
+import { Injectable } from '@hazeljs/core';
+import { PersistenceService } from '../persistence/persistence.service';
+import type { Repository } from '../persistence/repository';
+import type { ChatSource, CitationMarker } from './citation.service';
+
+export interface CitationAuditEntry {
+  id: string;
+  sessionId: string;
+  userId?: string;
+  executionId?: string;
+  sourceId: string;
+  citation: number;
+  title?: string;
+  /** Unset for passages that did not come from the document registry */
+  documentKey?: string;
+  version?: number;
+  effectiveFrom?: Date;
+  effectiveTo?: Date;
+  /** Whether the reply cites the source inline; false when it was only retrieved */
+  cited: boolean;
+  createdAt: Date;
+}
+
+@Injectable()
+export class CitationAuditService {
+  private entries: Repository<CitationAuditEntry>;
+  private sequence = 0;
+
+  constructor(persistence: PersistenceService) {
+    this.entries = persistence.citations;
+  }
+
+  /** Stores one entry per source of the reply */
+  async record(
+    reply: { sessionId: string; executionId?: string; sources?: ChatSource[]; citations?: CitationMarker[] },
+    userId?: string
+  ): Promise<CitationAuditEntry[]> {
+    const cited = new Set((reply.citations ?? []).map((citation) => citation.sourceId));
+    const now = new Date();
+    const saved: CitationAuditEntry[] = [];
+    for (const source of reply.sources ?? []) {
+      const metadata = source.metadata ?? {};
+      saved.push(
+        await this.entries.save({
+          id: `CIT-${now.getTime()}-${++this.sequence}`,
+          sessionId: reply.sessionId,
+          userId,
+          executionId: reply.executionId,
+          sourceId: source.id,
+          citation: source.citation,
+          title: source.title,
+          documentKey: typeof metadata.documentKey === 'string' ? metadata.documentKey : undefined,
+          version: typeof metadata.version === 'number' ? metadata.version : undefined,
+          effectiveFrom: toDate(metadata.effectiveFrom),
+          effectiveTo: toDate(metadata.effectiveTo),
+          cited: cited.has(source.id),
+          createdAt: now,
+        })
+      );
+    }
+    return saved;
+  }
+
+  async listForSession(sessionId: string): Promise<CitationAuditEntry[]> {
+    return sortEntries(await this.entries.findBy('session_id', sessionId));
+  }
+
+  async listForDocument(documentKey: string): Promise<CitationAuditEntry[]> {
+    return sortEntries(await this.entries.findBy('document_key', documentKey));
+  }
+
+  /** Unlinks the customer from their entries, keeping which versions were cited; returns the count */
+  async anonymize(userId: string): Promise<number> {
+    const entries = await this.entries.findBy('user_id', userId);
+    for (const { userId: _userId, ...entry } of entries) {
+      await this.entries.save(entry);
+    }
+    return entries.length;
+  }
+}
+
+function sortEntries(entries: CitationAuditEntry[]): CitationAuditEntry[] {
+  return entries.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.citation - b.citation);
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && !(value instanceof Date)) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
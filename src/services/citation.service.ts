@@ -0,0 +1,92 @@
+/**
+ * Citation Service - Collects the knowledge base passages an answer was grounded on
+ * Every passage retrieved during a chat turn gets a citation number, stable
+ * within the turn, which the agent cites inline as `[n]`. When the turn ends
+ * the passages are returned deduplicated as `sources`, and the markers found
+ * in the reply are mapped back to source IDs.
+ */
+
+import { createHash } from 'crypto';
+
+export interface RetrievedPassage {
+  id?: string;
+  content: string;
+  score?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ChatSource {
+  id: string;
+  /** Number the reply cites this source with, e.g. `[2]` */
+  citation: number;
+  title?: string;
+  content: string;
+  score: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface CitationMarker {
+  marker: string;
+  sourceId: string;
+}
+
+export class CitationService {
+  /** Sources of the chat turn currently running in each session */
+  private turns: Map<string, ChatSource[]> = new Map();
+
+  /** Starts a new turn for the session, dropping anything left from an earlier one */
+  begin(sessionId: string): void {
+    this.turns.set(sessionId, []);
+  }
+
+  /**
+   * Adds retrieved passages to the session's turn and returns each with its
+   * citation number; a passage retrieved again keeps its number and best score.
+   */
+  record(sessionId: string | undefined, passages: RetrievedPassage[]): ChatSource[] {
+    const sources = (sessionId && this.turns.get(sessionId)) || [];
+    if (sessionId && !this.turns.has(sessionId)) this.turns.set(sessionId, sources);
+
+    return passages.map((passage) => {
+      const id = passage.id || `src-${createHash('sha1').update(passage.content).digest('hex').slice(0, 12)}`;
+      const existing = sources.find((source) => source.id === id);
+      if (existing) {
+        existing.score = Math.max(existing.score, passage.score ?? 0);
+        return existing;
+      }
+      const title = passage.metadata?.title;
+      const source: ChatSource = {
+        id,
+        citation: sources.length + 1,
+        title: typeof title === 'string' ? title : undefined,
+        content: passage.content,
+        score: passage.score ?? 0,
+        metadata: passage.metadata,
+      };
+      sources.push(source);
+      return source;
+    });
+  }
+
+  /**
+   * Ends the session's turn: returns its sources in citation order and the
+   * `[n]` markers of the reply that point at one of them.
+   */
+  collect(sessionId: string, reply: string): { sources: ChatSource[]; citations: CitationMarker[] } {
+    const sources = this.turns.get(sessionId) || [];
+    this.turns.delete(sessionId);
+
+    const byNumber = new Map(sources.map((source) => [source.citation, source]));
+    const citations: CitationMarker[] = [];
+    // Matches [1], [1, 3] and [1][2]
+    for (const group of reply.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+      for (const number of group[1].split(',').map((part) => parseInt(part, 10))) {
+        const source = byNumber.get(number);
+        if (source && !citations.some((citation) => citation.marker === `[${number}]`)) {
+          citations.push({ marker: `[${number}]`, sourceId: source.id });
+        }
+      }
+    }
+    return { sources, citations };
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Conversation Service - Durable chat transcripts per session
+ * Records customer and agent messages plus the tools the agent called; the
+ * approvals raised in a session are interleaved when the transcript is read.
+ * CONVERSATION_STORE picks `memory` (default), `file` (CONVERSATION_STORE_DIR)
+ * or `sql` (the PERSISTENCE_DRIVER database).
+ */
+
+import { Injectable } from '@hazeljs/core';
+import logger from '@hazeljs/core';
+import { CONVERSATION_MESSAGES, CONVERSATION_SESSIONS } from '../persistence/collections';
+import { JsonFileRepository } from '../persistence/file.repository';
+import { InMemoryRepository } from '../persistence/memory.repository';
+import { PersistenceService } from '../persistence/persistence.service';
+import type { ConversationRepository } from '../persistence/repository';
+import { ApprovalService, type ApprovalOutcome, type ApprovalStatus } from './approval.service';
+
+/** Entry point the conversation came through; WebSocket chats use `stream` or `hcel` */
+export type ConversationChannel = 'chat' | 'stream' | 'hcel';
+
+export interface ConversationSession {
+  id: string;
+  userId?: string;
+  channel: ConversationChannel;
+  startedAt: Date;
+  lastMessageAt: Date;
+  messageCount: number;
+}
+
+export interface ConversationMessage {
+  id: string;
+  sessionId: string;
+  /** Position within the session, starting at 1 */
+  seq: number;
+  type: 'message' | 'tool_call';
+  role: 'user' | 'assistant' | 'tool';
+  content?: string;
+  toolName?: string;
+  input?: Record<string, unknown>;
+  output?: unknown;
+  executionId?: string;
+  createdAt: Date;
+}
+
+export interface ApprovalTranscriptEntry {
+  type: 'approval';
+  approvalId: string;
+  toolName: string;
+  /** `requested` when the tool asked for approval, then each decision taken on it */
+  event: 'requested' | ApprovalOutcome['action'];
+  status: ApprovalStatus;
+  decidedBy?: string;
+  ruleId?: string;
+  createdAt: Date;
+}
+
+export type TranscriptEntry = ConversationMessage | ApprovalTranscriptEntry;
+
+export interface SessionFilter {
+  userId?: string;
+  /** Sessions with activity at or after this time */
+  from?: Date;
+  /** Sessions started at or before this time */
+  to?: Date;
+}
+
+@Injectable()
+export class ConversationService {
+  readonly store: 'memory' | 'file' | 'sql';
+  private repository: ConversationRepository;
+  /** Serializes writes per session so message sequence numbers stay gapless */
+  private writes: Map<string, Promise<unknown>> = new Map();
+
+  constructor(
+    persistence: PersistenceService,
+    private approvalService: ApprovalService
+  ) {
+    const store = (process.env.CONVERSATION_STORE || 'memory').toLowerCase();
+    if (store === 'sql') {
+      this.store = 'sql';
+      this.repository = persistence.conversations;
+    } else if (store === 'file') {
+      const directory = process.env.CONVERSATION_STORE_DIR || './data/conversations';
+      this.store = 'file';
+      this.repository = {
+        sessions: new JsonFileRepository(CONVERSATION_SESSIONS, directory),
+        messages: new JsonFileRepository(CONVERSATION_MESSAGES, directory),
+      };
+    } else {
+      if (store !== 'memory') {
+        logger.warn(`Unknown CONVERSATION_STORE '${store}', keeping transcripts in memory`);
+      }
+      this.store = 'memory';
+      this.repository = {
+        sessions: new InMemoryRepository(CONVERSATION_SESSIONS),
+        messages: new InMemoryRepository(CONVERSATION_MESSAGES),
+      };
+    }
+  }
+
+  /** Appends a message to the session, opening the session on its first message */
+  async recordMessage(
+    sessionId: string,
+    meta: { userId?: string; channel: ConversationChannel },
+    message: Pick<ConversationMessage, 'role' | 'content' | 'executionId'>
+  ): Promise<ConversationMessage> {
+    return this.append(sessionId, meta, { type: 'message', ...message });
+  }
+
+  async recordToolCall(
+    sessionId: string,
+    call: { toolName: string; input?: Record<string, unknown>; output?: unknown; executionId?: string }
+  ): Promise<ConversationMessage> {
+    return this.append(sessionId, { channel: 'chat' }, { type: 'tool_call', role: 'tool', ...call });
+  }
+
+  async listSessions(filter: SessionFilter = {}): Promise<ConversationSession[]> {
+    const sessions = filter.userId
+      ? await this.repository.sessions.findBy('user_id', filter.userId)
+      : await this.repository.sessions.findAll();
+    return sessions
+      .filter((session) => !filter.from || session.lastMessageAt.getTime() >= filter.from.getTime())
+      .filter((session) => !filter.to || session.startedAt.getTime() <= filter.to.getTime())
+      .sort((a, b) => b.lastMessageAt.getTime() - a.lastMessageAt.getTime());
+  }
+
+  async getSession(sessionId: string): Promise<ConversationSession | null> {
+    return this.repository.sessions.findById(sessionId);
+  }
+
+  /**
+   * Messages and tool calls in order, with the session's approval requests and
+   * decisions interleaved by time.
+   */
+  async transcript(sessionId: string): Promise<TranscriptEntry[]> {
+    const messages = (await this.repository.messages.findBy('session_id', sessionId)).sort((a, b) => a.seq - b.seq);
+    const approvals: ApprovalTranscriptEntry[] = [];
+    for (const approval of await this.approvalService.list({ sessionId })) {
+      approvals.push({
+        type: 'approval',
+        approvalId: approval.id,
+        toolName: approval.toolName,
+        event: 'requested',
+        status: approval.status,
+        createdAt: approval.requestedAt,
+      });
+      for (const outcome of approval.outcomes) {
+        approvals.push({
+          type: 'approval',
+          approvalId: approval.id,
+          toolName: approval.toolName,
+          event: outcome.action,
+          status: approval.status,
+          decidedBy: outcome.decidedBy,
+          ruleId: outcome.ruleId,
+          createdAt: outcome.at,
+        });
+      }
+    }
+
+    // Messages keep their recorded order; each approval entry goes before the first later message
+    const entries: TranscriptEntry[] = [];
+    const pending = approvals.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    for (const message of messages) {
+      while (pending.length && pending[0].createdAt.getTime() < message.createdAt.getTime()) {
+        entries.push(pending.shift()!);
+      }
+      entries.push(message);
+    }
+    return [...entries, ...pending];
+  }
+
+  /** Deletes the session and its messages; approval records stay in the approval audit trail */
+  async deleteSession(sessionId: string): Promise<{ deleted: boolean; messages: number }> {
+    return this.serialize(sessionId, async () => {
+      const messages = await this.repository.messages.findBy('session_id', sessionId);
+      for (const message of messages) {
+        await this.repository.messages.delete(message.id);
+      }
+      const deleted = await this.repository.sessions.delete(sessionId);
+      return { deleted: deleted || messages.length > 0, messages: messages.length };
+    });
+  }
+
+  /** Deletes every session of the user with its messages */
+  async deleteForUser(userId: string): Promise<{ sessions: number; messages: number }> {
+    let sessions = 0;
+    let messages = 0;
+    for (const session of await this.repository.sessions.findBy('user_id', userId)) {
+      const result = await this.deleteSession(session.id);
+      sessions += 1;
+      messages += result.messages;
+    }
+    return { sessions, messages };
+  }
+
+  private async append(
+    sessionId: string,
+    meta: { userId?: string; channel: ConversationChannel },
+    entry: Omit<ConversationMessage, 'id' | 'sessionId' | 'seq' | 'createdAt'>
+  ): Promise<ConversationMessage> {
+    return this.serialize(sessionId, async () => {
+      const now = new Date();
+      const session: ConversationSession = (await this.repository.sessions.findById(sessionId)) || {
+        id: sessionId,
+        userId: meta.userId,
+        channel: meta.channel,
+        startedAt: now,
+        lastMessageAt: now,
+        messageCount: 0,
+      };
+      session.userId = session.userId || meta.userId;
+      session.messageCount += 1;
+      session.lastMessageAt = now;
+
+      const message: ConversationMessage = {
+        ...entry,
+        id: `${sessionId}-M${session.messageCount}`,
+        sessionId,
+        seq: session.messageCount,
+        createdAt: now,
+      };
+      await this.repository.messages.save(message);
+      await this.repository.sessions.save(session);
+      return message;
+    });
+  }
+
+  private serialize<R>(sessionId: string, work: () => Promise<R>): Promise<R> {
+    const previous = this.writes.get(sessionId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(work);
+    this.writes.set(sessionId, next);
+    const cleanup = () => {
+      if (this.writes.get(sessionId) === next) this.writes.delete(sessionId);
+    };
+    next.then(cleanup, cleanup);
+    return next;
+  }
+}
@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PersistenceService } from '../persistence/persistence.service';
+import { ApprovalService } from './approval.service';
+import { CitationAuditService } from './citation-audit.service';
+import { ConversationService } from './conversation.service';
+import { CustomerErasureService } from './customer-erasure.service';
+import { CustomerMemoryService } from './customer-memory.service';
+import { CustomerService } from './customer.service';
+import { InventoryService } from './inventory.service';
+import { KnowledgeBaseService } from './knowledge-base.service';
+import { OrderService } from './order.service';
+import { TicketService } from './ticket.service';
+import { VerificationService } from './verification.service';
+
+delete process.env.REDIS_HOST;
+delete process.env.APPROVAL_STORE_FILE;
+
+async function createErasure() {
+  const persistence = new PersistenceService();
+  await persistence.ready;
+  const approvals = new ApprovalService();
+  const conversations = new ConversationService(persistence, approvals);
+  const customers = new CustomerService(persistence);
+  const orders = new OrderService(persistence);
+  const inventory = new InventoryService(persistence);
+  const verification = new VerificationService(customers, orders);
+  const erasure = new CustomerErasureService(
+    new CustomerMemoryService(persistence),
+    conversations,
+    new TicketService(persistence),
+    new KnowledgeBaseService(persistence),
+    new CitationAuditService(persistence),
+    customers,
+    orders,
+    inventory,
+    approvals,
+    verification
+  );
+  return { approvals, conversations, orders, inventory, verification, erasure };
+}
+
+test('erases the customer from subscriptions, approvals, order address history and verified sessions', async () => {
+  const { approvals, conversations, orders, inventory, verification, erasure } = await createErasure();
+  await conversations.recordMessage('S-1', { userId: 'cust-001', channel: 'chat' }, { role: 'user', content: 'Hi' });
+  await verification.verifyChallenge(
+    { sessionId: 'S-2' },
+    { orderId: 'ORD-12349', email: 'jane.doe@example.com', postalCode: '12345' }
+  );
+  await approvals.record({ id: 'APR-1', toolName: 'processRefund', input: { orderId: 'ORD-12346' }, sessionId: 'S-1' });
+  await approvals.record({ id: 'APR-2', toolName: 'processRefund', input: { orderId: 'ORD-12347' }, userId: 'cust-002' });
+  await orders.updateAddress('ORD-12349', {
+    line1: '1 New St',
+    city: 'Springfield',
+    region: 'IL',
+    postalCode: '12345',
+    country: 'US',
+  });
+  await inventory.subscribeBackInStock({ sku: 'PROD-001-M', contact: 'jane.doe@example.com' });
+  await inventory.subscribeBackInStock({ sku: 'PROD-002-S', contact: 'john.smith@example.com', customerId: 'cust-002' });
+
+  const report = await erasure.forget('cust-001');
+
+  assert.deepEqual(report.errors, []);
+  assert.equal(report.sessions, 1);
+  assert.equal(report.verifiedSessions, 1);
+  assert.deepEqual(report.redactedApprovals, ['APR-1']);
+  assert.deepEqual(report.addressHistoryOrders, ['ORD-12349']);
+  assert.equal(report.backInStockSubscriptions, 1);
+
+  const redacted = await approvals.findById('APR-1');
+  assert.deepEqual(redacted!.input, {});
+  assert.equal(redacted!.sessionId, undefined);
+  assert.ok(redacted!.redactedAt);
+  assert.deepEqual((await approvals.findById('APR-2'))!.input, { orderId: 'ORD-12347' });
+  assert.deepEqual((await orders.findById('ORD-12349'))!.addressHistory, []);
+  assert.equal(verification.isAuthorizedForCustomer('cust-001', { sessionId: 'S-2' }), false);
+  assert.deepEqual(
+    (await inventory.openSubscriptions()).map((subscription) => subscription.contact),
+    ['john.smith@example.com']
+  );
+});
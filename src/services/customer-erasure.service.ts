@@ -0,0 +1,140 @@
+/**
+ * Customer Erasure Service - "Forget this customer" (GDPR right to erasure)
+ * Purges the customer's memory items, session transcripts, back-in-stock
+ * subscriptions and knowledge base documents tagged with them, withdraws their
+ * verified chat sessions, drops previous addresses from their orders and
+ * redacts their tickets. Each step runs even when an earlier one fails and is
+ * safe to repeat, so a partial erasure is finished by running it again.
+ * Approval records and the citation audit are kept for audit, redacted and
+ * unlinked from the customer.
+ */
+
+import { Injectable } from '@hazeljs/core';
+import logger from '@hazeljs/core';
+import { CitationAuditService } from './citation-audit.service';
+import { ApprovalService } from './approval.service';
+import { ConversationService } from './conversation.service';
+import { CustomerService } from './customer.service';
+import { CustomerMemoryService } from './customer-memory.service';
+import { InventoryService } from './inventory.service';
+import { KnowledgeBaseService } from './knowledge-base.service';
+import { OrderService } from './order.service';
+import { TicketService } from './ticket.service';
+import { VerificationService } from './verification.service';
+
+export interface ErasureReport {
+  userId: string;
+  requestedAt: Date;
+  completedAt: Date;
+  memoryItems: number;
+  sessions: number;
+  messages: number;
+  /** Chat sessions that had verified the customer */
+  verifiedSessions: number;
+  redactedTickets: string[];
+  /** Approval records whose tool input was dropped and customer/session unlinked */
+  redactedApprovals: string[];
+  /** Orders whose previous shipping addresses were dropped */
+  addressHistoryOrders: string[];
+  backInStockSubscriptions: number;
+  documents: { deleted: string[]; chunks: number };
+  /** Citation audit entries unlinked from the customer */
+  citations: number;
+  /** Steps that failed; run the erasure again to finish them */
+  errors: Array<{ step: string; message: string }>;
+}
+
+@Injectable()
+export class CustomerErasureService {
+  constructor(
+    private customerMemoryService: CustomerMemoryService,
+    private conversationService: ConversationService,
+    private ticketService: TicketService,
+    private knowledgeBaseService: KnowledgeBaseService,
+    private citationAuditService: CitationAuditService,
+    private customerService: CustomerService,
+    private orderService: OrderService,
+    private inventoryService: InventoryService,
+    private approvalService: ApprovalService,
+    private verificationService: VerificationService
+  ) {}
+
+  async forget(userId: string): Promise<ErasureReport> {
+    const report: ErasureReport = {
+      userId,
+      requestedAt: new Date(),
+      completedAt: new Date(),
+      memoryItems: 0,
+      sessions: 0,
+      messages: 0,
+      verifiedSessions: 0,
+      redactedTickets: [],
+      redactedApprovals: [],
+      addressHistoryOrders: [],
+      backInStockSubscriptions: 0,
+      documents: { deleted: [], chunks: 0 },
+      citations: 0,
+      errors: [],
+    };
+
+    const step = async (name: string, work: () => Promise<void>) => {
+      try {
+        await work();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        logger.warn(`[erasure] ${name} failed for ${userId}: ${message}`);
+        report.errors.push({ step: name, message });
+      }
+    };
+
+    await step('memory', async () => {
+      report.memoryItems = await this.customerMemoryService.forget(userId);
+    });
+    // Approvals are matched by session too, so they are redacted before the sessions go
+    await step('approvals', async () => {
+      const sessionIds = (await this.conversationService.listSessions({ userId })).map((session) => session.id);
+      report.redactedApprovals = (await this.approvalService.redactCustomer(userId, sessionIds)).map(
+        (record) => record.id
+      );
+    });
+    await step('sessions', async () => {
+      const { sessions, messages } = await this.conversationService.deleteForUser(userId);
+      report.sessions = sessions;
+      report.messages = messages;
+    });
+    await step('verification', async () => {
+      report.verifiedSessions = this.verificationService.revokeCustomer(userId);
+    });
+    await step('tickets', async () => {
+      report.redactedTickets = (await this.ticketService.redactCustomer(userId)).map((ticket) => ticket.id);
+    });
+    await step('orders', async () => {
+      report.addressHistoryOrders = await this.orderService.eraseAddressHistory(userId);
+    });
+    await step('subscriptions', async () => {
+      const customer = await this.customerService.findById(userId);
+      const contacts = customer ? [customer.email, customer.phone] : [];
+      report.backInStockSubscriptions = await this.inventoryService.deleteSubscriptionsFor(userId, contacts);
+    });
+    await step('documents', async () => {
+      for (const document of await this.knowledgeBaseService.listForUser(userId)) {
+        await this.knowledgeBaseService.remove(document.id);
+        report.documents.deleted.push(document.id);
+        report.documents.chunks += document.versions.reduce((count, version) => count + version.chunkIds.length, 0);
+      }
+    });
+    await step('citations', async () => {
+      report.citations = await this.citationAuditService.anonymize(userId);
+    });
+
+    report.completedAt = new Date();
+    logger.info(
+      `[erasure] ${userId}: ${report.memoryItems} memory items, ${report.sessions} sessions, ` +
+        `${report.redactedTickets.length} tickets, ${report.redactedApprovals.length} approvals, ` +
+        `${report.addressHistoryOrders.length} order address histories, ` +
+        `${report.backInStockSubscriptions} subscriptions, ${report.documents.deleted.length} documents` +
+        (report.errors.length ? ` (${report.errors.length} steps failed)` : '')
+    );
+    return report;
+  }
+}
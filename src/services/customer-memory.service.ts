@@ -0,0 +1,337 @@
+/**
+ * Customer Memory Service - Durable customer memory behind @hazeljs/memory recall
+ * Items are kept in the store picked by MEMORY_STORE (`in-memory`, `file`,
+ * `sql` or `redis`); the MemoryService used by HCEL recall is rebuilt from
+ * that store at startup, so memory survives restarts on any durable backend.
+ * MEMORY_RETENTION_DAYS applies the same per-category retention everywhere.
+ */
+
+import { Injectable } from '@hazeljs/core';
+import logger from '@hazeljs/core';
+import { createMemoryStore, MemoryCategory, MemoryService } from '@hazeljs/memory';
+import Redis from 'ioredis';
+import { MEMORY_ITEMS } from '../persistence/collections';
+import { JsonFileRepository } from '../persistence/file.repository';
+import { InMemoryRepository } from '../persistence/memory.repository';
+import { PersistenceService } from '../persistence/persistence.service';
+import { RedisRepository } from '../persistence/redis.repository';
+import type { Repository } from '../persistence/repository';
+
+export type MemoryBackend = 'in-memory' | 'file' | 'sql' | 'redis';
+
+export interface CustomerMemoryItem {
+  id: string;
+  userId: string;
+  sessionId?: string;
+  category: MemoryCategory;
+  key: string;
+  value: string;
+  confidence: number;
+  /** `explicit` when stated or seeded directly, `inferred` when extracted from a conversation */
+  source: 'explicit' | 'inferred';
+  /** IDs of the messages the item was learned from */
+  evidence: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MemoryBackendStatus {
+  backend: MemoryBackend;
+  /** `degraded` when the configured store was unreachable and memory fell back to in-memory */
+  status: 'starting' | 'ok' | 'degraded';
+  items: number;
+  /** Days an item is kept after its last update, per category; categories not listed never expire */
+  retentionDays: Record<string, number>;
+  error?: string;
+  checkedAt?: Date;
+}
+
+export type MemoryUpsertAction = 'created' | 'merged' | 'updated' | 'unchanged';
+
+export interface MemoryItemInput {
+  userId: string;
+  sessionId?: string;
+  category: MemoryCategory;
+  key: string;
+  value: string;
+  confidence?: number;
+  source?: CustomerMemoryItem['source'];
+  evidence?: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class CustomerMemoryService {
+  private store: Repository<CustomerMemoryItem>;
+  private memoryService: MemoryService | null = null;
+  private sequence = 0;
+  private sweepTimer?: NodeJS.Timeout;
+  private redis?: Redis;
+  private readonly retentionDays = parseRetention(process.env.MEMORY_RETENTION_DAYS ?? 'episodic:90,preference:365');
+  private readonly sweepMinutes = parseInt(process.env.MEMORY_RETENTION_SWEEP_MINUTES || '60', 10);
+  private readonly startupTimeoutMs = parseInt(process.env.MEMORY_STORE_TIMEOUT_MS || '5000', 10);
+  private status: MemoryBackendStatus;
+
+  constructor(private persistence: PersistenceService) {
+    const backend = this.resolveBackend();
+    this.store = this.createStore(backend);
+    this.status = { backend, status: 'starting', items: 0, retentionDays: this.retentionDays };
+  }
+
+  /**
+   * Startup check: verifies the configured store answers, drops expired items
+   * and loads the rest into the recall index. An unreachable store is
+   * reported as degraded and memory runs in-memory for this process.
+   */
+  async initialize(): Promise<MemoryBackendStatus> {
+    try {
+      await Promise.race([
+        this.store.count(),
+        new Promise((_, reject) =>
+          setTimeout(() => reject(new Error(`no answer within ${this.startupTimeoutMs}ms`)), this.startupTimeoutMs).unref()
+        ),
+      ]);
+      this.status.status = 'ok';
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.warn(`Memory store '${this.status.backend}' unavailable, falling back to in-memory: ${message}`);
+      this.redis?.disconnect();
+      this.store = new InMemoryRepository(MEMORY_ITEMS);
+      this.status = { ...this.status, status: 'degraded', error: message };
+    }
+
+    await this.sweep(false);
+    await this.rebuildIndex();
+
+    if (this.sweepMinutes > 0 && !this.sweepTimer) {
+      this.sweepTimer = setInterval(() => void this.sweep(true), this.sweepMinutes * 60 * 1000);
+      this.sweepTimer.unref();
+    }
+    logger.info(`Customer memory ready (${this.status.backend}, ${this.status.items} items, ${this.status.status})`);
+    return this.getStatus();
+  }
+
+  /** MemoryService for HCEL `.memory()` recall */
+  getMemoryService(): MemoryService {
+    if (!this.memoryService) {
+      throw new Error('MemoryService not ready; ensure CSRService.initialize() ran at bootstrap');
+    }
+    return this.memoryService;
+  }
+
+  getStatus(): MemoryBackendStatus {
+    return { ...this.status, retentionDays: { ...this.retentionDays } };
+  }
+
+  async save(input: MemoryItemInput): Promise<CustomerMemoryItem> {
+    const now = new Date();
+    const item: CustomerMemoryItem = {
+      id: `MEM-${now.getTime()}-${++this.sequence}`,
+      userId: input.userId,
+      sessionId: input.sessionId,
+      category: input.category,
+      key: input.key,
+      value: input.value,
+      confidence: input.confidence ?? 1,
+      source: input.source ?? 'explicit',
+      evidence: input.evidence ?? [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.store.save(item);
+    await this.index(item);
+    this.status.items += 1;
+    return item;
+  }
+
+  async listForUser(userId: string): Promise<CustomerMemoryItem[]> {
+    return (await this.store.findBy('user_id', userId)).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  /**
+   * Saves an item unless the user already has one under the same key:
+   * - same value: new evidence is merged in and confidence reinforced
+   * - different value: preferences and explicit statements replace the old
+   *   value (the customer changed their mind); inferred episodes only replace
+   *   it when at least as confident
+   */
+  async upsert(input: MemoryItemInput): Promise<{ item: CustomerMemoryItem; action: MemoryUpsertAction }> {
+    const [existing] = (await this.listForUser(input.userId)).filter((item) => item.key === input.key);
+    if (!existing) {
+      return { item: await this.save(input), action: 'created' };
+    }
+
+    const confidence = input.confidence ?? 1;
+    const source = input.source ?? 'explicit';
+    const evidence = input.evidence ?? [];
+    let action: MemoryUpsertAction = 'unchanged';
+
+    if (existing.value.trim().toLowerCase() === input.value.trim().toLowerCase()) {
+      const fresh = evidence.filter((id) => !existing.evidence.includes(id));
+      if (fresh.length > 0 || source === 'explicit') {
+        existing.evidence = [...existing.evidence, ...fresh];
+        // Independent observations reinforce each other; only explicit statements reach certainty
+        existing.confidence =
+          source === 'explicit' ? 1 : Math.min(0.99, 1 - (1 - existing.confidence) * (1 - confidence));
+        action = 'merged';
+      }
+    } else if (
+      source === 'explicit' ||
+      input.category === MemoryCategory.PREFERENCE ||
+      confidence >= existing.confidence
+    ) {
+      existing.value = input.value;
+      existing.confidence = confidence;
+      existing.evidence = evidence;
+      existing.source = source;
+      action = 'updated';
+    }
+
+    if (action === 'unchanged') return { item: existing, action };
+    existing.sessionId = input.sessionId ?? existing.sessionId;
+    existing.updatedAt = new Date();
+    await this.store.save(existing);
+    // The recall index has no per-item update, so it is rebuilt from the store
+    await this.rebuildIndex();
+    return { item: existing, action };
+  }
+
+  async findById(id: string): Promise<CustomerMemoryItem | null> {
+    return this.store.findById(id);
+  }
+
+  /**
+   * Corrects an item by hand. A new value counts as stated by the customer, so
+   * the item becomes explicit with full confidence unless one is given.
+   */
+  async update(
+    id: string,
+    changes: { value?: string; category?: MemoryCategory; confidence?: number }
+  ): Promise<CustomerMemoryItem | null> {
+    const item = await this.store.findById(id);
+    if (!item) return null;
+    if (changes.value !== undefined && changes.value !== item.value) {
+      item.value = changes.value;
+      item.source = 'explicit';
+      item.confidence = 1;
+    }
+    if (changes.category !== undefined) item.category = changes.category;
+    if (changes.confidence !== undefined) item.confidence = changes.confidence;
+    item.updatedAt = new Date();
+    await this.store.save(item);
+    await this.rebuildIndex();
+    return item;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await this.store.delete(id);
+    if (deleted) await this.rebuildIndex();
+    return deleted;
+  }
+
+  /** Deletes every item held for the user; returns how many were removed */
+  async forget(userId: string): Promise<number> {
+    const items = await this.store.findBy('user_id', userId);
+    for (const item of items) {
+      await this.store.delete(item.id);
+    }
+    if (items.length > 0) await this.rebuildIndex();
+    return items.length;
+  }
+
+  /** Rebuilds the recall index from the durable store */
+  private async rebuildIndex(): Promise<void> {
+    const memoryService = new MemoryService(createMemoryStore({ type: 'in-memory' }));
+    await memoryService.initialize();
+    const items = await this.store.findAll();
+    this.memoryService = memoryService;
+    for (const item of items) {
+      await this.index(item);
+    }
+    this.status.items = items.length;
+    this.status.checkedAt = new Date();
+  }
+
+  private async index(item: CustomerMemoryItem): Promise<void> {
+    await this.getMemoryService().save({
+      userId: item.userId,
+      sessionId: item.sessionId,
+      category: item.category,
+      key: item.key,
+      value: item.value,
+      confidence: item.confidence,
+      source: item.source,
+      evidence: item.evidence,
+    });
+  }
+
+  /** Deletes items past their category's retention; rebuilds the index when anything was removed */
+  private async sweep(rebuild: boolean): Promise<void> {
+    const now = Date.now();
+    let removed = 0;
+    try {
+      for (const item of await this.store.findAll()) {
+        const days = this.retentionDays[String(item.category).toLowerCase()];
+        if (days > 0 && item.updatedAt.getTime() + days * DAY_MS < now) {
+          await this.store.delete(item.id);
+          removed += 1;
+        }
+      }
+      if (removed > 0) {
+        logger.info(`[memory] retention removed ${removed} expired items`);
+        if (rebuild) await this.rebuildIndex();
+      }
+    } catch (err) {
+      logger.warn('[memory] retention sweep failed:', err);
+    }
+  }
+
+  private createStore(backend: MemoryBackend): Repository<CustomerMemoryItem> {
+    switch (backend) {
+      case 'file':
+        return new JsonFileRepository(MEMORY_ITEMS, process.env.MEMORY_STORE_DIR || './data/memory');
+      case 'sql':
+        return this.persistence.memory;
+      case 'redis': {
+        const redis = (this.redis = process.env.MEMORY_REDIS_URL
+          ? new Redis(process.env.MEMORY_REDIS_URL, { lazyConnect: true, maxRetriesPerRequest: 2 })
+          : new Redis({
+              host: process.env.REDIS_HOST || 'localhost',
+              port: parseInt(process.env.REDIS_PORT || '6379', 10),
+              lazyConnect: true,
+              maxRetriesPerRequest: 2,
+            }));
+        let reported = false;
+        redis.on('error', (err) => {
+          if (!reported) logger.warn('[memory] Redis error:', err);
+          reported = true;
+        });
+        return new RedisRepository(redis, MEMORY_ITEMS);
+      }
+      default:
+        return new InMemoryRepository(MEMORY_ITEMS);
+    }
+  }
+
+  private resolveBackend(): MemoryBackend {
+    const backend = (process.env.MEMORY_STORE || 'in-memory').toLowerCase();
+    if (backend === 'file' || backend === 'sql' || backend === 'redis') return backend;
+    if (backend !== 'in-memory') {
+      logger.warn(`Unknown MEMORY_STORE '${backend}', using in-memory storage`);
+    }
+    return 'in-memory';
+  }
+}
+
+/** Parses `episodic:90,preference:365` into `{ episodic: 90, preference: 365 }` */
+function parseRetention(value: string): Record<string, number> {
+  const retention: Record<string, number> = {};
+  for (const entry of value.split(',')) {
+    const [category, days] = entry.split(':').map((part) => part.trim());
+    if (category && days && !Number.isNaN(Number(days))) {
+      retention[category.toLowerCase()] = Number(days);
+    }
+  }
+  return retention;
+}
@@ -0,0 +1,54 @@
+/**
+ * Customer Service - Mock customer directory for CSR agent
+ * Sample customers are seeded with the fixtures; replace with real customer/identity service in production
+ */
+
+import { Injectable } from '@hazeljs/core';
+import { PersistenceService } from '../persistence/persistence.service';
+import type { Repository } from '../persistence/repository';
+
+export interface Customer {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  /** Billing postal code, used as a verification challenge */
+  postalCode: string;
+  orderIds: string[];
+}
+
+/**
+ * Phone lookups compare the last ten digits (the national number, without a
+ * country code), so a partial number can never match whichever customer's
+ * phone happens to end with it
+ */
+const PHONE_MATCH_DIGITS = 10;
+
+@Injectable()
+export class CustomerService {
+  private customers: Repository<Customer>;
+
+  constructor(persistence: PersistenceService) {
+    this.customers = persistence.customers;
+  }
+
+  async findById(id: string): Promise<Customer | null> {
+    return this.customers.findById(id);
+  }
+
+  async findByEmail(email: string): Promise<Customer | null> {
+    const [customer] = await this.customers.findBy('email', email.trim().toLowerCase());
+    return customer || null;
+  }
+
+  async findByPhone(phone: string): Promise<Customer | null> {
+    const digits = phone.replace(/\D/g, '');
+    if (digits.length < PHONE_MATCH_DIGITS) return null;
+    const national = digits.slice(-PHONE_MATCH_DIGITS);
+    return (
+      (await this.customers.findAll()).find(
+        (customer) => customer.phone.replace(/\D/g, '').slice(-PHONE_MATCH_DIGITS) === national
+      ) || null
+    );
+  }
+}
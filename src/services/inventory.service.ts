@@ -1,17 +1,365 @@
 /**
  * Inventory Service - Mock implementation for CSR agent
- * Replace with real inventory service in production
+ * Products with variant SKUs, per-warehouse stock, reservations and
+ * back-in-stock subscriptions. Replace with real inventory service in production.
  */
 
+import { Injectable } from '@hazeljs/core';
+import { PersistenceService } from '../persistence/persistence.service';
+import type { InventoryRepository } from '../persistence/repository';
+import type { Order } from './order.service';
+
+export interface Warehouse {
+  id: string;
+  name: string;
+  city: string;
+  region: string;
+  country: string;
+}
+
+export interface ProductVariant {
+  sku: string;
+  productId: string;
+  /** e.g. { size: 'M', color: 'blue' } */
+  attributes: Record<string, string>;
+}
+
+export interface Product {
+  id: string;
+  name: string;
+  category: string;
+  tags: string[];
+  variants: ProductVariant[];
+}
+
+export interface StockLevel {
+  sku: string;
+  warehouseId: string;
+  onHand: number;
+  nextRestock?: Date;
+  restockQuantity?: number;
+}
+
+export interface Reservation {
+  id: string;
+  sku: string;
+  warehouseId: string;
+  quantity: number;
+  /** Order, cart or session holding the stock */
+  reference: string;
+  status: 'active' | 'released' | 'fulfilled';
+  /** Unset for order holds, which last until the order ships or is cancelled */
+  expiresAt?: Date;
+  createdAt: Date;
+}
+
+export interface BackInStockSubscription {
+  id: string;
+  sku: string;
+  customerId?: string;
+  contact: string;
+  channel: 'email' | 'sms';
+  createdAt: Date;
+  notifiedAt?: Date;
+}
+
+export interface WarehouseAvailability {
+  warehouseId: string;
+  warehouseName: string;
+  city: string;
+  region: string;
+  available: number;
+  nextRestock?: Date;
+}
+
+export interface VariantAvailability {
+  sku: string;
+  attributes: Record<string, string>;
+  available: number;
+  nextRestock?: Date;
+  warehouses: WarehouseAvailability[];
+}
+
+@Injectable()
 export class InventoryService {
-  private inventory: Map<string, { quantity: number; nextRestock: Date }> = new Map();
+  private store: InventoryRepository;
+  private sequence = 0;
+
+  constructor(persistence: PersistenceService) {
+    this.store = persistence.inventory;
+  }
+
+  async findProduct(productIdOrSku: string): Promise<Product | null> {
+    return (
+      (await this.store.products.findById(productIdOrSku)) ||
+      (await this.store.products.findAll()).find((product) =>
+        product.variants.some((variant) => variant.sku === productIdOrSku)
+      ) ||
+      null
+    );
+  }
+
+  /**
+   * Availability per variant, optionally narrowed to variant attributes
+   * (e.g. `{ size: 'M' }`). Warehouses in `near.region` are listed first.
+   */
+  async availability(
+    productId: string,
+    options: { attributes?: Record<string, string>; near?: { region?: string; country?: string } } = {}
+  ): Promise<VariantAvailability[] | null> {
+    const product = await this.findProduct(productId);
+    if (!product) return null;
+
+    const wanted = Object.entries(options.attributes || {}).filter(([, value]) => value);
+    const variants = product.variants.filter((variant) =>
+      wanted.every(([key, value]) => variant.attributes[key]?.toLowerCase() === value.toLowerCase())
+    );
+
+    const sites = new Map((await this.store.warehouses.findAll()).map((warehouse) => [warehouse.id, warehouse]));
+    const result: VariantAvailability[] = [];
+    for (const variant of variants) {
+      const warehouses: WarehouseAvailability[] = [];
+      for (const level of await this.store.stock.findBy('sku', variant.sku)) {
+        const warehouse = sites.get(level.warehouseId)!;
+        warehouses.push({
+          warehouseId: warehouse.id,
+          warehouseName: warehouse.name,
+          city: warehouse.city,
+          region: warehouse.region,
+          available: await this.freeQuantity(level),
+          nextRestock: level.nextRestock,
+        });
+      }
+      warehouses.sort(
+        (a, b) => proximity(sites.get(b.warehouseId)!, options.near) - proximity(sites.get(a.warehouseId)!, options.near)
+      );
+
+      result.push({
+        sku: variant.sku,
+        attributes: variant.attributes,
+        available: warehouses.reduce((sum, warehouse) => sum + warehouse.available, 0),
+        nextRestock: earliest(warehouses.map((warehouse) => warehouse.nextRestock)),
+        warehouses,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * In-stock products from the same category, ranked by shared tags.
+   */
+  async suggestAlternatives(productId: string, limit = 3): Promise<Array<{ productId: string; name: string; available: number }>> {
+    const product = await this.findProduct(productId);
+    if (!product) return [];
+
+    const candidates = (await this.store.products.findBy('category', product.category)).filter(
+      (candidate) => candidate.id !== product.id && candidate.category === product.category
+    );
+    const ranked: Array<{ productId: string; name: string; available: number; score: number }> = [];
+    for (const candidate of candidates) {
+      const stock = await this.check(candidate.id);
+      if (!stock || stock.quantity === 0) continue;
+      ranked.push({
+        productId: candidate.id,
+        name: candidate.name,
+        available: stock.quantity,
+        score: candidate.tags.filter((tag) => product.tags.includes(tag)).length,
+      });
+    }
+
+    return ranked
+      .sort((a, b) => b.score - a.score || b.available - a.available)
+      .slice(0, limit)
+      .map(({ productId: id, name, available }) => ({ productId: id, name, available }));
+  }
+
+  /**
+   * Holds stock for an order or cart. Picks the first warehouse with enough
+   * free stock unless one is given; returns null when nothing can be held.
+   * Without `ttlMinutes` the hold lasts until it is released.
+   */
+  async reserve(data: {
+    sku: string;
+    quantity: number;
+    reference: string;
+    warehouseId?: string;
+    ttlMinutes?: number;
+  }): Promise<Reservation | null> {
+    let level: StockLevel | undefined;
+    for (const candidate of await this.store.stock.findBy('sku', data.sku)) {
+      if (data.warehouseId && candidate.warehouseId !== data.warehouseId) continue;
+      if ((await this.freeQuantity(candidate)) >= data.quantity) {
+        level = candidate;
+        break;
+      }
+    }
+    if (!level) return null;
 
-  constructor() {
-    this.inventory.set('PROD-001', { quantity: 10, nextRestock: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) });
-    this.inventory.set('PROD-002', { quantity: 0, nextRestock: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000) });
+    const now = new Date();
+    const reservation: Reservation = {
+      id: `RSV-${now.getTime()}-${++this.sequence}`,
+      sku: data.sku,
+      warehouseId: level.warehouseId,
+      quantity: data.quantity,
+      reference: data.reference,
+      status: 'active',
+      expiresAt: data.ttlMinutes !== undefined ? new Date(now.getTime() + data.ttlMinutes * 60 * 1000) : undefined,
+      createdAt: now,
+    };
+    return this.store.reservations.save(reservation);
   }
 
-  async check(productId: string): Promise<{ quantity: number; nextRestock: Date } | null> {
-    return this.inventory.get(productId) || null;
+  async releaseReservation(id: string): Promise<Reservation | null> {
+    const reservation = await this.store.reservations.findById(id);
+    if (!reservation) return null;
+    if (reservation.status !== 'active') return reservation;
+    reservation.status = 'released';
+    return this.store.reservations.save(reservation);
   }
+
+  /**
+   * Holds stock for each item of an order that is not held yet, so seeding or
+   * restarting twice doesn't double-book. Returns the SKUs that couldn't be held.
+   */
+  async holdOrder(order: Order): Promise<string[]> {
+    const held = new Set((await this.orderReservations(order.id)).map((reservation) => reservation.sku));
+    const unheld: string[] = [];
+    for (const item of order.items) {
+      if (held.has(item.sku)) continue;
+      const reservation = await this.reserve({ sku: item.sku, quantity: item.quantity, reference: order.id });
+      if (!reservation) unheld.push(item.sku);
+    }
+    return unheld;
+  }
+
+  /** Returns an order's held stock, e.g. once it is cancelled */
+  async releaseOrder(orderId: string): Promise<Reservation[]> {
+    const released: Reservation[] = [];
+    for (const reservation of await this.orderReservations(orderId)) {
+      released.push((await this.releaseReservation(reservation.id))!);
+    }
+    return released;
+  }
+
+  async subscribeBackInStock(data: {
+    sku: string;
+    contact: string;
+    channel?: 'email' | 'sms';
+    customerId?: string;
+  }): Promise<BackInStockSubscription> {
+    const existing = (await this.store.subscriptions.findBy('sku', data.sku)).find(
+      (subscription) => subscription.sku === data.sku && subscription.contact === data.contact && !subscription.notifiedAt
+    );
+    if (existing) return existing;
+
+    const subscription: BackInStockSubscription = {
+      id: `BIS-${Date.now()}-${++this.sequence}`,
+      sku: data.sku,
+      contact: data.contact,
+      channel: data.channel || 'email',
+      customerId: data.customerId,
+      createdAt: new Date(),
+    };
+    return this.store.subscriptions.save(subscription);
+  }
+
+  async findSubscription(id: string): Promise<BackInStockSubscription | null> {
+    return this.store.subscriptions.findById(id);
+  }
+
+  /** Subscriptions still waiting for their back-in-stock notification */
+  async openSubscriptions(): Promise<BackInStockSubscription[]> {
+    return (await this.store.subscriptions.findAll()).filter((subscription) => !subscription.notifiedAt);
+  }
+
+  /** Deletes the back-in-stock subscriptions made by the customer or sent to one of their contacts */
+  async deleteSubscriptionsFor(customerId: string, contacts: string[] = []): Promise<number> {
+    const normalized = contacts.map((contact) => contact.trim().toLowerCase());
+    let deleted = 0;
+    for (const subscription of await this.store.subscriptions.findAll()) {
+      if (subscription.customerId !== customerId && !normalized.includes(subscription.contact.trim().toLowerCase())) {
+        continue;
+      }
+      if (await this.store.subscriptions.delete(subscription.id)) deleted += 1;
+    }
+    return deleted;
+  }
+
+  async markNotified(id: string): Promise<void> {
+    const subscription = await this.store.subscriptions.findById(id);
+    if (!subscription) return;
+    subscription.notifiedAt = new Date();
+    await this.store.subscriptions.save(subscription);
+  }
+
+  /** Earliest scheduled restock for a SKU across warehouses */
+  async nextRestock(sku: string): Promise<Date | undefined> {
+    return earliest((await this.store.stock.findBy('sku', sku)).map((level) => level.nextRestock));
+  }
+
+  /** Mock warehouse receiving: books restocks whose date has passed */
+  async applyDueRestocks(): Promise<void> {
+    const now = Date.now();
+    for (const level of await this.store.stock.findAll()) {
+      if (level.nextRestock && level.nextRestock.getTime() <= now) {
+        level.onHand += level.restockQuantity ?? 0;
+        level.nextRestock = undefined;
+        level.restockQuantity = undefined;
+        await this.store.stock.save(level);
+      }
+    }
+  }
+
+  async availableQuantity(sku: string): Promise<number> {
+    let available = 0;
+    for (const level of await this.store.stock.findBy('sku', sku)) {
+      available += await this.freeQuantity(level);
+    }
+    return available;
+  }
+
+  /** Aggregate stock for a product across variants and warehouses */
+  private async check(productId: string): Promise<{ quantity: number; nextRestock: Date } | null> {
+    const variants = await this.availability(productId);
+    if (!variants) return null;
+    return {
+      quantity: variants.reduce((sum, variant) => sum + variant.available, 0),
+      nextRestock: earliest(variants.map((variant) => variant.nextRestock)),
+    };
+  }
+
+  private async orderReservations(orderId: string): Promise<Reservation[]> {
+    return (await this.store.reservations.findBy('status', 'active')).filter(
+      (reservation) => reservation.reference === orderId
+    );
+  }
+
+  /** On-hand stock minus active reservations; expired reservations are released on the way */
+  private async freeQuantity(level: StockLevel): Promise<number> {
+    const now = Date.now();
+    let reserved = 0;
+    for (const reservation of await this.store.reservations.findBy('sku', level.sku)) {
+      if (reservation.status === 'active' && reservation.expiresAt && reservation.expiresAt.getTime() <= now) {
+        reservation.status = 'released';
+        await this.store.reservations.save(reservation);
+      }
+      if (reservation.status === 'active' && reservation.warehouseId === level.warehouseId) {
+        reserved += reservation.quantity;
+      }
+    }
+    return Math.max(0, level.onHand - reserved);
+  }
+}
+
+function proximity(warehouse: Warehouse, near?: { region?: string; country?: string }): number {
+  if (!near) return 0;
+  if (near.region && warehouse.region.toUpperCase() === near.region.toUpperCase()) return 2;
+  if (near.country && warehouse.country.toUpperCase() === near.country.toUpperCase()) return 1;
+  return 0;
+}
+
+function earliest(dates: Array<Date | undefined>): Date | undefined {
+  return dates
+    .filter((date): date is Date => !!date)
+    .sort((a, b) => a.getTime() - b.getTime())[0];
 }
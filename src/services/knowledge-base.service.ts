@@ -0,0 +1,512 @@
+/**
+ * Knowledge Base Service - Ingestion into the RAG vector store with a versioned document registry
+ * Each document is registered under a stable key (given, or derived from the
+ * title) and keeps every version ingested under it: the chunk IDs the vector
+ * store returned, a hash of its content and the period it is in force
+ * (`effectiveFrom`/`effectiveTo`). A version ingested with a new effective
+ * date is added next to the others; one with the same effective date
+ * supersedes the earlier text, whose chunks are deleted but whose content is
+ * kept for the citation audit. Nothing changes when the hash is unchanged.
+ * The vector store is attached by CSRService once HazelAI is up.
+ *
+ * Search is hybrid by default (KB_RETRIEVAL=hybrid|vector|keyword): vector
+ * chunks and a BM25 index over the registered versions are ranked
+ * separately, narrowed to the version of each document in force at the
+ * requested date (default: now) and the metadata filters, fused per document
+ * with reciprocal-rank fusion and optionally reranked (see knowledge/rerankers.ts).
+ */
+
+import { createHash } from 'crypto';
+import { Injectable } from '@hazeljs/core';
+import logger from '@hazeljs/core';
+import { PersistenceService } from '../persistence/persistence.service';
+import type { Repository } from '../persistence/repository';
+import { Bm25Index, tokenize } from '../knowledge/bm25';
+import { createReranker, type Reranker } from '../knowledge/rerankers';
+
+const RETRIEVAL_MODE = (process.env.KB_RETRIEVAL || 'hybrid').toLowerCase();
+const RRF_K = parseInt(process.env.KB_RRF_K || '60', 10);
+const VECTOR_MIN_SCORE = parseFloat(process.env.KB_VECTOR_MIN_SCORE || '0.3');
+const RERANK_CANDIDATES = parseInt(process.env.KB_RERANK_CANDIDATES || '20', 10);
+const EXCERPT_CHARS = parseInt(process.env.KB_CHUNK_CHARS || '1500', 10);
+
+export interface KnowledgeDocumentVersion {
+  /** 1 for the first version ingested under the key, then increasing */
+  version: number;
+  title: string;
+  /** Full text, kept for keyword search and the citation audit */
+  content: string;
+  /** IDs of the chunks stored in the vector store; emptied once superseded */
+  chunkIds: string[];
+  /** SHA-256 of title, content, metadata and effectiveTo */
+  contentHash: string;
+  metadata: Record<string, unknown>;
+  /** In force from this instant; unset means since always */
+  effectiveFrom?: Date;
+  /** No longer in force from this instant; unset means until a later version takes over */
+  effectiveTo?: Date;
+  /** Version that replaced this text for the same effective date */
+  supersededBy?: number;
+  ingestedAt: Date;
+}
+
+export interface KnowledgeDocument {
+  /** Stable document key, e.g. `refund-policy` */
+  id: string;
+  /** Title of the latest version */
+  title: string;
+  /** Customer the document is about, from `metadata.userId` or `metadata.customerId` */
+  userId?: string;
+  /** Oldest first */
+  versions: KnowledgeDocumentVersion[];
+  ingestedAt: Date;
+  updatedAt: Date;
+}
+
+export type KnowledgeDocumentSummary = Omit<KnowledgeDocument, 'versions'> & {
+  versions: Array<Omit<KnowledgeDocumentVersion, 'content'>>;
+};
+
+export interface KnowledgeDocumentInput {
+  key?: string;
+  title: string;
+  content: string;
+  /** `effectiveFrom`/`effectiveTo` given here are used when not passed separately */
+  metadata?: Record<string, unknown>;
+  effectiveFrom?: Date | string;
+  effectiveTo?: Date | string;
+}
+
+/** `created` covers both a new key and a new effective period of an existing one */
+export type IngestAction = 'created' | 'replaced' | 'unchanged';
+
+/**
+ * Narrows search to documents tagged for the case. A document without the
+ * metadata field applies to everyone and always passes that filter.
+ */
+export interface KnowledgeFilters {
+  /** Matches `metadata.productLine` */
+  productLine?: string;
+  /** Matches `metadata.locale` by subtag: `EU` matches `en-EU`, `en-GB` matches `en` */
+  locale?: string;
+  /** Matches `metadata.audience`, e.g. `customer`, `business` */
+  audience?: string;
+  /** ISO date to pick the version in force on (default: now) */
+  effectiveDate?: string;
+}
+
+export interface KnowledgeSearchOptions {
+  topK?: number;
+  filters?: KnowledgeFilters;
+}
+
+export interface KnowledgeHit {
+  /** Vector chunk ID, or `key@version` for passages only keyword search found */
+  id: string;
+  documentId?: string;
+  content: string;
+  /** Reranker score when a reranker is configured, the fused RRF score otherwise */
+  score: number;
+  /** Chunk metadata, including `documentKey`, `version`, `effectiveFrom` and `effectiveTo` */
+  metadata: Record<string, unknown>;
+  retrievers: Array<'vector' | 'keyword'>;
+}
+
+/** The part of the HazelAI RAG facade the knowledge base uses */
+export interface KnowledgeStore {
+  ingest(document: { type: 'text'; content: string; metadata?: Record<string, unknown> }): Promise<string[]>;
+  delete(ids: string[]): Promise<void>;
+  search(
+    query: string,
+    options: { topK: number; includeMetadata: boolean; minScore: number }
+  ): Promise<Array<{ id: string; content: string; score: number; metadata?: Record<string, unknown> }>>;
+}
+
+@Injectable()
+export class KnowledgeBaseService {
+  private documents: Repository<KnowledgeDocument>;
+  private store: KnowledgeStore | null = null;
+  /** Serializes ingestion per key so concurrent replaces don't leave orphaned chunks */
+  private writes: Map<string, Promise<unknown>> = new Map();
+  /** Loaded from the registry on first search, then kept current by ingest and remove */
+  private registry: Promise<Bm25Index> | null = null;
+  private indexed: Map<string, KnowledgeDocument> = new Map();
+  private reranker: Reranker | null;
+
+  constructor(persistence: PersistenceService) {
+    this.documents = persistence.documents;
+    this.reranker = createReranker();
+  }
+
+  attach(store: KnowledgeStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Ingests a version of the document under its key. A version with the same
+   * effective date and hash is left alone; otherwise the new chunks are stored
+   * first and those of the version it supersedes deleted afterwards, so
+   * searches never see the document missing.
+   */
+  async ingest(
+    input: KnowledgeDocumentInput
+  ): Promise<{ document: KnowledgeDocument; version: KnowledgeDocumentVersion; action: IngestAction }> {
+    const key = documentKey(input.key || input.title);
+    if (!key) {
+      throw new Error('A document key or title with letters or digits is required');
+    }
+    const { effectiveFrom: fromMetadata, effectiveTo: toMetadata, ...metadata } = input.metadata ?? {};
+    const effectiveFrom = toDate(input.effectiveFrom ?? fromMetadata, 'effectiveFrom');
+    const effectiveTo = toDate(input.effectiveTo ?? toMetadata, 'effectiveTo');
+    if (effectiveFrom && effectiveTo && effectiveTo <= effectiveFrom) {
+      throw new Error('effectiveTo must be later than effectiveFrom');
+    }
+    const contentHash = hashDocument(input.title, input.content, metadata, effectiveTo);
+
+    return this.serialize(key, async () => {
+      const existing = await this.documents.findById(key);
+      const versions = existing?.versions ?? [];
+      const previous = versions.find(
+        (version) => !version.supersededBy && version.effectiveFrom?.getTime() === effectiveFrom?.getTime()
+      );
+      if (existing && previous && previous.contentHash === contentHash) {
+        return { document: existing, version: previous, action: 'unchanged' as const };
+      }
+
+      const number = versions.reduce((max, version) => Math.max(max, version.version), 0) + 1;
+      const chunkIds = await this.getStore().ingest({
+        type: 'text',
+        content: `${input.title}\n\n${input.content}`,
+        metadata: chunkMetadata(key, { version: number, title: input.title, metadata, effectiveFrom, effectiveTo }),
+      });
+      const owner = metadata.userId ?? metadata.customerId;
+      const now = new Date();
+      const version: KnowledgeDocumentVersion = {
+        version: number,
+        title: input.title,
+        content: input.content,
+        chunkIds,
+        contentHash,
+        metadata,
+        effectiveFrom,
+        effectiveTo,
+        ingestedAt: now,
+      };
+      const document = await this.documents.save({
+        id: key,
+        title: input.title,
+        userId: typeof owner === 'string' && owner ? owner : existing?.userId,
+        versions: [
+          ...versions.map((entry) => (entry === previous ? { ...entry, chunkIds: [], supersededBy: number } : entry)),
+          version,
+        ],
+        ingestedAt: existing?.ingestedAt ?? now,
+        updatedAt: now,
+      });
+
+      if (previous && previous.chunkIds.length > 0) {
+        try {
+          await this.getStore().delete(previous.chunkIds);
+        } catch (err) {
+          logger.warn(`[kb] could not delete ${previous.chunkIds.length} replaced chunks of ${key}:`, err);
+        }
+      }
+      await this.reindex(key, document);
+      return { document, version, action: previous ? ('replaced' as const) : ('created' as const) };
+    });
+  }
+
+  /** Registered documents without the content of their versions */
+  async list(): Promise<KnowledgeDocumentSummary[]> {
+    return (await this.documents.findAll())
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map((document) => ({
+        ...document,
+        versions: document.versions.map(({ content: _content, ...version }) => version),
+      }));
+  }
+
+  async get(key: string): Promise<KnowledgeDocument | null> {
+    return this.documents.findById(key);
+  }
+
+  async listForUser(userId: string): Promise<KnowledgeDocument[]> {
+    return this.documents.findBy('user_id', userId);
+  }
+
+  /** Removes the chunks of every version from the vector store, then the registry entry */
+  async remove(key: string): Promise<KnowledgeDocument | null> {
+    return this.serialize(key, async () => {
+      const document = await this.documents.findById(key);
+      if (!document) return null;
+      const chunkIds = document.versions.flatMap((version) => version.chunkIds);
+      if (chunkIds.length > 0) {
+        await this.getStore().delete(chunkIds);
+      }
+      await this.documents.delete(key);
+      await this.reindex(key, null);
+      return document;
+    });
+  }
+
+  /**
+   * Hybrid search: vector and keyword candidates from versions in force at
+   * the effective date that pass the filters are fused per document (a
+   * document counts once per ranking, by its best chunk), reranked when
+   * KB_RERANKER is set, and the best topK returned.
+   */
+  async search(query: string, options: KnowledgeSearchOptions = {}): Promise<KnowledgeHit[]> {
+    const topK = options.topK ?? 5;
+    const filters = options.filters ?? {};
+    const at = filters.effectiveDate ? Date.parse(filters.effectiveDate) : Date.now();
+    if (Number.isNaN(at)) {
+      throw new Error(`effectiveDate must be an ISO date, got '${filters.effectiveDate}'`);
+    }
+    const matchesFilters = metadataFilter(filters);
+    const index = await this.loadRegistry();
+    const accept = (metadata: Record<string, unknown>) => matchesFilters(metadata) && this.inForce(metadata, at);
+    const candidates = Math.max(topK * 4, RERANK_CANDIDATES);
+    const fused = new Map<string, { hit: KnowledgeHit; score: number }>();
+
+    if (RETRIEVAL_MODE !== 'keyword') {
+      try {
+        const chunks = await this.getStore().search(query, { topK: candidates, includeMetadata: true, minScore: VECTOR_MIN_SCORE });
+        let rank = 0;
+        for (const chunk of chunks) {
+          const metadata = chunk.metadata || {};
+          if (!accept(metadata)) continue;
+          const documentId = typeof metadata.documentKey === 'string' ? metadata.documentKey : undefined;
+          const key = documentId ?? chunk.id;
+          if (fused.has(key)) continue;
+          rank += 1;
+          fused.set(key, {
+            hit: { id: chunk.id, documentId, content: chunk.content, score: 0, metadata, retrievers: ['vector'] },
+            score: 1 / (RRF_K + rank),
+          });
+        }
+      } catch (err) {
+        if (RETRIEVAL_MODE === 'vector') throw err;
+        logger.warn('[kb] vector search failed, using keyword results only:', err);
+      }
+    }
+
+    if (RETRIEVAL_MODE !== 'vector') {
+      const matches = index.search(query, candidates, (id) => {
+        const entry = this.versionOf(id);
+        return !!entry && accept(chunkMetadata(entry.document.id, entry.version));
+      });
+      matches.forEach((match, position) => {
+        const { document, version } = this.versionOf(match.id)!;
+        const score = 1 / (RRF_K + position + 1);
+        const entry = fused.get(document.id);
+        if (entry) {
+          entry.score += score;
+          entry.hit.retrievers.push('keyword');
+          return;
+        }
+        fused.set(document.id, {
+          hit: {
+            id: match.id,
+            documentId: document.id,
+            content: excerpt(version.content, query),
+            score: 0,
+            metadata: chunkMetadata(document.id, version),
+            retrievers: ['keyword'],
+          },
+          score,
+        });
+      });
+    }
+
+    const ranked = [...fused.values()]
+      .sort((a, b) => b.score - a.score)
+      .map(({ hit, score }) => ({ ...hit, score }));
+    return (await this.rerank(query, ranked)).slice(0, topK);
+  }
+
+  /**
+   * Registry chunks count when their version is the one in force at the
+   * instant; chunks ingested outside the registry carry their validity in
+   * metadata.
+   */
+  private inForce(metadata: Record<string, unknown>, at: number): boolean {
+    const document = typeof metadata.documentKey === 'string' ? this.indexed.get(metadata.documentKey) : undefined;
+    if (document && typeof metadata.version === 'number') {
+      return versionInForce(document, new Date(at))?.version === metadata.version;
+    }
+    const from = Date.parse(String(metadata.effectiveFrom ?? ''));
+    const to = Date.parse(String(metadata.effectiveTo ?? ''));
+    return !(at < from) && !(at >= to);
+  }
+
+  private async rerank(query: string, hits: KnowledgeHit[]): Promise<KnowledgeHit[]> {
+    if (!this.reranker || hits.length < 2) return hits;
+    const head = hits.slice(0, RERANK_CANDIDATES);
+    try {
+      const scores = await this.reranker.score(query, head.map((hit) => hit.content));
+      const reranked = head
+        .map((hit, position) => ({ ...hit, score: scores[position] }))
+        .sort((a, b) => b.score - a.score);
+      return [...reranked, ...hits.slice(RERANK_CANDIDATES)];
+    } catch (err) {
+      logger.warn(`[kb] ${this.reranker.name} reranker failed, keeping fused order:`, err);
+      return hits;
+    }
+  }
+
+  /** Registry entries by key plus the keyword index over their live versions */
+  private loadRegistry(): Promise<Bm25Index> {
+    if (!this.registry) {
+      this.registry = this.documents.findAll().then((documents) => {
+        const index = new Bm25Index();
+        for (const document of documents) {
+          this.addToIndex(index, document);
+        }
+        return index;
+      });
+      // Retry on the next search if the registry could not be read
+      this.registry.catch(() => {
+        this.registry = null;
+      });
+    }
+    return this.registry;
+  }
+
+  private async reindex(key: string, document: KnowledgeDocument | null): Promise<void> {
+    const index = await this.registry?.catch(() => null);
+    if (!index) return;
+    for (const version of this.indexed.get(key)?.versions ?? []) {
+      index.remove(`${key}@${version.version}`);
+    }
+    this.indexed.delete(key);
+    if (document) this.addToIndex(index, document);
+  }
+
+  private addToIndex(index: Bm25Index, document: KnowledgeDocument): void {
+    this.indexed.set(document.id, document);
+    for (const version of document.versions) {
+      if (version.supersededBy) continue;
+      index.add(`${document.id}@${version.version}`, `${version.title}\n\n${version.content}`);
+    }
+  }
+
+  /** `refund-policy@2` → the registry document and that version */
+  private versionOf(id: string): { document: KnowledgeDocument; version: KnowledgeDocumentVersion } | undefined {
+    const separator = id.lastIndexOf('@');
+    const document = this.indexed.get(id.slice(0, separator));
+    const version = document?.versions.find((entry) => entry.version === Number(id.slice(separator + 1)));
+    return document && version ? { document, version } : undefined;
+  }
+
+  private getStore(): KnowledgeStore {
+    if (!this.store) {
+      throw new Error('Knowledge base has no vector store attached; CSRService attaches it on construction');
+    }
+    return this.store;
+  }
+
+  private serialize<R>(key: string, work: () => Promise<R>): Promise<R> {
+    const previous = this.writes.get(key) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(work);
+    this.writes.set(key, next);
+    const cleanup = () => {
+      if (this.writes.get(key) === next) this.writes.delete(key);
+    };
+    next.then(cleanup, cleanup);
+    return next;
+  }
+}
+
+/** `Refund Policy (EU)` → `refund-policy-eu` */
+export function documentKey(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * The version in force at the instant: of the versions whose period covers
+ * it, the one that took effect last. A dated version therefore overrides an
+ * undated base version for its period, e.g. a holiday return window.
+ */
+export function versionInForce(document: KnowledgeDocument, at: Date): KnowledgeDocumentVersion | undefined {
+  const time = at.getTime();
+  const starts = (version: KnowledgeDocumentVersion) => version.effectiveFrom?.getTime() ?? -Infinity;
+  return document.versions
+    .filter(
+      (version) =>
+        !version.supersededBy &&
+        starts(version) <= time &&
+        (!version.effectiveTo || time < version.effectiveTo.getTime())
+    )
+    .sort((a, b) => starts(a) - starts(b) || a.version - b.version)
+    .pop();
+}
+
+/** Metadata stored on a version's vector chunks */
+function chunkMetadata(
+  key: string,
+  version: Pick<KnowledgeDocumentVersion, 'version' | 'title' | 'metadata' | 'effectiveFrom' | 'effectiveTo'>
+): Record<string, unknown> {
+  return {
+    title: version.title,
+    documentKey: key,
+    version: version.version,
+    ...version.metadata,
+    ...(version.effectiveFrom ? { effectiveFrom: version.effectiveFrom.toISOString() } : {}),
+    ...(version.effectiveTo ? { effectiveTo: version.effectiveTo.toISOString() } : {}),
+  };
+}
+
+function toDate(value: unknown, field: string): Date | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = value instanceof Date ? value : new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${field} must be an ISO date, got '${String(value)}'`);
+  }
+  return date;
+}
+
+function metadataFilter(filters: KnowledgeFilters): (metadata: Record<string, unknown>) => boolean {
+  const matches = (value: unknown, wanted: string | undefined, same: (a: string, b: string) => boolean) => {
+    if (!wanted || value === undefined || value === null || value === '') return true;
+    const values = Array.isArray(value) ? value : [value];
+    return values.some((item) => same(String(item).toLowerCase(), wanted.toLowerCase()));
+  };
+  const equal = (a: string, b: string) => a === b;
+  const sameLocale = (a: string, b: string) => {
+    const left = a.split(/[-_]/);
+    const right = b.split(/[-_]/);
+    return left.every((tag) => right.includes(tag)) || right.every((tag) => left.includes(tag));
+  };
+
+  return (metadata) =>
+    matches(metadata.productLine, filters.productLine, equal) &&
+    matches(metadata.audience, filters.audience, equal) &&
+    matches(metadata.locale, filters.locale, sameLocale);
+}
+
+/** The part of a long document around the first query term it contains */
+function excerpt(content: string, query: string): string {
+  if (content.length <= EXCERPT_CHARS) return content;
+  const lower = content.toLowerCase();
+  const positions = tokenize(query)
+    .map((term) => lower.indexOf(term))
+    .filter((position) => position >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, content.lastIndexOf(' ', Math.max(0, first - EXCERPT_CHARS / 4)) + 1);
+  const text = content.slice(start, start + EXCERPT_CHARS);
+  return `${start > 0 ? '…' : ''}${text}${start + EXCERPT_CHARS < content.length ? '…' : ''}`;
+}
+
+function hashDocument(title: string, content: string, metadata: Record<string, unknown>, effectiveTo?: Date): string {
+  const sortedMetadata = Object.keys(metadata)
+    .sort()
+    .map((key) => [key, metadata[key]]);
+  return createHash('sha256')
+    .update(JSON.stringify([title, content, sortedMetadata, effectiveTo?.toISOString() ?? null]))
+    .digest('hex');
+}
@@ -0,0 +1,133 @@
+/**
+ * Knowledge Import Service - Bulk ingestion of help-center files
+ * Parses each file into sections (see knowledge/parsers.ts) and ingests every
+ * section as its own knowledge base document, keyed by file and section so a
+ * re-import only re-embeds what changed. Files are processed one at a time;
+ * progress is reported per file and a failed file does not stop the import.
+ */
+
+import { Injectable } from '@hazeljs/core';
+import logger from '@hazeljs/core';
+import { detectFormat, parseSource, type KnowledgeFormat, type KnowledgeSource } from '../knowledge/parsers';
+import { documentKey, KnowledgeBaseService } from './knowledge-base.service';
+
+export interface FileImportResult {
+  file: string;
+  format: KnowledgeFormat | null;
+  /** `skipped` for unsupported file types */
+  status: 'imported' | 'skipped' | 'failed';
+  sections: number;
+  created: number;
+  replaced: number;
+  unchanged: number;
+  documentIds: string[];
+  error?: string;
+}
+
+export interface ImportReport {
+  startedAt: Date;
+  completedAt: Date;
+  files: FileImportResult[];
+  totals: {
+    files: number;
+    imported: number;
+    skipped: number;
+    failed: number;
+    sections: number;
+    created: number;
+    replaced: number;
+    unchanged: number;
+  };
+}
+
+export interface ImportProgress {
+  /** 1-based position of the file in the import */
+  index: number;
+  total: number;
+  result: FileImportResult;
+}
+
+@Injectable()
+export class KnowledgeImportService {
+  private readonly maxChunkChars = parseInt(process.env.KB_CHUNK_CHARS || '1500', 10);
+
+  constructor(private knowledgeBaseService: KnowledgeBaseService) {}
+
+  async importFiles(
+    sources: KnowledgeSource[],
+    options: { metadata?: Record<string, unknown>; onProgress?: (progress: ImportProgress) => void } = {}
+  ): Promise<ImportReport> {
+    const startedAt = new Date();
+    const files: FileImportResult[] = [];
+
+    for (const [position, source] of sources.entries()) {
+      const result = await this.importFile(source, options.metadata ?? {});
+      files.push(result);
+      logger.info(
+        `[kb-import] ${position + 1}/${sources.length} ${result.file}: ${result.status}` +
+          (result.error ? ` (${result.error})` : ` (${result.sections} sections, ${result.created} new, ${result.replaced} replaced)`)
+      );
+      options.onProgress?.({ index: position + 1, total: sources.length, result });
+    }
+
+    const sum = (field: 'sections' | 'created' | 'replaced' | 'unchanged') =>
+      files.reduce((total, file) => total + file[field], 0);
+    const count = (status: FileImportResult['status']) => files.filter((file) => file.status === status).length;
+    return {
+      startedAt,
+      completedAt: new Date(),
+      files,
+      totals: {
+        files: files.length,
+        imported: count('imported'),
+        skipped: count('skipped'),
+        failed: count('failed'),
+        sections: sum('sections'),
+        created: sum('created'),
+        replaced: sum('replaced'),
+        unchanged: sum('unchanged'),
+      },
+    };
+  }
+
+  private async importFile(source: KnowledgeSource, metadata: Record<string, unknown>): Promise<FileImportResult> {
+    const result: FileImportResult = {
+      file: source.name,
+      format: detectFormat(source),
+      status: 'imported',
+      sections: 0,
+      created: 0,
+      replaced: 0,
+      unchanged: 0,
+      documentIds: [],
+    };
+    if (!result.format) {
+      return { ...result, status: 'skipped', error: 'unsupported file type' };
+    }
+
+    try {
+      const sections = await parseSource(source, this.maxChunkChars);
+      result.sections = sections.length;
+      const keys = new Map<string, number>();
+      for (const section of sections) {
+        // Repeated headings within a file get a numbered key so neither replaces the other
+        const base = documentKey(`${source.name} ${section.title}`);
+        const seen = (keys.get(base) ?? 0) + 1;
+        keys.set(base, seen);
+
+        const { document, action } = await this.knowledgeBaseService.ingest({
+          key: seen > 1 ? `${base}-${seen}` : base,
+          title: section.title,
+          content: section.content,
+          metadata: { ...metadata, ...section.metadata },
+        });
+        result[action] += 1;
+        result.documentIds.push(document.id);
+      }
+    } catch (err) {
+      result.status = 'failed';
+      result.error = err instanceof Error ? err.message : String(err);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Memory Extraction Service - Turns finished conversations into customer memory
+ * Rule-based extractors read the session transcript (customer messages and
+ * tool calls) and propose PREFERENCE / EPISODIC items with a confidence and
+ * the message IDs they came from; CustomerMemoryService dedups them by key.
+ */
+
+import { Injectable } from '@hazeljs/core';
+import logger from '@hazeljs/core';
+import { MemoryCategory } from '@hazeljs/memory';
+import { ConversationService, type ConversationMessage } from './conversation.service';
+import { CustomerMemoryService, type MemoryUpsertAction } from './customer-memory.service';
+
+export interface MemoryCandidate {
+  category: MemoryCategory;
+  key: string;
+  value: string;
+  confidence: number;
+  /** Conversation message IDs supporting the candidate */
+  evidence: string[];
+}
+
+export interface MemoryExtractor {
+  name: string;
+  extract(messages: ConversationMessage[]): MemoryCandidate[];
+}
+
+export type ExtractionReport = Record<MemoryUpsertAction, number>;
+
+const ORDER_ID = /\bORD-\d+\b/i;
+
+const CONTACT_CHANNELS: Array<{ channel: string; pattern: RegExp }> = [
+  { channel: 'email', pattern: /\b(e-?mail)\b/i },
+  { channel: 'sms', pattern: /\b(text|sms)\b/i },
+  { channel: 'phone', pattern: /\b(phone|call)\b/i },
+];
+
+const LANGUAGES: Record<string, string> = {
+  spanish: 'Spanish',
+  español: 'Spanish',
+  espanol: 'Spanish',
+  french: 'French',
+  français: 'French',
+  francais: 'French',
+  german: 'German',
+  deutsch: 'German',
+  portuguese: 'Portuguese',
+  italian: 'Italian',
+};
+
+/** Customer wording → issue label; the first match wins */
+const ISSUE_PATTERNS: Array<{ issue: string; pattern: RegExp }> = [
+  { issue: 'damaged-item', pattern: /\b(damaged|broken|cracked|smashed)\b/i },
+  { issue: 'defective-item', pattern: /\b(defective|faulty|doesn'?t work|stopped working)\b/i },
+  { issue: 'wrong-item', pattern: /\bwrong (item|size|color|colour|product)\b/i },
+  { issue: 'missing-package', pattern: /\b(never (arrived|came)|missing|lost|not delivered)\b/i },
+];
+
+const RETURN_REASON_ISSUES: Record<string, string> = {
+  damaged: 'damaged-item',
+  defective: 'defective-item',
+  wrong_item: 'wrong-item',
+  not_as_described: 'not-as-described',
+};
+
+@Injectable()
+export class MemoryExtractionService {
+  private extractors: MemoryExtractor[] = [];
+  private readonly enabled = process.env.MEMORY_EXTRACTION !== 'false';
+
+  constructor(
+    private conversationService: ConversationService,
+    private customerMemoryService: CustomerMemoryService
+  ) {
+    this.extractors.push(
+      { name: 'contact-preference', extract: (messages) => this.contactPreference(messages) },
+      { name: 'language-preference', extract: (messages) => this.languagePreference(messages) },
+      { name: 'order-issues', extract: (messages) => this.orderIssues(messages) },
+      { name: 'support-actions', extract: (messages) => this.supportActions(messages) }
+    );
+  }
+
+  /** Adds a custom extractor; extractors run in registration order */
+  register(extractor: MemoryExtractor): void {
+    this.extractors.push(extractor);
+  }
+
+  /**
+   * Extracts memory from the whole session transcript. Re-running it is safe:
+   * candidates whose evidence is already recorded leave the item unchanged.
+   */
+  async extract(sessionId: string, userId?: string): Promise<ExtractionReport> {
+    const report: ExtractionReport = { created: 0, merged: 0, updated: 0, unchanged: 0 };
+    if (!this.enabled || !userId) return report;
+
+    const messages = (await this.conversationService.transcript(sessionId)).filter(
+      (entry): entry is ConversationMessage => entry.type !== 'approval'
+    );
+    for (const extractor of this.extractors) {
+      let candidates: MemoryCandidate[];
+      try {
+        candidates = extractor.extract(messages);
+      } catch (err) {
+        logger.warn(`[memory-extraction] extractor ${extractor.name} failed:`, err);
+        continue;
+      }
+      for (const candidate of candidates) {
+        const { action } = await this.customerMemoryService.upsert({
+          ...candidate,
+          userId,
+          sessionId,
+          source: 'inferred',
+        });
+        report[action] += 1;
+      }
+    }
+    return report;
+  }
+
+  private contactPreference(messages: ConversationMessage[]): MemoryCandidate[] {
+    const candidates: MemoryCandidate[] = [];
+    for (const message of customerMessages(messages)) {
+      const text = message.content!;
+      const stated =
+        /\b(prefer|rather|only|please|best)\b/i.test(text) && /\b(contact|reach|call|text|e-?mail|sms)\b/i.test(text);
+      const requested = /\b(e-?mail|text|call) me\b/i.test(text);
+      if (!stated && !requested) continue;
+      const match = CONTACT_CHANNELS.find(({ pattern }) => pattern.test(text));
+      if (!match) continue;
+      candidates.push({
+        category: MemoryCategory.PREFERENCE,
+        key: 'contact-preference',
+        value: `prefers ${match.channel} contact`,
+        confidence: stated ? 0.9 : 0.6,
+        evidence: [message.id],
+      });
+    }
+    return candidates;
+  }
+
+  private languagePreference(messages: ConversationMessage[]): MemoryCandidate[] {
+    const candidates: MemoryCandidate[] = [];
+    const names = Object.keys(LANGUAGES).join('|');
+    const pattern = new RegExp(`\\b(?:speak|in|prefer|prefiero|hablo|habla|en)\\s+(${names})\\b`, 'i');
+    for (const message of customerMessages(messages)) {
+      const match = message.content!.match(pattern);
+      if (!match) continue;
+      candidates.push({
+        category: MemoryCategory.PREFERENCE,
+        key: 'preferred-language',
+        value: `preferred language ${LANGUAGES[match[1].toLowerCase()]}`,
+        confidence: 0.85,
+        evidence: [message.id],
+      });
+    }
+    return candidates;
+  }
+
+  /** Problems with a specific order, from the customer's words or a return they opened */
+  private orderIssues(messages: ConversationMessage[]): MemoryCandidate[] {
+    const candidates: MemoryCandidate[] = [];
+    let lastOrderId: string | undefined;
+
+    for (const message of messages) {
+      if (message.type === 'tool_call') {
+        const orderId = stringField(message.input, 'orderId');
+        const reason = stringField(message.input, 'reason');
+        if (message.toolName === 'initiateReturn' && orderId && reason && RETURN_REASON_ISSUES[reason]) {
+          candidates.push(issue(orderId.toUpperCase(), RETURN_REASON_ISSUES[reason], 0.9, message.id));
+        }
+        const trackingIssue = stringField(message.output, 'issue');
+        if (message.toolName === 'trackShipment' && orderId && trackingIssue) {
+          candidates.push(issue(orderId.toUpperCase(), `${trackingIssue}-shipment`, 0.8, message.id));
+        }
+        continue;
+      }
+      if (message.role !== 'user' || !message.content) continue;
+
+      lastOrderId = message.content.match(ORDER_ID)?.[0].toUpperCase() ?? lastOrderId;
+      const match = ISSUE_PATTERNS.find(({ pattern }) => pattern.test(message.content!));
+      if (match && lastOrderId) {
+        candidates.push(issue(lastOrderId, match.issue, 0.7, message.id));
+      }
+    }
+    return candidates;
+  }
+
+  /** Refunds and tickets the agent raised on the customer's behalf */
+  private supportActions(messages: ConversationMessage[]): MemoryCandidate[] {
+    const candidates: MemoryCandidate[] = [];
+    for (const message of messages) {
+      if (message.type !== 'tool_call') continue;
+      if (message.toolName === 'processRefund') {
+        // Only refunds that were actually recorded carry a refundId
+        const orderId = stringField(message.input, 'orderId');
+        const amount = stringField(message.output, 'amount');
+        if (!orderId || !amount || !stringField(message.output, 'refundId')) continue;
+        candidates.push({
+          category: MemoryCategory.EPISODIC,
+          key: `refund:${orderId.toUpperCase()}`,
+          value: `requested a $${amount} refund on ${orderId.toUpperCase()}`,
+          confidence: 0.9,
+          evidence: [message.id],
+        });
+      }
+      if (message.toolName === 'createTicket') {
+        const ticketId = stringField(message.output, 'ticketId');
+        const subject = stringField(message.input, 'subject');
+        if (!ticketId) continue;
+        candidates.push({
+          category: MemoryCategory.EPISODIC,
+          key: `ticket:${ticketId}`,
+          value: `opened support ticket ${ticketId}${subject ? ` about "${subject}"` : ''}`,
+          confidence: 0.95,
+          evidence: [message.id],
+        });
+      }
+    }
+    return candidates;
+  }
+}
+
+function customerMessages(messages: ConversationMessage[]): ConversationMessage[] {
+  return messages.filter((message) => message.type === 'message' && message.role === 'user' && !!message.content);
+}
+
+function issue(orderId: string, label: string, confidence: number, messageId: string): MemoryCandidate {
+  return {
+    category: MemoryCategory.EPISODIC,
+    key: `issue:${orderId}`,
+    value: `had ${label} issue on ${orderId}`,
+    confidence,
+    evidence: [messageId],
+  };
+}
+
+function stringField(value: unknown, field: string): string | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = (value as Record<string, unknown>)[field];
+  return raw === undefined || raw === null ? undefined : String(raw);
+}
@@ -0,0 +1,38 @@
+/**
+ * Notification Service - Mock outbound notifications (email/SMS/Slack)
+ * Messages are logged and kept in an outbox; replace with a real provider in production
+ */
+
+import logger from '@hazeljs/core';
+
+export type NotificationChannel = 'email' | 'sms' | 'slack';
+
+export interface Notification {
+  id: string;
+  channel: NotificationChannel;
+  to: string;
+  subject: string;
+  body: string;
+  sentAt: Date;
+}
+
+export class NotificationService {
+  private outbox: Notification[] = [];
+
+  async send(data: Omit<Notification, 'id' | 'sentAt'>): Promise<Notification> {
+    const notification: Notification = {
+      ...data,
+      id: `NTF-${Date.now()}-${this.outbox.length + 1}`,
+      sentAt: new Date(),
+    };
+    this.outbox.push(notification);
+    logger.info(`[notify:${notification.channel}] ${notification.to} - ${notification.subject}`);
+    return notification;
+  }
+
+  async list(filter: { to?: string; channel?: NotificationChannel } = {}): Promise<Notification[]> {
+    return this.outbox
+      .filter((notification) => !filter.to || notification.to === filter.to)
+      .filter((notification) => !filter.channel || notification.channel === filter.channel);
+  }
+}
@@ -1,44 +1,162 @@
 /**
  * Order Service - Mock implementation for CSR agent
- * Replace with real order service in production
+ * Backed by the configured persistence adapter; replace with real order service in production
  */
 
+import { Injectable } from '@hazeljs/core';
+import { PersistenceService } from '../persistence/persistence.service';
+import type { OrderRepository } from '../persistence/repository';
+import type { Address } from './address.service';
+
+export interface AddressChange {
+  from: Address;
+  to: Address;
+  changedAt: Date;
+  changedBy?: string;
+}
+
+export interface OrderItem {
+  sku: string;
+  name: string;
+  quantity: number;
+  price: number;
+}
+
 export interface Order {
   id: string;
+  customerId: string;
   status: string;
-  items: Array<{ name: string; quantity: number; price: number }>;
+  items: OrderItem[];
   total: number;
-  shippingAddress: string;
+  shippingAddress: Address;
+  addressHistory: AddressChange[];
   trackingNumber?: string;
   estimatedDelivery?: Date;
+  cancelledAt?: Date;
+  cancellationReason?: string;
   createdAt: Date;
 }
 
+export interface OrderSearchFilter {
+  customerId?: string;
+  status?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface OrderSearchPage {
+  orders: Order[];
+  page: number;
+  pageSize: number;
+  total: number;
+  hasMore: boolean;
+}
+
+const MAX_PAGE_SIZE = 20;
+
+/** Orders in these statuses have left the warehouse */
+export const ADDRESS_LOCKED_STATUSES = ['shipped', 'delivered', 'cancelled'];
+
+/** Orders can only be cancelled before they ship */
+export const CANCELLABLE_STATUSES = ['pending', 'processing'];
+
+@Injectable()
 export class OrderService {
-  private orders: Map<string, Order> = new Map();
-
-  constructor() {
-    // Seed with sample data
-    this.orders.set('ORD-12345', {
-      id: 'ORD-12345',
-      status: 'shipped',
-      items: [{ name: 'Product A', quantity: 2, price: 49.99 }],
-      total: 99.99,
-      shippingAddress: '123 Main St, City, State 12345',
-      trackingNumber: 'TRACK123',
-      estimatedDelivery: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000),
-      createdAt: new Date(),
-    });
+  private orders: OrderRepository;
+
+  constructor(persistence: PersistenceService) {
+    this.orders = persistence.orders;
   }
 
   async findById(orderId: string): Promise<Order | null> {
-    return this.orders.get(orderId) || null;
+    return this.orders.findById(orderId);
+  }
+
+  /**
+   * Finds orders matching the filter, newest first, one page at a time so
+   * large accounts don't flood the agent's context window. A page or page
+   * size that isn't a number (e.g. `?page=abc`) falls back to the default.
+   */
+  async search(filter: OrderSearchFilter, page = 1, pageSize = 5): Promise<OrderSearchPage> {
+    const size = Number.isFinite(pageSize) ? Math.min(Math.max(1, Math.floor(pageSize)), MAX_PAGE_SIZE) : 5;
+    const current = Number.isFinite(page) ? Math.max(1, Math.floor(page)) : 1;
+    const candidates = filter.customerId
+      ? await this.orders.findBy('customer_id', filter.customerId)
+      : await this.orders.findAll();
+    const matches = candidates
+      .filter((order) => !filter.status || order.status === filter.status)
+      .filter((order) => !filter.from || order.createdAt.getTime() >= filter.from.getTime())
+      .filter((order) => !filter.to || order.createdAt.getTime() <= filter.to.getTime())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return {
+      orders: matches.slice((current - 1) * size, current * size),
+      page: current,
+      pageSize: size,
+      total: matches.length,
+      hasMore: current * size < matches.length,
+    };
+  }
+
+  /** Orders that have not shipped yet, i.e. still hold warehouse stock */
+  async findOpen(): Promise<Order[]> {
+    const open: Order[] = [];
+    for (const status of CANCELLABLE_STATUSES) open.push(...(await this.orders.findBy('status', status)));
+    return open;
+  }
+
+  canChangeAddress(order: Order): boolean {
+    return !ADDRESS_LOCKED_STATUSES.includes(order.status);
+  }
+
+  /**
+   * Replaces the shipping address and records the change in the order's
+   * address history. Throws once the order has shipped.
+   */
+  async updateAddress(orderId: string, newAddress: Address, changedBy?: string): Promise<Order | null> {
+    const order = await this.orders.findById(orderId);
+    if (!order) return null;
+    if (!this.canChangeAddress(order)) {
+      throw new Error(`Order ${orderId} is ${order.status}; the shipping address can no longer be changed`);
+    }
+    order.addressHistory.push({ from: order.shippingAddress, to: newAddress, changedAt: new Date(), changedBy });
+    order.shippingAddress = newAddress;
+    return this.orders.save(order);
+  }
+
+  /**
+   * Drops the previous shipping addresses from the customer's orders (erasure);
+   * the current address stays so open orders can still be delivered.
+   * Returns the IDs of the orders that had any.
+   */
+  async eraseAddressHistory(customerId: string): Promise<string[]> {
+    const erased: string[] = [];
+    for (const order of await this.orders.findBy('customer_id', customerId)) {
+      if (!order.addressHistory.length) continue;
+      order.addressHistory = [];
+      await this.orders.save(order);
+      erased.push(order.id);
+    }
+    return erased;
+  }
+
+  canCancel(order: Order): boolean {
+    return CANCELLABLE_STATUSES.includes(order.status);
   }
 
-  async updateAddress(orderId: string, newAddress: Record<string, unknown>): Promise<Order | null> {
-    const order = this.orders.get(orderId);
+  /**
+   * Cancels an order that has not shipped yet. Throws for orders that are
+   * already on their way; those have to be returned instead.
+   */
+  async cancel(orderId: string, reason: string): Promise<Order | null> {
+    const order = await this.orders.findById(orderId);
     if (!order) return null;
-    order.shippingAddress = String(newAddress?.address || newAddress);
-    return order;
+    if (!this.canCancel(order)) {
+      throw new Error(`Order ${orderId} is ${order.status} and can no longer be cancelled`);
+    }
+    order.status = 'cancelled';
+    order.cancelledAt = new Date();
+    order.cancellationReason = reason;
+    return this.orders.save(order);
   }
 }
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PersistenceService } from '../persistence/persistence.service';
+import { OrderService } from './order.service';
+import { RefundEligibilityService } from './refund-eligibility.service';
+import { RefundService } from './refund.service';
+
+async function createServices() {
+  const persistence = new PersistenceService();
+  await persistence.ready;
+  const refunds = new RefundService(persistence);
+  return { refunds, eligibility: new RefundEligibilityService(new OrderService(persistence), refunds) };
+}
+
+/** Check and issue the way processRefund does */
+function requestRefund(
+  { refunds, eligibility }: Awaited<ReturnType<typeof createServices>>,
+  request: { orderId: string; amount: number; reason: string },
+  scope: string
+) {
+  return eligibility.serialize(request.orderId, async () => {
+    const result = await eligibility.check(request, { scope });
+    if (result.duplicateOf) return { duplicateOf: result.duplicateOf.id };
+    if (!result.eligible) return { rejected: result.rejections.map((rejection) => rejection.code) };
+    const refund = await refunds.process({ ...request, idempotencyKey: result.idempotencyKey });
+    return { refundId: refund.id };
+  });
+}
+
+const partial = { orderId: 'ORD-12346', amount: 5, reason: 'Scuffed box' };
+
+test('a repeat from the same session returns the earlier refund', async () => {
+  const services = await createServices();
+  const first = await requestRefund(services, partial, 'session-1');
+  const retry = await requestRefund(services, partial, 'session-1');
+
+  assert.ok(first.refundId);
+  assert.deepEqual(retry, { duplicateOf: first.refundId });
+});
+
+test('identical partial refunds from different sessions are both issued', async () => {
+  const services = await createServices();
+  const first = await requestRefund(services, partial, 'session-1');
+  const second = await requestRefund(services, partial, 'session-2');
+
+  assert.ok(first.refundId);
+  assert.ok(second.refundId);
+  assert.notEqual(first.refundId, second.refundId);
+  assert.equal((await services.refunds.findByOrder('ORD-12346')).length, 2);
+});
+
+test('concurrent requests cannot both refund the remaining amount', async () => {
+  const services = await createServices();
+  const full = { orderId: 'ORD-12346', amount: 19.99, reason: 'Damaged' };
+  const results = await Promise.all([
+    requestRefund(services, full, 'session-1'),
+    requestRefund(services, full, 'session-2'),
+  ]);
+
+  assert.ok(results[0].refundId);
+  assert.deepEqual(results[1], { rejected: ['ALREADY_REFUNDED'] });
+});
@@ -0,0 +1,142 @@
+/**
+ * Refund Eligibility Service - Guardrails applied before a refund is issued
+ * Validates the requested refund against the actual order and prior refunds.
+ * A refund repeating one requested by the same caller within
+ * REFUND_RETRY_WINDOW_MINUTES is treated as a retry of it; requests without a
+ * caller (an RMA's refund, whose reason names the RMA) are deduplicated for
+ * good. Callers run the check and the refund it allows through `serialize`.
+ */
+
+import { Injectable } from '@hazeljs/core';
+import { OrderService, type Order } from './order.service';
+import { RefundService, VOIDED_REFUND_STATUSES, type RefundResult } from './refund.service';
+
+export type RefundRejectionCode =
+  | 'ORDER_NOT_FOUND'
+  | 'ORDER_NOT_REFUNDABLE'
+  | 'REFUND_WINDOW_EXPIRED'
+  | 'INVALID_AMOUNT'
+  | 'AMOUNT_EXCEEDS_REMAINING'
+  | 'ALREADY_REFUNDED';
+
+export interface RefundRejection {
+  code: RefundRejectionCode;
+  message: string;
+}
+
+export interface RefundEligibility {
+  eligible: boolean;
+  order?: Order;
+  /** Amount still refundable on the order after previous refunds */
+  remainingAmount: number;
+  /** Set when the caller just requested the same refund; callers should return it instead of issuing a new one */
+  duplicateOf?: RefundResult;
+  idempotencyKey: string;
+  rejections: RefundRejection[];
+}
+
+const NON_REFUNDABLE_STATUSES = ['pending', 'cancelled', 'refunded'];
+
+@Injectable()
+export class RefundEligibilityService {
+  private readonly windowDays = parseInt(process.env.REFUND_WINDOW_DAYS || '30', 10);
+  private readonly retryWindowMs = parseInt(process.env.REFUND_RETRY_WINDOW_MINUTES || '15', 10) * 60 * 1000;
+  /** Per-order queue of check-and-refund work */
+  private pending: Map<string, Promise<unknown>> = new Map();
+
+  constructor(
+    private orderService: OrderService,
+    private refundService: RefundService
+  ) {}
+
+  /**
+   * `requestedAt` judges the refund window at an earlier time than now, e.g.
+   * when the RMA the refund belongs to was issued. `scope` is the caller the
+   * request belongs to (the chat session); identical refunds from different
+   * callers, or from the same one outside the retry window, are separate refunds.
+   */
+  async check(
+    request: { orderId: string; amount: number; reason: string },
+    options: { requestedAt?: Date; scope?: string } = {}
+  ): Promise<RefundEligibility> {
+    const idempotencyKey = this.idempotencyKey(request, options.scope);
+    const order = await this.orderService.findById(request.orderId);
+
+    if (!order) {
+      return {
+        eligible: false,
+        remainingAmount: 0,
+        idempotencyKey,
+        rejections: [{ code: 'ORDER_NOT_FOUND', message: `Order ${request.orderId} not found` }],
+      };
+    }
+
+    const previous = (await this.refundService.findByOrder(order.id)).filter(
+      (refund) => !VOIDED_REFUND_STATUSES.includes(refund.status)
+    );
+    const retriesSince = options.scope ? Date.now() - this.retryWindowMs : 0;
+    const duplicateOf = previous.find(
+      (refund) => refund.idempotencyKey === idempotencyKey && refund.createdAt.getTime() >= retriesSince
+    );
+    const alreadyRefunded = previous.reduce((sum, refund) => sum + refund.amount, 0);
+    const remainingAmount = Math.max(0, round(order.total - alreadyRefunded));
+
+    if (duplicateOf) {
+      return { eligible: true, order, remainingAmount, duplicateOf, idempotencyKey, rejections: [] };
+    }
+
+    const rejections: RefundRejection[] = [];
+
+    if (NON_REFUNDABLE_STATUSES.includes(order.status)) {
+      rejections.push({
+        code: 'ORDER_NOT_REFUNDABLE',
+        message: `Order ${order.id} is ${order.status} and cannot be refunded`,
+      });
+    }
+
+    const windowEnds = new Date(order.createdAt.getTime() + this.windowDays * 24 * 60 * 60 * 1000);
+    if (windowEnds.getTime() < (options.requestedAt ?? new Date()).getTime()) {
+      rejections.push({
+        code: 'REFUND_WINDOW_EXPIRED',
+        message: `The ${this.windowDays}-day refund window for order ${order.id} ended on ${windowEnds.toDateString()}`,
+      });
+    }
+
+    if (!Number.isFinite(request.amount) || request.amount <= 0) {
+      rejections.push({ code: 'INVALID_AMOUNT', message: 'Refund amount must be a positive number' });
+    } else if (remainingAmount === 0) {
+      rejections.push({ code: 'ALREADY_REFUNDED', message: `Order ${order.id} has already been fully refunded` });
+    } else if (round(request.amount) > remainingAmount) {
+      rejections.push({
+        code: 'AMOUNT_EXCEEDS_REMAINING',
+        message: `Requested $${request.amount.toFixed(2)} but only $${remainingAmount.toFixed(2)} of the $${order.total.toFixed(2)} order total is refundable`,
+      });
+    }
+
+    return { eligible: rejections.length === 0, order, remainingAmount, idempotencyKey, rejections };
+  }
+
+  /**
+   * Runs `work` after any earlier work for the same order, so a check and the
+   * refund it allows never interleave with another request's (in this process)
+   */
+  serialize<R>(orderId: string, work: () => Promise<R>): Promise<R> {
+    const previous = this.pending.get(orderId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(work);
+    this.pending.set(orderId, next);
+    const cleanup = () => {
+      if (this.pending.get(orderId) === next) this.pending.delete(orderId);
+    };
+    next.then(cleanup, cleanup);
+    return next;
+  }
+
+  private idempotencyKey(request: { orderId: string; amount: number; reason: string }, scope?: string): string {
+    const key = [request.orderId, Number(request.amount).toFixed(2), request.reason.trim().toLowerCase()];
+    return (scope ? [scope, ...key] : key).join(':');
+  }
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PersistenceService } from '../persistence/persistence.service';
+import { RefundService } from './refund.service';
+
+delete process.env.REDIS_HOST;
+
+async function createRefund() {
+  const persistence = new PersistenceService();
+  await persistence.ready;
+  const refunds = new RefundService(persistence);
+  const refund = await refunds.process({ orderId: 'ORD-12346', amount: 19.99, reason: 'Damaged' });
+  return { refunds, refund };
+}
+
+test('moves a refund from pending through approved to issued and keeps the history', async () => {
+  const { refunds, refund } = await createRefund();
+
+  await refunds.transition(refund.id, 'approved', { by: 'finance-1' });
+  const issued = await refunds.transition(refund.id, 'issued', { by: 'finance-1', note: 'Paid out' });
+
+  assert.equal(issued!.status, 'issued');
+  assert.deepEqual(
+    issued!.history.map((change) => change.status),
+    ['pending', 'approved', 'issued']
+  );
+  assert.equal(issued!.history[2].note, 'Paid out');
+  assert.equal(refunds.estimateProcessingDays(issued!), 0);
+});
+
+test('rejects transitions the ledger does not allow', async () => {
+  const { refunds, refund } = await createRefund();
+
+  await assert.rejects(refunds.transition(refund.id, 'issued'), /cannot move from pending to issued/);
+  await refunds.transition(refund.id, 'failed');
+  await assert.rejects(refunds.transition(refund.id, 'approved'), /cannot move from failed to approved/);
+
+  assert.equal((await refunds.findById(refund.id))!.status, 'failed');
+  assert.equal(refunds.estimateProcessingDays((await refunds.findById(refund.id))!), null);
+  assert.equal(await refunds.transition('REF-unknown', 'approved'), null);
+});
@@ -1,24 +1,129 @@
 /**
- * Refund Service - Mock implementation for CSR agent
- * Replace with real refund service in production
+ * Refund Service - Mock refund ledger for CSR agent
+ * Keeps every refund with its status history; replace with real refund service in production
  */
 
+import { Injectable } from '@hazeljs/core';
+import { PersistenceService } from '../persistence/persistence.service';
+import type { RefundRepository } from '../persistence/repository';
+
+export type RefundStatus = 'pending' | 'approved' | 'issued' | 'failed' | 'reversed';
+
+export interface RefundStatusChange {
+  status: RefundStatus;
+  at: Date;
+  by?: string;
+  note?: string;
+}
+
 export interface RefundResult {
   id: string;
   orderId: string;
   amount: number;
   reason: string;
-  status: string;
+  status: RefundStatus;
+  idempotencyKey?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  history: RefundStatusChange[];
 }
 
+const REFUND_TRANSITIONS: Record<RefundStatus, RefundStatus[]> = {
+  pending: ['approved', 'failed'],
+  approved: ['issued', 'failed'],
+  issued: ['failed', 'reversed'],
+  failed: [],
+  reversed: [],
+};
+
+/** Statuses whose amount no longer counts against the order total */
+export const VOIDED_REFUND_STATUSES: RefundStatus[] = ['failed', 'reversed'];
+
+@Injectable()
 export class RefundService {
-  async process(data: { orderId: string; amount: number; reason: string }): Promise<RefundResult> {
-    return {
-      id: 'REF-' + Date.now(),
+  private refunds: RefundRepository;
+  private sequence = 0;
+  private readonly processingDays = parseInt(process.env.REFUND_PROCESSING_DAYS || '5', 10);
+
+  constructor(persistence: PersistenceService) {
+    this.refunds = persistence.refunds;
+  }
+
+  async process(data: {
+    orderId: string;
+    amount: number;
+    reason: string;
+    idempotencyKey?: string;
+  }): Promise<RefundResult> {
+    const now = new Date();
+    const refund: RefundResult = {
+      id: `REF-${now.getTime()}-${++this.sequence}`,
       orderId: data.orderId,
       amount: data.amount,
       reason: data.reason,
       status: 'pending',
+      idempotencyKey: data.idempotencyKey,
+      createdAt: now,
+      updatedAt: now,
+      history: [{ status: 'pending', at: now }],
     };
+    return this.refunds.save(refund);
+  }
+
+  async findById(id: string): Promise<RefundResult | null> {
+    return this.refunds.findById(id);
+  }
+
+  async findByOrder(orderId: string): Promise<RefundResult[]> {
+    return this.refunds.findBy('order_id', orderId);
+  }
+
+  async list(filter: { status?: RefundStatus; orderId?: string } = {}): Promise<RefundResult[]> {
+    const candidates = filter.orderId ? await this.findByOrder(filter.orderId) : await this.refunds.findAll();
+    return candidates
+      .filter((refund) => !filter.status || refund.status === filter.status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Moves a refund along pending → approved → issued, or to failed/reversed.
+   * Throws when the transition is not allowed from the current status.
+   */
+  async transition(
+    id: string,
+    status: RefundStatus,
+    meta: { by?: string; note?: string } = {}
+  ): Promise<RefundResult | null> {
+    const refund = await this.refunds.findById(id);
+    if (!refund) return null;
+
+    if (!REFUND_TRANSITIONS[refund.status].includes(status)) {
+      throw new Error(`Refund ${id} cannot move from ${refund.status} to ${status}`);
+    }
+
+    refund.status = status;
+    refund.updatedAt = new Date();
+    refund.history.push({ status, at: refund.updatedAt, by: meta.by, note: meta.note });
+    return this.refunds.save(refund);
+  }
+
+  /**
+   * Business days until the money reaches the customer, based on how far the
+   * refund has progressed through the ledger.
+   */
+  estimateProcessingDays(refund: RefundResult): number | null {
+    switch (refund.status) {
+      case 'pending':
+        return this.processingDays;
+      case 'approved': {
+        const approvedAt = refund.history.find((change) => change.status === 'approved')?.at || refund.updatedAt;
+        const elapsedDays = Math.floor((Date.now() - approvedAt.getTime()) / (24 * 60 * 60 * 1000));
+        return Math.max(1, this.processingDays - 1 - elapsedDays);
+      }
+      case 'issued':
+        return 0;
+      default:
+        return null;
+    }
   }
 }
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PersistenceService } from '../persistence/persistence.service';
+import { OrderService } from './order.service';
+import { RefundEligibilityService } from './refund-eligibility.service';
+import { RefundService } from './refund.service';
+import { ReturnService } from './return.service';
+
+delete process.env.REDIS_HOST;
+
+async function createServices() {
+  const persistence = new PersistenceService();
+  await persistence.ready;
+  const orders = new OrderService(persistence);
+  const refunds = new RefundService(persistence);
+  const returns = new ReturnService(persistence, orders, refunds, new RefundEligibilityService(orders, refunds));
+  return { refunds, returns };
+}
+
+test('concurrent returns for the same order cannot return an item twice', async () => {
+  const { returns } = await createServices();
+  const results = await Promise.all([
+    returns.initiate({ orderId: 'ORD-12346', reason: 'damaged' }),
+    returns.initiate({ orderId: 'ORD-12346', reason: 'damaged' }),
+  ]);
+
+  assert.equal(results[0].success, true);
+  assert.equal(results[1].success, false);
+  assert.deepEqual(
+    results[1].success === false && results[1].rejections.map((rejection) => rejection.code),
+    ['INVALID_QUANTITY']
+  );
+  assert.equal((await returns.list({ orderId: 'ORD-12346' })).length, 1);
+});
+
+test('an accepted parcel is refunded and cannot be received twice', async () => {
+  const { refunds, returns } = await createServices();
+  const opened = await returns.initiate({ orderId: 'ORD-12346', reason: 'damaged' });
+  const { rmaNumber } = opened.success === true && opened.returnRequest;
+
+  const received = await returns.receive(rmaNumber, { accepted: true });
+
+  assert.equal(received!.status, 'refunded');
+  assert.equal((await refunds.findById(received!.refundId!))!.amount, received!.refundAmount);
+  await assert.rejects(returns.receive(rmaNumber, { accepted: true }), /already refunded/);
+});
+
+test('a refund blocked on receipt can be retried once the blocking refund is voided', async () => {
+  const { refunds, returns } = await createServices();
+  const blocking = await refunds.process({ orderId: 'ORD-12346', amount: 19.99, reason: 'Goodwill' });
+  const opened = await returns.initiate({ orderId: 'ORD-12346', reason: 'damaged' });
+  const { rmaNumber } = opened.success === true && opened.returnRequest;
+
+  const received = await returns.receive(rmaNumber, { accepted: true });
+  assert.equal(received!.status, 'received');
+  assert.deepEqual(
+    received!.refundRejections!.map((rejection) => rejection.code),
+    ['ALREADY_REFUNDED']
+  );
+
+  await refunds.transition(blocking.id, 'failed');
+  const retried = await returns.retryRefund(rmaNumber);
+
+  assert.equal(retried!.status, 'refunded');
+  assert.equal(retried!.refundRejections, undefined);
+  await assert.rejects(returns.retryRefund(rmaNumber), /only received returns can be refunded/);
+});
+
+test('a parcel rejected on inspection is not refunded and frees its items for another return', async () => {
+  const { refunds, returns } = await createServices();
+  const opened = await returns.initiate({ orderId: 'ORD-12346', reason: 'no_longer_needed' });
+  const { rmaNumber } = opened.success === true && opened.returnRequest;
+
+  const rejected = await returns.receive(rmaNumber, { accepted: false });
+
+  assert.equal(rejected!.status, 'rejected');
+  assert.deepEqual(await refunds.findByOrder('ORD-12346'), []);
+  assert.equal((await returns.initiate({ orderId: 'ORD-12346', reason: 'damaged' })).success, true);
+});
@@ -0,0 +1,297 @@
+/**
+ * Return Service - Mock returns (RMA) workflow for CSR agent
+ * Validates per-item returns against the order, issues a return label stub and
+ * refunds the returned items once the warehouse receives them.
+ */
+
+import { Injectable } from '@hazeljs/core';
+import { PersistenceService } from '../persistence/persistence.service';
+import type { Repository } from '../persistence/repository';
+import { OrderService, type Order } from './order.service';
+import { RefundService } from './refund.service';
+import { RefundEligibilityService, type RefundRejection } from './refund-eligibility.service';
+
+export type ReturnReason =
+  | 'damaged'
+  | 'defective'
+  | 'wrong_item'
+  | 'not_as_described'
+  | 'no_longer_needed'
+  | 'other';
+
+export type ReturnStatus = 'label_issued' | 'received' | 'refunded' | 'rejected';
+
+export interface ReturnItem {
+  sku: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface ReturnLabel {
+  carrier: string;
+  trackingNumber: string;
+  labelUrl: string;
+  expiresAt: Date;
+}
+
+export interface ReturnRequest {
+  rmaNumber: string;
+  orderId: string;
+  items: ReturnItem[];
+  reason: ReturnReason;
+  notes?: string;
+  status: ReturnStatus;
+  label: ReturnLabel;
+  /** Refund the returned items automatically when the warehouse receives them */
+  autoRefund: boolean;
+  refundAmount: number;
+  refundId?: string;
+  refundRejections?: RefundRejection[];
+  createdAt: Date;
+  receivedAt?: Date;
+}
+
+export interface ReturnRejection {
+  code: 'ORDER_NOT_FOUND' | 'ORDER_NOT_RETURNABLE' | 'RETURN_WINDOW_EXPIRED' | 'INVALID_ITEM' | 'INVALID_QUANTITY';
+  message: string;
+}
+
+export interface ReturnInitiation {
+  orderId: string;
+  items?: Array<{ sku: string; quantity?: number }>;
+  reason: ReturnReason;
+  notes?: string;
+  autoRefund?: boolean;
+}
+
+export type ReturnInitiationResult =
+  | { success: true; returnRequest: ReturnRequest }
+  | { success: false; rejections: ReturnRejection[] };
+
+export const RETURN_REASONS: ReturnReason[] = [
+  'damaged',
+  'defective',
+  'wrong_item',
+  'not_as_described',
+  'no_longer_needed',
+  'other',
+];
+
+const RETURNABLE_STATUSES = ['delivered'];
+const LABEL_VALID_DAYS = 14;
+
+@Injectable()
+export class ReturnService {
+  private returns: Repository<ReturnRequest>;
+  /** Serializes RMAs per order so two requests can't both return the same items */
+  private opening: Map<string, Promise<unknown>> = new Map();
+  private sequence = 0;
+  private readonly windowDays = parseInt(process.env.RETURN_WINDOW_DAYS || '30', 10);
+
+  constructor(
+    persistence: PersistenceService,
+    private orderService: OrderService,
+    private refundService: RefundService,
+    private refundEligibilityService: RefundEligibilityService
+  ) {
+    this.returns = persistence.returns;
+  }
+
+  /**
+   * Opens an RMA for some or all items of a delivered order. When `items` is
+   * omitted every item that has not been returned yet is included.
+   */
+  async initiate(data: ReturnInitiation): Promise<ReturnInitiationResult> {
+    return this.serialize(data.orderId, () => this.open(data));
+  }
+
+  /** The reasons `initiate` would reject the request for, without opening an RMA */
+  async check(data: ReturnInitiation): Promise<ReturnRejection[]> {
+    return (await this.validate(data)).rejections;
+  }
+
+  private async open(data: ReturnInitiation): Promise<ReturnInitiationResult> {
+    const { order, items, rejections } = await this.validate(data);
+    if (rejections.length > 0) {
+      return { success: false, rejections };
+    }
+
+    const rmaNumber = `RMA-${Date.now().toString(36).toUpperCase()}-${++this.sequence}`;
+    const returnRequest: ReturnRequest = {
+      rmaNumber,
+      orderId: order.id,
+      items,
+      reason: data.reason,
+      notes: data.notes,
+      status: 'label_issued',
+      label: this.createLabel(rmaNumber),
+      autoRefund: data.autoRefund ?? true,
+      refundAmount: Math.round(items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0) * 100) / 100,
+      createdAt: new Date(),
+    };
+    await this.returns.save(returnRequest);
+    return { success: true, returnRequest };
+  }
+
+  private async validate(
+    data: ReturnInitiation
+  ): Promise<{ order?: Order; items: ReturnItem[]; rejections: ReturnRejection[] }> {
+    const order = await this.orderService.findById(data.orderId);
+    if (!order) {
+      return { items: [], rejections: [{ code: 'ORDER_NOT_FOUND', message: `Order ${data.orderId} not found` }] };
+    }
+
+    const rejections: ReturnRejection[] = [];
+    if (!RETURNABLE_STATUSES.includes(order.status)) {
+      rejections.push({
+        code: 'ORDER_NOT_RETURNABLE',
+        message: `Order ${order.id} is ${order.status}; only delivered orders can be returned`,
+      });
+    }
+    const windowEnds = new Date(order.createdAt.getTime() + this.windowDays * 24 * 60 * 60 * 1000);
+    if (windowEnds.getTime() < Date.now()) {
+      rejections.push({
+        code: 'RETURN_WINDOW_EXPIRED',
+        message: `The ${this.windowDays}-day return window for order ${order.id} ended on ${windowEnds.toDateString()}`,
+      });
+    }
+
+    const alreadyReturned = await this.returnedQuantities(order.id);
+    const requested = data.items?.length
+      ? data.items
+      : order.items.map((item) => ({ sku: item.sku, quantity: item.quantity - (alreadyReturned.get(item.sku) || 0) }));
+    const items: ReturnItem[] = [];
+
+    for (const entry of requested) {
+      const orderItem = order.items.find((item) => item.sku === entry.sku);
+      if (!orderItem) {
+        rejections.push({ code: 'INVALID_ITEM', message: `${entry.sku} is not part of order ${order.id}` });
+        continue;
+      }
+      const returnable = orderItem.quantity - (alreadyReturned.get(orderItem.sku) || 0);
+      const quantity = entry.quantity ?? returnable;
+      if (!Number.isInteger(quantity) || quantity <= 0 || quantity > returnable) {
+        rejections.push({
+          code: 'INVALID_QUANTITY',
+          message: `Only ${returnable} of ${orderItem.sku} can still be returned`,
+        });
+        continue;
+      }
+      items.push({ sku: orderItem.sku, quantity, unitPrice: orderItem.price });
+    }
+
+    return { order, items, rejections };
+  }
+
+  async findByRma(rmaNumber: string): Promise<ReturnRequest | null> {
+    return this.returns.findById(rmaNumber);
+  }
+
+  async list(filter: { orderId?: string; status?: ReturnStatus } = {}): Promise<ReturnRequest[]> {
+    const requests = filter.orderId
+      ? await this.returns.findBy('order_id', filter.orderId)
+      : await this.returns.findAll();
+    return requests
+      .filter((request) => !filter.status || request.status === filter.status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Marks the parcel as received by the warehouse (or rejected on inspection).
+   * Accepted returns with `autoRefund` are refunded through the usual
+   * eligibility checks; a failed check leaves the return `received`.
+   */
+  async receive(rmaNumber: string, inspection: { accepted: boolean }): Promise<ReturnRequest | null> {
+    const returnRequest = await this.returns.findById(rmaNumber);
+    if (!returnRequest) return null;
+    if (returnRequest.status !== 'label_issued') {
+      throw new Error(`Return ${rmaNumber} was already ${returnRequest.status}`);
+    }
+
+    returnRequest.receivedAt = new Date();
+    if (!inspection.accepted) {
+      returnRequest.status = 'rejected';
+      return this.returns.save(returnRequest);
+    }
+
+    returnRequest.status = 'received';
+    if (returnRequest.autoRefund) {
+      await this.refund(returnRequest);
+    }
+    return this.returns.save(returnRequest);
+  }
+
+  /**
+   * Refunds a received return whose automatic refund failed (or that had
+   * `autoRefund` off), e.g. once a blocking refund has been voided.
+   */
+  async retryRefund(rmaNumber: string): Promise<ReturnRequest | null> {
+    const returnRequest = await this.returns.findById(rmaNumber);
+    if (!returnRequest) return null;
+    if (returnRequest.status !== 'received') {
+      throw new Error(`Return ${rmaNumber} is ${returnRequest.status}; only received returns can be refunded`);
+    }
+
+    returnRequest.refundRejections = undefined;
+    await this.refund(returnRequest);
+    return this.returns.save(returnRequest);
+  }
+
+  /** The refund window is judged when the RMA was issued, so a parcel arriving after it closes is still refunded */
+  private async refund(returnRequest: ReturnRequest): Promise<void> {
+    const request = {
+      orderId: returnRequest.orderId,
+      amount: returnRequest.refundAmount,
+      reason: `Return ${returnRequest.rmaNumber}: ${returnRequest.reason}`,
+    };
+    await this.refundEligibilityService.serialize(returnRequest.orderId, async () => {
+      const eligibility = await this.refundEligibilityService.check(request, { requestedAt: returnRequest.createdAt });
+
+      if (eligibility.duplicateOf) {
+        returnRequest.status = 'refunded';
+        returnRequest.refundId = eligibility.duplicateOf.id;
+        return;
+      }
+      if (!eligibility.eligible) {
+        returnRequest.refundRejections = eligibility.rejections;
+        return;
+      }
+
+      const refund = await this.refundService.process({ ...request, idempotencyKey: eligibility.idempotencyKey });
+      returnRequest.status = 'refunded';
+      returnRequest.refundId = refund.id;
+    });
+  }
+
+  private async returnedQuantities(orderId: string): Promise<Map<string, number>> {
+    const quantities = new Map<string, number>();
+    for (const request of await this.list({ orderId })) {
+      if (request.status === 'rejected') continue;
+      for (const item of request.items) {
+        quantities.set(item.sku, (quantities.get(item.sku) || 0) + item.quantity);
+      }
+    }
+    return quantities;
+  }
+
+  private serialize<R>(orderId: string, work: () => Promise<R>): Promise<R> {
+    const previous = this.opening.get(orderId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(work);
+    this.opening.set(orderId, next);
+    const cleanup = () => {
+      if (this.opening.get(orderId) === next) this.opening.delete(orderId);
+    };
+    next.then(cleanup, cleanup);
+    return next;
+  }
+
+  /** Stub label; replace with a carrier label API in production */
+  private createLabel(rmaNumber: string): ReturnLabel {
+    return {
+      carrier: 'UPS',
+      trackingNumber: `1ZRET${rmaNumber.replace(/\W/g, '')}`,
+      labelUrl: `https://returns.example.com/labels/${rmaNumber}.pdf`,
+      expiresAt: new Date(Date.now() + LABEL_VALID_DAYS * 24 * 60 * 60 * 1000),
+    };
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Shipment Tracking Service - Where is the package, and is something wrong?
+ * Queries the configured carrier adapters and flags late, lost or failed shipments.
+ */
+
+import type { CarrierAdapter, TrackingEvent, TrackingStatus } from '../carriers/carrier.adapter';
+import { ReplayCarrierAdapter } from '../carriers/replay.carrier';
+import type { Order } from './order.service';
+
+export type ShipmentIssue = 'late' | 'lost' | 'exception';
+
+export interface ShipmentTracking {
+  orderId: string;
+  carrier: string;
+  trackingNumber: string;
+  status: TrackingStatus;
+  lastEvent?: TrackingEvent;
+  events: TrackingEvent[];
+  estimatedDelivery?: Date;
+  issue?: ShipmentIssue;
+}
+
+export class ShipmentTrackingService {
+  private adapters: CarrierAdapter[] = [];
+  /** Days without a new scan after which an undelivered parcel is presumed lost */
+  private readonly lostAfterDays = parseInt(process.env.TRACKING_LOST_AFTER_DAYS || '7', 10);
+
+  constructor() {
+    const configured = (process.env.CARRIER_ADAPTERS || 'replay').split(',').map((name) => name.trim());
+    if (configured.includes('replay')) {
+      this.adapters.push(new ReplayCarrierAdapter());
+    }
+  }
+
+  /** Adds a carrier integration; adapters are tried in registration order */
+  registerAdapter(adapter: CarrierAdapter): void {
+    this.adapters.push(adapter);
+  }
+
+  async track(order: Order): Promise<ShipmentTracking | null> {
+    if (!order.trackingNumber) return null;
+
+    for (const adapter of this.adapters) {
+      const result = await adapter.track(order.trackingNumber);
+      if (!result) continue;
+
+      const lastEvent = result.events[0];
+      const status = lastEvent?.status ?? 'label_created';
+      const estimatedDelivery = result.estimatedDelivery ?? order.estimatedDelivery;
+      return {
+        orderId: order.id,
+        carrier: result.carrier,
+        trackingNumber: result.trackingNumber,
+        status,
+        lastEvent,
+        events: result.events,
+        estimatedDelivery,
+        issue: this.detectIssue(status, lastEvent, estimatedDelivery),
+      };
+    }
+    return null;
+  }
+
+  private detectIssue(
+    status: TrackingStatus,
+    lastEvent: TrackingEvent | undefined,
+    estimatedDelivery: Date | undefined
+  ): ShipmentIssue | undefined {
+    if (status === 'delivered') return undefined;
+    if (status === 'exception') return 'exception';
+
+    const lostAfterMs = this.lostAfterDays * 24 * 60 * 60 * 1000;
+    if (lastEvent && Date.now() - lastEvent.occurredAt.getTime() > lostAfterMs) return 'lost';
+    if (estimatedDelivery && estimatedDelivery.getTime() < Date.now()) return 'late';
+    return undefined;
+  }
+}
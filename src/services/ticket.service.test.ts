@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PersistenceService } from '../persistence/persistence.service';
+import { TicketService } from './ticket.service';
+
+delete process.env.REDIS_HOST;
+
+const HOUR = 60 * 60 * 1000;
+
+async function createTickets(): Promise<TicketService> {
+  const persistence = new PersistenceService();
+  await persistence.ready;
+  return new TicketService(persistence);
+}
+
+test('sets the SLA due date from the priority and lists the most urgent first', async () => {
+  const tickets = await createTickets();
+  const low = await tickets.create({ subject: 'Question', description: 'Sizing', priority: 'low' });
+  const urgent = await tickets.create({ subject: 'Charged twice', description: 'Card', priority: 'URGENT' });
+  const unknown = await tickets.create({ subject: 'Other', description: 'Misc', priority: 'whenever' });
+
+  assert.equal(low.slaDueAt.getTime() - low.createdAt.getTime(), 72 * HOUR);
+  assert.equal(urgent.priority, 'urgent');
+  assert.equal(urgent.slaDueAt.getTime() - urgent.createdAt.getTime(), 2 * HOUR);
+  assert.equal(unknown.priority, 'medium');
+  assert.deepEqual(
+    (await tickets.list()).map((ticket) => ticket.id),
+    [urgent.id, unknown.id, low.id]
+  );
+});
+
+test('a priority change recomputes the SLA from when the ticket was opened', async () => {
+  const tickets = await createTickets();
+  const ticket = await tickets.create({ subject: 'Late parcel', description: 'ORD-12345', priority: 'low' });
+
+  const updated = await tickets.update(ticket.id, { priority: 'high', status: 'in_progress' }, 'supervisor-1');
+
+  assert.equal(updated!.slaDueAt.getTime() - ticket.createdAt.getTime(), 8 * HOUR);
+  assert.deepEqual(updated!.history.map((change) => [change.from, change.to]), [
+    [undefined, 'open'],
+    ['open', 'in_progress'],
+  ]);
+});
+
+test("the customer's reply puts a ticket waiting on them back in the queue", async () => {
+  const tickets = await createTickets();
+  const ticket = await tickets.create({ subject: 'Wrong size', description: 'PROD-001', userId: 'cust-001' });
+  await tickets.update(ticket.id, { status: 'waiting_on_customer' }, 'agent-7');
+
+  await tickets.addComment(ticket.id, { author: 'agent-7', body: 'Note for the team', internal: true });
+  assert.equal((await tickets.getById(ticket.id))!.status, 'waiting_on_customer');
+
+  const replied = await tickets.addComment(ticket.id, { author: 'cust-001', body: 'It is a medium' });
+  assert.equal(replied!.status, 'open');
+  assert.equal(replied!.history[replied!.history.length - 1].by, 'cust-001');
+});
@@ -1,39 +1,222 @@
 /**
  * Ticket Service - Mock implementation for CSR agent
- * Creates support tickets; can be queued for async processing
+ * Creates and manages support tickets; can be queued for async processing
  */
 
+import { Injectable } from '@hazeljs/core';
+import { PersistenceService } from '../persistence/persistence.service';
+import type { TicketRepository } from '../persistence/repository';
+
+export type TicketStatus = 'open' | 'in_progress' | 'waiting_on_customer' | 'resolved' | 'closed';
+export type TicketPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface TicketComment {
+  id: string;
+  author: string;
+  body: string;
+  /** Internal notes are visible to agents only, never read back to the customer */
+  internal: boolean;
+  createdAt: Date;
+}
+
+export interface TicketStatusChange {
+  from?: TicketStatus;
+  to: TicketStatus;
+  by: string;
+  at: Date;
+}
+
 export interface Ticket {
   id: string;
   subject: string;
   description: string;
-  priority: string;
-  status: string;
+  priority: TicketPriority;
+  status: TicketStatus;
+  assignee?: string;
+  /** Team queue the ticket was routed to, e.g. billing or shipping */
+  team?: string;
+  sessionId?: string;
+  userId?: string;
+  slaDueAt: Date;
+  comments: TicketComment[];
+  history: TicketStatusChange[];
+  /** Set when the customer's personal data was erased from the ticket */
+  redactedAt?: Date;
   createdAt: Date;
+  updatedAt: Date;
 }
 
+export interface TicketFilter {
+  status?: TicketStatus;
+  priority?: TicketPriority;
+  assignee?: string;
+  team?: string;
+  userId?: string;
+  sessionId?: string;
+}
+
+export const TICKET_PRIORITIES: TicketPriority[] = ['low', 'medium', 'high', 'urgent'];
+export const TICKET_STATUSES: TicketStatus[] = ['open', 'in_progress', 'waiting_on_customer', 'resolved', 'closed'];
+
+const REDACTED = '[redacted]';
+const ERASED_CUSTOMER = 'erased-customer';
+
+/** Time to resolution promised for each priority */
+const SLA_HOURS: Record<TicketPriority, number> = {
+  low: 72,
+  medium: 24,
+  high: 8,
+  urgent: 2,
+};
+
+@Injectable()
 export class TicketService {
-  private tickets: Map<string, Ticket> = new Map();
+  private tickets: TicketRepository;
+  private sequence = 0;
+
+  constructor(persistence: PersistenceService) {
+    this.tickets = persistence.tickets;
+  }
 
   async create(data: {
     subject: string;
     description: string;
     priority?: string;
+    sessionId?: string;
+    userId?: string;
   }): Promise<Ticket> {
-    const id = 'TKT-' + Date.now();
+    const now = new Date();
+    const id = `TKT-${now.getTime()}-${++this.sequence}`;
+    const priority = this.normalizePriority(data.priority);
     const ticket: Ticket = {
       id,
       subject: data.subject,
       description: data.description,
-      priority: data.priority || 'medium',
+      priority,
       status: 'open',
-      createdAt: new Date(),
+      sessionId: data.sessionId,
+      userId: data.userId,
+      slaDueAt: this.slaDueAt(priority, now),
+      comments: [],
+      history: [{ to: 'open', by: data.userId || 'csr-agent', at: now }],
+      createdAt: now,
+      updatedAt: now,
     };
-    this.tickets.set(id, ticket);
-    return ticket;
+    return this.tickets.save(ticket);
   }
 
   async getById(id: string): Promise<Ticket | null> {
-    return this.tickets.get(id) || null;
+    return this.tickets.findById(id);
+  }
+
+  async list(filter: TicketFilter = {}): Promise<Ticket[]> {
+    const candidates = filter.userId ? await this.tickets.findBy('user_id', filter.userId) : await this.tickets.findAll();
+    return candidates
+      .filter((ticket) => !filter.status || ticket.status === filter.status)
+      .filter((ticket) => !filter.priority || ticket.priority === filter.priority)
+      .filter((ticket) => !filter.assignee || ticket.assignee === filter.assignee)
+      .filter((ticket) => !filter.team || ticket.team === filter.team)
+      .filter((ticket) => !filter.userId || ticket.userId === filter.userId)
+      .filter((ticket) => !filter.sessionId || ticket.sessionId === filter.sessionId)
+      .sort((a, b) => a.slaDueAt.getTime() - b.slaDueAt.getTime());
+  }
+
+  /**
+   * Updates status, priority and/or assignee. Status changes are appended to
+   * the ticket history; a priority change recomputes the SLA due date.
+   */
+  async update(
+    id: string,
+    changes: { status?: TicketStatus; priority?: TicketPriority; assignee?: string; team?: string },
+    by: string
+  ): Promise<Ticket | null> {
+    const ticket = await this.tickets.findById(id);
+    if (!ticket) return null;
+    const now = new Date();
+
+    if (changes.status && changes.status !== ticket.status) {
+      ticket.history.push({ from: ticket.status, to: changes.status, by, at: now });
+      ticket.status = changes.status;
+    }
+    if (changes.priority && changes.priority !== ticket.priority) {
+      ticket.priority = changes.priority;
+      ticket.slaDueAt = this.slaDueAt(changes.priority, ticket.createdAt);
+    }
+    if (changes.assignee !== undefined) {
+      ticket.assignee = changes.assignee || undefined;
+    }
+    if (changes.team !== undefined) {
+      ticket.team = changes.team || undefined;
+    }
+
+    ticket.updatedAt = now;
+    return this.tickets.save(ticket);
+  }
+
+  async addComment(
+    id: string,
+    comment: { author: string; body: string; internal?: boolean }
+  ): Promise<Ticket | null> {
+    const ticket = await this.tickets.findById(id);
+    if (!ticket) return null;
+    const now = new Date();
+    ticket.comments.push({
+      id: `${id}-C${ticket.comments.length + 1}`,
+      author: comment.author,
+      body: comment.body,
+      internal: comment.internal ?? false,
+      createdAt: now,
+    });
+    // A customer reply puts a ticket that was waiting on them back in the queue
+    if (!comment.internal && ticket.status === 'waiting_on_customer' && comment.author === ticket.userId) {
+      ticket.history.push({ from: ticket.status, to: 'open', by: comment.author, at: now });
+      ticket.status = 'open';
+    }
+    ticket.updatedAt = now;
+    return this.tickets.save(ticket);
+  }
+
+  async close(id: string, by: string): Promise<Ticket | null> {
+    return this.update(id, { status: 'closed' }, by);
+  }
+
+  /**
+   * Erases the customer's personal data from their tickets: free text is
+   * replaced and the ticket is unlinked from the customer and session, while
+   * status, priority, SLA and timestamps stay for reporting.
+   */
+  async redactCustomer(userId: string): Promise<Ticket[]> {
+    const redacted: Ticket[] = [];
+    const now = new Date();
+    for (const ticket of await this.tickets.findBy('user_id', userId)) {
+      ticket.subject = REDACTED;
+      ticket.description = REDACTED;
+      for (const comment of ticket.comments) {
+        comment.body = REDACTED;
+        if (comment.author === userId) comment.author = ERASED_CUSTOMER;
+      }
+      for (const change of ticket.history) {
+        if (change.by === userId) change.by = ERASED_CUSTOMER;
+      }
+      ticket.userId = undefined;
+      ticket.sessionId = undefined;
+      ticket.redactedAt = now;
+      ticket.updatedAt = now;
+      redacted.push(await this.tickets.save(ticket));
+    }
+    return redacted;
+  }
+
+  isOverdue(ticket: Ticket): boolean {
+    return ticket.status !== 'resolved' && ticket.status !== 'closed' && ticket.slaDueAt.getTime() < Date.now();
+  }
+
+  private normalizePriority(priority?: string): TicketPriority {
+    const value = (priority || '').toLowerCase() as TicketPriority;
+    return TICKET_PRIORITIES.includes(value) ? value : 'medium';
+  }
+
+  private slaDueAt(priority: TicketPriority, from: Date): Date {
+    return new Date(from.getTime() + SLA_HOURS[priority] * 60 * 60 * 1000);
   }
 }
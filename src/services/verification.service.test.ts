@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PersistenceService } from '../persistence/persistence.service';
+import { CustomerService } from './customer.service';
+import { OrderService } from './order.service';
+import { VerificationService } from './verification.service';
+
+async function createVerificationService(): Promise<VerificationService> {
+  const persistence = new PersistenceService();
+  await persistence.ready;
+  return new VerificationService(new CustomerService(persistence), new OrderService(persistence));
+}
+
+const wrongZip = { orderId: 'ORD-12345', email: 'jane.doe@example.com', postalCode: '00000' };
+const rightZip = { orderId: 'ORD-12345', email: 'jane.doe@example.com', postalCode: '12345' };
+
+test('verifies the owner of the order and authorizes the session for it', async () => {
+  const verification = await createVerificationService();
+
+  const result = await verification.verifyChallenge({ sessionId: 's-1' }, rightZip);
+
+  assert.equal(result.verified, true);
+  assert.equal(result.customerId, 'cust-001');
+  assert.equal(await verification.isAuthorizedForOrder('ORD-12345', { sessionId: 's-1' }), true);
+  assert.equal(await verification.isAuthorizedForOrder('ORD-12345', { sessionId: 's-2' }), false);
+});
+
+test('locks the customer after three failures, even for a new sessionId', async () => {
+  const verification = await createVerificationService();
+
+  for (const sessionId of ['s-1', 's-2', 's-3']) {
+    assert.equal((await verification.verifyChallenge({ sessionId }, wrongZip)).verified, false);
+  }
+  const result = await verification.verifyChallenge({ sessionId: 's-4' }, rightZip);
+
+  assert.equal(result.verified, false);
+  assert.equal(result.attemptsRemaining, 0);
+});
+
+test('counts attempts by email against the same customer as attempts by order', async () => {
+  const verification = await createVerificationService();
+
+  await verification.verifyChallenge({ sessionId: 's-1' }, wrongZip);
+  await verification.verifyChallenge({ sessionId: 's-2' }, wrongZip);
+  const result = await verification.verifyChallenge(
+    { sessionId: 's-3' },
+    { email: 'jane.doe@example.com', postalCode: '99999' }
+  );
+
+  assert.equal(result.attemptsRemaining, 0);
+  assert.equal((await verification.verifyChallenge({ sessionId: 's-4' }, rightZip)).verified, false);
+});
@@ -0,0 +1,124 @@
+/**
+ * Verification Service - Ties a chat caller to the orders they may see
+ * A caller is authorized for an order when their userId owns it, or when the
+ * session has passed an email + postal code challenge for the order's customer.
+ */
+
+import { Injectable } from '@hazeljs/core';
+import { CustomerService } from './customer.service';
+import { OrderService } from './order.service';
+
+export interface CallerContext {
+  sessionId?: string;
+  userId?: string;
+}
+
+export interface ChallengeResult {
+  verified: boolean;
+  customerId?: string;
+  attemptsRemaining: number;
+  message: string;
+}
+
+const MAX_CHALLENGE_ATTEMPTS = 3;
+
+@Injectable()
+export class VerificationService {
+  /** sessionId → customer IDs verified in that session */
+  private verifiedSessions: Map<string, Set<string>> = new Map();
+  /** Challenged customer (or the unknown order/email asked about) → failed attempts, across sessions */
+  private failedAttempts: Map<string, number> = new Map();
+
+  constructor(
+    private customerService: CustomerService,
+    private orderService: OrderService
+  ) {}
+
+  async isAuthorizedForOrder(orderId: string, caller: CallerContext = {}): Promise<boolean> {
+    const order = await this.orderService.findById(orderId);
+    if (!order) return false;
+    return this.isAuthorizedForCustomer(order.customerId, caller);
+  }
+
+  isAuthorizedForCustomer(customerId: string, caller: CallerContext = {}): boolean {
+    if (caller.userId && caller.userId === customerId) return true;
+    return !!caller.sessionId && !!this.verifiedSessions.get(caller.sessionId)?.has(customerId);
+  }
+
+  /**
+   * Challenges the caller with the email and billing postal code on file for
+   * the order's customer (or, without an order ID, the customer owning the
+   * email). After three failed attempts the customer is locked, whichever
+   * session asks next, so a fresh sessionId doesn't buy more guesses.
+   */
+  async verifyChallenge(
+    caller: CallerContext,
+    challenge: { orderId?: string; email: string; postalCode: string }
+  ): Promise<ChallengeResult> {
+    if (!caller.sessionId) {
+      return { verified: false, attemptsRemaining: 0, message: 'Verification requires a chat session' };
+    }
+
+    const order = challenge.orderId ? await this.orderService.findById(challenge.orderId) : null;
+    const customer = challenge.orderId
+      ? order && (await this.customerService.findById(order.customerId))
+      : await this.customerService.findByEmail(challenge.email);
+    const attemptKey = attemptKeyOf(customer?.id, challenge);
+
+    const failed = this.failedAttempts.get(attemptKey) || 0;
+    if (failed >= MAX_CHALLENGE_ATTEMPTS) {
+      return {
+        verified: false,
+        attemptsRemaining: 0,
+        message: 'Too many failed verification attempts; please contact support through another channel',
+      };
+    }
+
+    const matches =
+      !!customer &&
+      customer.email === challenge.email.trim().toLowerCase() &&
+      normalizePostalCode(customer.postalCode) === normalizePostalCode(challenge.postalCode);
+
+    if (!matches) {
+      this.failedAttempts.set(attemptKey, failed + 1);
+      return {
+        verified: false,
+        attemptsRemaining: MAX_CHALLENGE_ATTEMPTS - failed - 1,
+        message: 'The details provided do not match our records',
+      };
+    }
+
+    const verified = this.verifiedSessions.get(caller.sessionId) || new Set<string>();
+    verified.add(customer.id);
+    this.verifiedSessions.set(caller.sessionId, verified);
+    this.failedAttempts.delete(attemptKey);
+    return {
+      verified: true,
+      customerId: customer.id,
+      attemptsRemaining: MAX_CHALLENGE_ATTEMPTS,
+      message: 'Identity verified',
+    };
+  }
+
+  /** Withdraws the customer's verification from every session (erasure); returns how many sessions held it */
+  revokeCustomer(customerId: string): number {
+    let revoked = 0;
+    for (const [sessionId, customers] of Array.from(this.verifiedSessions.entries())) {
+      if (!customers.delete(customerId)) continue;
+      revoked += 1;
+      if (!customers.size) this.verifiedSessions.delete(sessionId);
+    }
+    return revoked;
+  }
+}
+
+/** Failed attempts count against the customer, or the order/email asked about when none matches */
+function attemptKeyOf(customerId: string | undefined, challenge: { orderId?: string; email: string }): string {
+  if (customerId) return `customer:${customerId}`;
+  if (challenge.orderId) return `order:${challenge.orderId.trim().toUpperCase()}`;
+  return `email:${challenge.email.trim().toLowerCase()}`;
+}
+
+function normalizePostalCode(postalCode: string): string {
+  return postalCode.replace(/[\s-]/g, '').toUpperCase();
+}
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PersistenceService } from '../persistence/persistence.service';
+import { InventoryService } from '../services/inventory.service';
+import { NotificationService } from '../services/notification.service';
+import { JobQueueService } from './job-queue.service';
+import { InventoryWorker } from './inventory.worker';
+
+delete process.env.REDIS_HOST;
+
+function createWorker(persistence: PersistenceService) {
+  const jobQueue = new JobQueueService();
+  const inventoryService = new InventoryService(persistence);
+  const notifications = new NotificationService();
+  const worker = new InventoryWorker(jobQueue, inventoryService, notifications);
+  return { jobQueue, inventoryService, notifications, worker };
+}
+
+test('notifies subscriptions that were still open when the process stopped', async () => {
+  const persistence = new PersistenceService();
+  await persistence.ready;
+  const before = createWorker(persistence);
+  // Subscribed, but the process stopped before the queued check ran
+  const open = await before.inventoryService.subscribeBackInStock({ sku: 'PROD-003', contact: 'jane.doe@example.com' });
+  const notified = await before.inventoryService.subscribeBackInStock({ sku: 'PROD-003', contact: 'john.smith@example.com' });
+  await before.inventoryService.markNotified(notified.id);
+
+  const { jobQueue, inventoryService, notifications, worker } = createWorker(persistence);
+  await worker.start();
+  await jobQueue.onIdle();
+
+  assert.deepEqual(
+    (await notifications.list()).map((notification) => notification.to),
+    ['jane.doe@example.com']
+  );
+  assert.ok((await inventoryService.findSubscription(open.id))!.notifiedAt);
+  assert.deepEqual(await inventoryService.openSubscriptions(), []);
+});
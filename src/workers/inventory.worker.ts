@@ -0,0 +1,95 @@
+/**
+ * Inventory Worker - Consumes the 'inventory' queue
+ * Fires back-in-stock notifications once a subscribed SKU's restock arrives,
+ * re-checking on the next restock date while it is still unavailable.
+ * In-process jobs die with the process, so on start every subscription that
+ * has not been notified yet is checked again; Redis keeps its delayed jobs.
+ */
+
+import { Injectable } from '@hazeljs/core';
+import logger from '@hazeljs/core';
+import { InventoryService } from '../services/inventory.service';
+import { NotificationService } from '../services/notification.service';
+import { JobQueueService, type QueueJob } from './job-queue.service';
+
+export const INVENTORY_QUEUE = 'inventory';
+export const BACK_IN_STOCK_JOB = 'back-in-stock';
+
+export interface BackInStockJobData extends Record<string, unknown> {
+  subscriptionId: string;
+}
+
+/** setTimeout cannot hold longer delays; jobs further out are re-queued in steps */
+const MAX_DELAY_MS = 20 * 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class InventoryWorker {
+  private started = false;
+  private readonly recheckMs = parseInt(process.env.BACK_IN_STOCK_RECHECK_HOURS || '24', 10) * 60 * 60 * 1000;
+
+  constructor(
+    private jobQueue: JobQueueService,
+    private inventoryService: InventoryService,
+    private notificationService: NotificationService
+  ) {}
+
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+    this.jobQueue.process<BackInStockJobData>(INVENTORY_QUEUE, (job) => this.handle(job));
+    logger.info(`Inventory worker consuming '${INVENTORY_QUEUE}' (${this.jobQueue.backend} queue)`);
+    if (this.jobQueue.backend === 'in-process') {
+      await this.rescheduleOpenSubscriptions();
+    }
+  }
+
+  /** Queues the notification check for the SKU's next restock date */
+  async schedule(subscriptionId: string, sku: string): Promise<void> {
+    const nextRestock = await this.inventoryService.nextRestock(sku);
+    await this.jobQueue.add<BackInStockJobData>(
+      INVENTORY_QUEUE,
+      BACK_IN_STOCK_JOB,
+      { subscriptionId },
+      { delayMs: this.delayUntil(nextRestock) }
+    );
+  }
+
+  /** Checks each open subscription now; one still out of stock is scheduled for its next restock from there */
+  private async rescheduleOpenSubscriptions(): Promise<void> {
+    const open = await this.inventoryService.openSubscriptions();
+    for (const subscription of open) {
+      await this.jobQueue.add<BackInStockJobData>(INVENTORY_QUEUE, BACK_IN_STOCK_JOB, {
+        subscriptionId: subscription.id,
+      });
+    }
+    if (open.length) logger.info(`Re-checking ${open.length} open back-in-stock subscription(s)`);
+  }
+
+  private async handle(job: QueueJob<BackInStockJobData>): Promise<void> {
+    if (job.name !== BACK_IN_STOCK_JOB) return;
+
+    const subscription = await this.inventoryService.findSubscription(job.data.subscriptionId);
+    if (!subscription || subscription.notifiedAt) return;
+
+    await this.inventoryService.applyDueRestocks();
+    const available = await this.inventoryService.availableQuantity(subscription.sku);
+    if (available === 0) {
+      await this.schedule(subscription.id, subscription.sku);
+      return;
+    }
+
+    const product = await this.inventoryService.findProduct(subscription.sku);
+    await this.notificationService.send({
+      channel: subscription.channel,
+      to: subscription.contact,
+      subject: `${product?.name ?? subscription.sku} is back in stock`,
+      body: `Good news: ${product?.name ?? subscription.sku} (${subscription.sku}) is available again. Quantities are limited.`,
+    });
+    await this.inventoryService.markNotified(subscription.id);
+  }
+
+  private delayUntil(date?: Date): number {
+    const delay = date ? date.getTime() - Date.now() : this.recheckMs;
+    return Math.min(Math.max(0, delay), MAX_DELAY_MS);
+  }
+}
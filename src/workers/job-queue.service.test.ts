@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JobQueueService } from './job-queue.service';
+
+delete process.env.REDIS_HOST;
+
+test('runs in-process jobs in arrival order; onIdle waits for them', async () => {
+  const queue = new JobQueueService();
+  const seen: number[] = [];
+  queue.process<{ n: number }>('jobs', async (job) => {
+    seen.push(job.data.n);
+  });
+
+  await queue.add('jobs', 'run', { n: 1 });
+  await queue.add('jobs', 'run', { n: 2 });
+  await queue.onIdle();
+
+  assert.equal(queue.backend, 'in-process');
+  assert.deepEqual(seen, [1, 2]);
+});
+
+test('holds delayed jobs back until they are due; onIdle waits for them too', async () => {
+  const queue = new JobQueueService();
+  const seen: string[] = [];
+  queue.process<{ label: string }>('jobs', async (job) => {
+    seen.push(job.data.label);
+  });
+
+  const start = Date.now();
+  await queue.add('jobs', 'run', { label: 'later' }, { delayMs: 40 });
+  await queue.add('jobs', 'run', { label: 'now' });
+  await queue.onIdle();
+
+  assert.deepEqual(seen, ['now', 'later']);
+  assert.ok(Date.now() - start >= 35, 'the delayed job ran early');
+});
+
+test('keeps draining after a handler throws', async () => {
+  const queue = new JobQueueService();
+  const seen: number[] = [];
+  queue.process<{ n: number }>('jobs', async (job) => {
+    if (job.data.n === 1) throw new Error('boom');
+    seen.push(job.data.n);
+  });
+
+  await queue.add('jobs', 'run', { n: 1 });
+  await queue.add('jobs', 'run', { n: 2 });
+  await queue.onIdle();
+
+  assert.deepEqual(seen, [2]);
+});
+
+test('keeps jobs for a queue until its consumer registers', async () => {
+  const queue = new JobQueueService();
+  const seen: number[] = [];
+
+  await queue.add('jobs', 'run', { n: 1 });
+  await queue.onIdle();
+  queue.process<{ n: number }>('jobs', async (job) => {
+    seen.push(job.data.n);
+  });
+  await queue.onIdle();
+
+  assert.deepEqual(seen, [1]);
+});
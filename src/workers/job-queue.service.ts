@@ -0,0 +1,167 @@
+/**
+ * Job Queue Service - Producer/consumer facade over the background job queue
+ * Uses Redis (@hazeljs/queue producer, BullMQ worker) when REDIS_HOST is set,
+ * otherwise an in-process queue so async paths run without Redis. Delayed
+ * Redis jobs are added with BullMQ's own `delay`, so they survive a restart;
+ * in-process jobs, delayed retries included, live in memory and do not.
+ */
+
+import { QueueService } from '@hazeljs/queue';
+import { Queue, Worker } from 'bullmq';
+import logger from '@hazeljs/core';
+
+export interface QueueJob<T = Record<string, unknown>> {
+  id: string;
+  queue: string;
+  name: string;
+  data: T;
+}
+
+export type JobHandler<T = Record<string, unknown>> = (job: QueueJob<T>) => Promise<void>;
+
+interface PendingJob extends QueueJob {
+  runAt: number;
+}
+
+export class JobQueueService {
+  readonly backend: 'redis' | 'in-process';
+  private queueService?: QueueService;
+  private workers: Worker[] = [];
+  private delayedQueues: Map<string, Queue> = new Map();
+  private handlers: Map<string, JobHandler<any>> = new Map();
+  private pending: PendingJob[] = [];
+  private running = false;
+  private sequence = 0;
+  private idleWaiters: Array<() => void> = [];
+
+  constructor() {
+    this.queueService = this.createRedisQueue();
+    this.backend = this.queueService ? 'redis' : 'in-process';
+  }
+
+  async add<T extends Record<string, unknown>>(
+    queue: string,
+    name: string,
+    data: T,
+    options: { delayMs?: number } = {}
+  ): Promise<{ id: string }> {
+    if (this.queueService) {
+      if (options.delayMs) {
+        const job = await this.delayedQueue(queue).add(name, data, { delay: options.delayMs });
+        return { id: String(job.id ?? `${queue}-${++this.sequence}`) };
+      }
+      const job = await this.queueService.add(queue, name, data);
+      return { id: String((job as { id?: string })?.id ?? `${queue}-${++this.sequence}`) };
+    }
+
+    const job: PendingJob = {
+      id: `${queue}-${++this.sequence}`,
+      queue,
+      name,
+      data,
+      runAt: Date.now() + (options.delayMs ?? 0),
+    };
+    this.pending.push(job);
+    this.schedule(options.delayMs ?? 0);
+    return { id: job.id };
+  }
+
+  /**
+   * Registers the consumer for a queue. With Redis this starts a BullMQ worker;
+   * in-process jobs are dispatched from memory in arrival order.
+   */
+  process<T = Record<string, unknown>>(queue: string, handler: JobHandler<T>): void {
+    this.handlers.set(queue, handler);
+
+    if (this.backend === 'redis') {
+      const worker = new Worker(
+        queue,
+        async (job) => handler({ id: String(job.id), queue, name: job.name, data: job.data as T }),
+        { connection: this.connection() }
+      );
+      worker.on('failed', (job, err) => logger.warn(`[queue:${queue}] job ${job?.id} failed:`, err));
+      this.workers.push(worker);
+      return;
+    }
+
+    this.schedule(0);
+  }
+
+  /** Resolves once the in-process queue has no queued, delayed or running jobs (used by tests and shutdown) */
+  async onIdle(): Promise<void> {
+    if (this.backend === 'redis' || (!this.running && !this.hasQueuedJobs())) return;
+    await new Promise<void>((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.workers.map((worker) => worker.close()));
+    await Promise.all(Array.from(this.delayedQueues.values()).map((queue) => queue.close()));
+    this.workers = [];
+    this.delayedQueues.clear();
+  }
+
+  private schedule(delayMs: number): void {
+    setTimeout(() => void this.drain(), delayMs);
+  }
+
+  private hasQueuedJobs(): boolean {
+    return this.pending.some((job) => this.handlers.has(job.queue));
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      let job = this.nextDueJob();
+      while (job) {
+        try {
+          await this.handlers.get(job.queue)!({ id: job.id, queue: job.queue, name: job.name, data: job.data });
+        } catch (err) {
+          logger.warn(`[queue:${job.queue}] job ${job.id} failed:`, err);
+        }
+        job = this.nextDueJob();
+      }
+    } finally {
+      this.running = false;
+    }
+
+    if (this.hasQueuedJobs()) return;
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+
+  private nextDueJob(): PendingJob | undefined {
+    const now = Date.now();
+    const index = this.pending.findIndex((job) => job.runAt <= now && this.handlers.has(job.queue));
+    return index === -1 ? undefined : this.pending.splice(index, 1)[0];
+  }
+
+  private delayedQueue(queue: string): Queue {
+    let producer = this.delayedQueues.get(queue);
+    if (!producer) {
+      producer = new Queue(queue, { connection: this.connection() });
+      this.delayedQueues.set(queue, producer);
+    }
+    return producer;
+  }
+
+  private connection(): { host: string; port: number } {
+    return {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379', 10),
+    };
+  }
+
+  private createRedisQueue(): QueueService | undefined {
+    try {
+      if (!process.env.REDIS_HOST) return undefined;
+      const queue = new QueueService();
+      queue.setConnection(this.connection());
+      return queue;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PersistenceService } from '../persistence/persistence.service';
+import { CustomerService } from '../services/customer.service';
+import { NotificationService } from '../services/notification.service';
+import { TicketService } from '../services/ticket.service';
+import { JobQueueService } from './job-queue.service';
+import { TICKETS_QUEUE, TicketWorker } from './ticket.worker';
+
+delete process.env.REDIS_HOST;
+process.env.TICKET_WORKER_MAX_ATTEMPTS = '3';
+process.env.TICKET_WORKER_BACKOFF_MS = '10';
+
+async function createWorker() {
+  const persistence = new PersistenceService();
+  await persistence.ready;
+  const jobQueue = new JobQueueService();
+  const ticketService = new TicketService(persistence);
+  const notifications = new NotificationService();
+  const worker = new TicketWorker(jobQueue, ticketService, notifications, new CustomerService(persistence), persistence);
+  return { persistence, jobQueue, ticketService, notifications, worker };
+}
+
+test('triages, routes and notifies a new ticket', async () => {
+  const { jobQueue, ticketService, notifications, worker } = await createWorker();
+  const ticket = await ticketService.create({
+    subject: 'Refund for a damaged jacket',
+    description: 'The zipper arrived broken',
+    userId: 'cust-001',
+  });
+
+  worker.start();
+  await jobQueue.add(TICKETS_QUEUE, 'created', { ticketId: ticket.id });
+  await jobQueue.onIdle();
+
+  const handled = await ticketService.getById(ticket.id);
+  assert.equal(handled!.priority, 'high');
+  assert.equal(handled!.team, 'billing');
+  assert.deepEqual(
+    (await notifications.list()).map((notification) => notification.to),
+    ['#support-billing', 'jane.doe@example.com']
+  );
+});
+
+test('retries a failing job with exponential backoff, skipping handlers that already succeeded', async () => {
+  const { jobQueue, ticketService, notifications, worker } = await createWorker();
+  const ticket = await ticketService.create({ subject: 'Where is my parcel?', description: 'No tracking updates' });
+  const attempts: number[] = [];
+  worker.register({
+    name: 'flaky',
+    handle: async () => {
+      attempts.push(Date.now());
+      if (attempts.length < 3) throw new Error('downstream unavailable');
+    },
+  });
+
+  worker.start();
+  await jobQueue.add(TICKETS_QUEUE, 'created', { ticketId: ticket.id });
+  await jobQueue.onIdle();
+
+  assert.equal(attempts.length, 3);
+  assert.ok(attempts[1] - attempts[0] >= 9, 'first retry waits the base backoff');
+  assert.ok(attempts[2] - attempts[1] >= 19, 'second retry waits twice as long');
+  assert.equal((await notifications.list({ channel: 'slack' })).length, 1);
+  assert.deepEqual(await worker.getDeadLetters(), []);
+});
+
+test('dead-letters a job after its last attempt and keeps it in the persistence store', async () => {
+  const { persistence, jobQueue, ticketService, notifications, worker } = await createWorker();
+  const ticket = await ticketService.create({ subject: 'Where is my parcel?', description: 'No tracking updates' });
+  worker.register({
+    name: 'broken',
+    handle: async () => {
+      throw new Error('CRM rejected the ticket');
+    },
+  });
+
+  worker.start();
+  await jobQueue.add(TICKETS_QUEUE, 'created', { ticketId: ticket.id });
+  await jobQueue.onIdle();
+
+  const restarted = new TicketWorker(jobQueue, ticketService, notifications, new CustomerService(persistence), persistence);
+  const deadLetters = await restarted.getDeadLetters();
+  assert.equal(deadLetters.length, 1);
+  assert.equal(deadLetters[0].attempts, 3);
+  assert.equal(deadLetters[0].error, 'CRM rejected the ticket');
+  assert.deepEqual(deadLetters[0].data.completed, ['triage', 'route', 'notify']);
+});
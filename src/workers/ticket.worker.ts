@@ -0,0 +1,179 @@
+/**
+ * Ticket Worker - Consumes the 'tickets' queue filled by CSRAgent.createTicket
+ * Runs configurable handlers (auto-triage, team routing, notifications) with
+ * retries; jobs that keep failing land in a dead-letter list kept in the
+ * configured persistence store.
+ */
+
+import { Injectable } from '@hazeljs/core';
+import logger from '@hazeljs/core';
+import { TicketService, type Ticket, type TicketPriority } from '../services/ticket.service';
+import { CustomerService } from '../services/customer.service';
+import { NotificationService } from '../services/notification.service';
+import { PersistenceService } from '../persistence/persistence.service';
+import type { Repository } from '../persistence/repository';
+import { JobQueueService, type QueueJob } from './job-queue.service';
+
+export const TICKETS_QUEUE = 'tickets';
+
+export interface TicketJobData extends Record<string, unknown> {
+  ticketId: string;
+  subject?: string;
+  /** Attempt number, starting at 1 */
+  attempt?: number;
+  /** Handlers that already succeeded on an earlier attempt */
+  completed?: string[];
+}
+
+export interface TicketJobHandler {
+  name: string;
+  handle(ticket: Ticket, job: QueueJob<TicketJobData>): Promise<void>;
+}
+
+export interface DeadLetter {
+  id: string;
+  jobId: string;
+  name: string;
+  data: TicketJobData;
+  error: string;
+  attempts: number;
+  failedAt: Date;
+}
+
+const PRIORITY_KEYWORDS: Array<{ priority: TicketPriority; keywords: string[] }> = [
+  { priority: 'urgent', keywords: ['fraud', 'chargeback', 'legal', 'unauthorized', 'safety'] },
+  { priority: 'high', keywords: ['damaged', 'broken', 'missing', 'never arrived', 'wrong item', 'refund'] },
+];
+
+const TEAM_KEYWORDS: Array<{ team: string; keywords: string[] }> = [
+  { team: 'billing', keywords: ['refund', 'charge', 'payment', 'invoice', 'billing'] },
+  { team: 'returns', keywords: ['return', 'exchange', 'rma'] },
+  { team: 'shipping', keywords: ['delivery', 'tracking', 'package', 'shipping', 'address', 'arrived'] },
+];
+
+const PRIORITY_RANK: Record<TicketPriority, number> = { low: 0, medium: 1, high: 2, urgent: 3 };
+
+@Injectable()
+export class TicketWorker {
+  private handlers: TicketJobHandler[] = [];
+  private deadLetters: Repository<DeadLetter>;
+  private started = false;
+  private sequence = 0;
+  private readonly maxAttempts = parseInt(process.env.TICKET_WORKER_MAX_ATTEMPTS || '3', 10);
+  private readonly backoffMs = parseInt(process.env.TICKET_WORKER_BACKOFF_MS || '1000', 10);
+
+  constructor(
+    private jobQueue: JobQueueService,
+    private ticketService: TicketService,
+    private notificationService: NotificationService,
+    private customerService: CustomerService,
+    persistence: PersistenceService
+  ) {
+    this.deadLetters = persistence.deadLetters;
+    const builtIn: Record<string, TicketJobHandler> = {
+      triage: { name: 'triage', handle: (ticket) => this.autoTriage(ticket) },
+      route: { name: 'route', handle: (ticket) => this.routeToTeam(ticket) },
+      notify: { name: 'notify', handle: (ticket) => this.notify(ticket) },
+    };
+    const enabled = (process.env.TICKET_WORKER_HANDLERS || 'triage,route,notify')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean);
+    for (const name of enabled) {
+      if (builtIn[name]) this.handlers.push(builtIn[name]);
+    }
+  }
+
+  /** Adds a custom handler; handlers run in registration order */
+  register(handler: TicketJobHandler): void {
+    this.handlers.push(handler);
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    this.jobQueue.process<TicketJobData>(TICKETS_QUEUE, (job) => this.handle(job));
+    logger.info(`Ticket worker consuming '${TICKETS_QUEUE}' (${this.jobQueue.backend} queue)`);
+  }
+
+  async getDeadLetters(): Promise<DeadLetter[]> {
+    return (await this.deadLetters.findAll()).sort((a, b) => a.failedAt.getTime() - b.failedAt.getTime());
+  }
+
+  private async handle(job: QueueJob<TicketJobData>): Promise<void> {
+    const attempt = job.data.attempt ?? 1;
+    const completed = [...(job.data.completed ?? [])];
+
+    try {
+      for (const handler of this.handlers) {
+        if (completed.includes(handler.name)) continue;
+        // Re-read for every handler, so e.g. notify sees the priority and team set by triage and routing
+        const ticket = await this.ticketService.getById(job.data.ticketId);
+        if (!ticket) {
+          throw new Error(`Ticket ${job.data.ticketId} not found`);
+        }
+        await handler.handle(ticket, job);
+        completed.push(handler.name);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (attempt >= this.maxAttempts) {
+        const failedAt = new Date();
+        await this.deadLetters.save({
+          id: `DLQ-${failedAt.getTime()}-${++this.sequence}`,
+          jobId: job.id,
+          name: job.name,
+          data: { ...job.data, completed },
+          error: message,
+          attempts: attempt,
+          failedAt,
+        });
+        logger.warn(`[ticket-worker] job ${job.id} dead-lettered after ${attempt} attempts: ${message}`);
+        return;
+      }
+
+      await this.jobQueue.add(
+        TICKETS_QUEUE,
+        job.name,
+        { ...job.data, attempt: attempt + 1, completed },
+        { delayMs: this.backoffMs * 2 ** (attempt - 1) }
+      );
+    }
+  }
+
+  /** Raises priority when the ticket mentions urgent or high-impact keywords; never lowers it */
+  private async autoTriage(ticket: Ticket): Promise<void> {
+    const text = `${ticket.subject} ${ticket.description}`.toLowerCase();
+    const match = PRIORITY_KEYWORDS.find((rule) => rule.keywords.some((keyword) => text.includes(keyword)));
+    if (match && PRIORITY_RANK[match.priority] > PRIORITY_RANK[ticket.priority]) {
+      await this.ticketService.update(ticket.id, { priority: match.priority }, 'ticket-worker:triage');
+    }
+  }
+
+  private async routeToTeam(ticket: Ticket): Promise<void> {
+    if (ticket.team) return;
+    const text = `${ticket.subject} ${ticket.description}`.toLowerCase();
+    const match = TEAM_KEYWORDS.find((rule) => rule.keywords.some((keyword) => text.includes(keyword)));
+    await this.ticketService.update(ticket.id, { team: match?.team ?? 'support' }, 'ticket-worker:route');
+  }
+
+  private async notify(ticket: Ticket): Promise<void> {
+    await this.notificationService.send({
+      channel: 'slack',
+      to: `#support-${ticket.team ?? 'support'}`,
+      subject: `[${ticket.priority}] ${ticket.id}: ${ticket.subject}`,
+      body: `Due by ${ticket.slaDueAt.toISOString()}. ${ticket.description}`,
+    });
+
+    const customer = ticket.userId ? await this.customerService.findById(ticket.userId) : null;
+    if (customer?.email) {
+      await this.notificationService.send({
+        channel: 'email',
+        to: customer.email,
+        subject: `We received your request (${ticket.id})`,
+        body: `Thanks for reaching out. We will follow up by ${ticket.slaDueAt.toUTCString()}.`,
+      });
+    }
+  }
+}